@@ -7,7 +7,7 @@
  * Responsibilities:
  * - Receive validated ProposedAction[]
  * - Execute them in order
- * - Modify: cart, FSM state, human_override (if ESCALATE)
+ * - Modify: cart, delivery details, FSM state, human_override (if ESCALATE)
  * - Return executed actions and new state
  */
 
@@ -17,8 +17,11 @@ import type {
   Cart,
   CartItem,
   ConversationState,
+  DeliveryDetails,
+  Product,
 } from './types';
-import { DEFAULT_CART } from './constants';
+import { DEFAULT_CART, DEFAULT_DELIVERY } from './constants';
+import { isCartLine } from './cart-lines';
 
 // =============================================================================
 // Input/Output Types
@@ -27,12 +30,7 @@ import { DEFAULT_CART } from './constants';
 export interface ExecuteActionsInput {
   actions: ProposedAction[];
   current_state: ConversationState;
-  product_catalog: Array<{
-    id: string;
-    name: string;
-    price: number;
-    active: boolean;
-  }>;
+  product_catalog: Product[];
 }
 
 export interface ExecuteActionsResult {
@@ -68,6 +66,18 @@ export async function executeActions(
   };
 }
 
+/**
+ * State after one action, without touching the given one. The validator uses
+ * it to check each action against the effect of the ones before it.
+ */
+export function applyAction(
+  action: ProposedAction,
+  state: ConversationState,
+  product_catalog: Product[]
+): ConversationState {
+  return executeSingleAction(action, cloneState(state), product_catalog).state;
+}
+
 // =============================================================================
 // Single Action Executor
 // =============================================================================
@@ -104,6 +114,15 @@ function executeSingleAction(
     case 'CANCEL_ORDER':
       return executeCancelOrder(state);
 
+    case 'SET_DELIVERY_METHOD':
+      return executeSetDelivery(state, { method: action.params?.delivery_method ?? null });
+
+    case 'SET_DELIVERY_ADDRESS':
+      return executeSetDelivery(state, { address: action.params?.address?.trim() || null });
+
+    case 'SET_DELIVERY_SLOT':
+      return executeSetDelivery(state, { slot: action.params?.slot?.trim() || null });
+
     case 'ESCALATE':
       return executeEscalate(state);
 
@@ -129,7 +148,7 @@ function executeAddToCart(
   state: ConversationState,
   catalog: ExecuteActionsInput['product_catalog']
 ): SingleActionResult {
-  const { product_id, quantity } = action.params || {};
+  const { product_id, variant_id = null, quantity, note } = action.params || {};
   if (!product_id || !quantity) {
     return { executed: false, state };
   }
@@ -139,22 +158,35 @@ function executeAddToCart(
     return { executed: false, state };
   }
 
+  const variant = variant_id ? product.variants?.find((v) => v.id === variant_id) : undefined;
+  if (variant_id && !variant) {
+    return { executed: false, state };
+  }
+
   const cart = cloneCart(state.cart_json);
-  const existingIndex = cart.items.findIndex((i) => i.product_id === product_id);
+  const existingIndex = cart.items.findIndex((i) => isCartLine(i, product_id, variant_id));
 
   if (existingIndex >= 0) {
     // Update existing item
     const item = cart.items[existingIndex];
     item.quantity += quantity;
     item.subtotal = item.quantity * item.unit_price;
+    if (note) {
+      item.note = note;
+    }
   } else {
-    // Add new item
+    // Add new item (a variant carries its own price)
+    const unitPrice = variant?.price ?? product.price;
     const newItem: CartItem = {
       product_id: product.id,
+      variant_id: variant?.id ?? null,
       name: product.name,
+      variant_name: variant?.name ?? null,
+      sku: variant?.sku ?? null,
       quantity,
-      unit_price: product.price,
-      subtotal: quantity * product.price,
+      unit_price: unitPrice,
+      subtotal: quantity * unitPrice,
+      note: note || null,
     };
     cart.items.push(newItem);
   }
@@ -179,13 +211,13 @@ function executeUpdateQuantity(
   action: ProposedAction,
   state: ConversationState
 ): SingleActionResult {
-  const { product_id, quantity } = action.params || {};
+  const { product_id, variant_id, quantity, note } = action.params || {};
   if (!product_id || !quantity) {
     return { executed: false, state };
   }
 
   const cart = cloneCart(state.cart_json);
-  const itemIndex = cart.items.findIndex((i) => i.product_id === product_id);
+  const itemIndex = cart.items.findIndex((i) => isCartLine(i, product_id, variant_id));
 
   if (itemIndex < 0) {
     return { executed: false, state };
@@ -194,6 +226,9 @@ function executeUpdateQuantity(
   const item = cart.items[itemIndex];
   item.quantity = quantity;
   item.subtotal = item.quantity * item.unit_price;
+  if (note) {
+    item.note = note;
+  }
 
   // Recalculate total
   cart.total = cart.items.reduce((sum, i) => sum + i.subtotal, 0);
@@ -211,13 +246,13 @@ function executeRemoveItem(
   action: ProposedAction,
   state: ConversationState
 ): SingleActionResult {
-  const { product_id } = action.params || {};
+  const { product_id, variant_id } = action.params || {};
   if (!product_id) {
     return { executed: false, state };
   }
 
   const cart = cloneCart(state.cart_json);
-  const itemIndex = cart.items.findIndex((i) => i.product_id === product_id);
+  const itemIndex = cart.items.findIndex((i) => isCartLine(i, product_id, variant_id));
 
   if (itemIndex < 0) {
     return { executed: false, state };
@@ -287,18 +322,37 @@ function executeConfirmOrder(state: ConversationState): SingleActionResult {
 }
 
 function executeCancelOrder(state: ConversationState): SingleActionResult {
-  // CANCEL_ORDER: any valid state -> IDLE, clear cart
+  // CANCEL_ORDER: any valid state -> IDLE, clear cart and delivery details
   return {
     executed: true,
     state: {
       ...state,
       cart_json: { ...DEFAULT_CART },
+      delivery_json: { ...DEFAULT_DELIVERY },
       fsm_state: 'IDLE',
       pending_order_id: null,
     },
   };
 }
 
+// =============================================================================
+// Delivery Actions
+// =============================================================================
+
+function executeSetDelivery(
+  state: ConversationState,
+  update: Partial<DeliveryDetails>
+): SingleActionResult {
+  // No FSM transition: delivery details are collected alongside the cart
+  return {
+    executed: true,
+    state: {
+      ...state,
+      delivery_json: { ...(state.delivery_json ?? DEFAULT_DELIVERY), ...update },
+    },
+  };
+}
+
 // =============================================================================
 // Conversation Actions
 // =============================================================================
@@ -338,6 +392,7 @@ function cloneState(state: ConversationState): ConversationState {
   return {
     ...state,
     cart_json: cloneCart(state.cart_json),
+    delivery_json: { ...(state.delivery_json ?? DEFAULT_DELIVERY) },
     events_log: state.events_log ? [...state.events_log] : [],
   };
 }
@@ -2,15 +2,21 @@
  * Agent V2 - Action Validator
  *
  * Validates proposed actions according to the validation matrix in DESIGN.md
- * Implements: state validation, quantity limits, product_id requirements
+ * Implements: state validation, quantity limits, product_id requirements,
+ * catalog membership, variants, line notes, per-product stock / quantity limits
+ * and delivery details
  */
 
 import type {
   ProposedAction,
+  ActionParams,
   FsmState,
   Cart,
+  Product,
   ValidationResult,
   ActionType,
+  ConversationState,
+  DeliveryDetails,
 } from './types';
 import {
   ACTION_VALIDATION_RULES,
@@ -18,7 +24,13 @@ import {
   PROHIBITED_ACTIONS,
   QUANTITY_MIN,
   QUANTITY_MAX,
+  NOTE_MAX_LENGTH,
+  DELIVERY_METHODS,
+  DELIVERY_TEXT_MAX_LENGTH,
+  REQUIRED_DELIVERY_FIELDS,
 } from './constants';
+import { isCartLine } from './cart-lines';
+import { applyAction } from './action-executor';
 
 // =============================================================================
 // Validation Context
@@ -27,8 +39,12 @@ import {
 export interface ValidationContext {
   currentState: FsmState;
   cart: Cart;
-  // TODO: Add product catalog for product existence validation
-  // productCatalog?: Product[];
+  /** Products the customer can buy on this channel (as shown to the LLM) */
+  productCatalog: Product[];
+  /** Delivery details collected so far */
+  delivery: DeliveryDetails;
+  /** State the turn started in, for validAtTurnStart rules (defaults to currentState) */
+  turnStartState?: FsmState;
 }
 
 // =============================================================================
@@ -78,6 +94,13 @@ export function validateAction(
     return { valid: false, error: stateError, action };
   }
 
+  if (rules.validAtTurnStart && context.turnStartState && context.turnStartState !== context.currentState) {
+    const turnStartError = validateState(type, context.turnStartState, rules.validStates);
+    if (turnStartError) {
+      return { valid: false, error: `${turnStartError} (checked at the start of the turn)`, action };
+    }
+  }
+
   // 5. Validate product_id if required
   if (rules.requiresProductId) {
     const productError = validateProductId(params?.product_id);
@@ -104,24 +127,78 @@ export function validateAction(
 
   // 8. Validate item exists in cart if required
   if (rules.requiresItemInCart) {
-    const itemError = validateItemInCart(params?.product_id, context.cart);
+    const itemError = validateItemInCart(params?.product_id, params?.variant_id, context.cart);
     if (itemError) {
       return { valid: false, error: itemError, action };
     }
   }
 
+  // 9. Validate product is sellable and the quantity fits its stock and limit
+  if (rules.requiresCatalogProduct) {
+    const catalogError = validateCatalogProduct(type, params, context);
+    if (catalogError) {
+      return { valid: false, error: catalogError, action };
+    }
+  }
+
+  // 10. Validate the delivery field the action sets
+  if (rules.setsDeliveryField) {
+    const deliveryError = validateDeliveryParam(rules.setsDeliveryField, params);
+    if (deliveryError) {
+      return { valid: false, error: deliveryError, action };
+    }
+  }
+
+  // 11. Validate the delivery details the order needs were collected
+  if (rules.requiresDeliveryDetails) {
+    const deliveryError = validateDeliveryDetails(context.delivery);
+    if (deliveryError) {
+      return { valid: false, error: deliveryError, action };
+    }
+  }
+
+  // 12. Validate the line note
+  const noteError = validateNote(params?.note);
+  if (noteError) {
+    return { valid: false, error: noteError, action };
+  }
+
   // All validations passed
   return { valid: true, action };
 }
 
 /**
- * Validates multiple actions and returns results for each
+ * Validates actions in order, each against the state, cart and delivery
+ * details left by the valid actions before it (as the executor will run them):
+ * two ADD_TO_CART of one product count together towards its stock and limit,
+ * and SET_DELIVERY_* after the first ADD_TO_CART sees the cart open.
  */
 export function validateActions(
   actions: ProposedAction[],
   context: ValidationContext
 ): ValidationResult[] {
-  return actions.map((action) => validateAction(action, context));
+  const turnStartState = context.turnStartState ?? context.currentState;
+  let state: ConversationState = {
+    fsm_state: context.currentState,
+    human_override: false,
+    cart_json: context.cart,
+    delivery_json: context.delivery,
+  };
+
+  return actions.map((action) => {
+    const result = validateAction(action, {
+      ...context,
+      currentState: state.fsm_state,
+      cart: state.cart_json,
+      delivery: state.delivery_json ?? context.delivery,
+      turnStartState,
+    });
+
+    if (result.valid) {
+      state = applyAction(action, state, context.productCatalog);
+    }
+    return result;
+  });
 }
 
 /**
@@ -179,7 +256,6 @@ function validateProductId(productId: string | undefined): string | null {
   if (!productId || productId.trim() === '') {
     return 'product_id is required';
   }
-  // TODO: Validate product exists in catalog
   return null;
 }
 
@@ -206,18 +282,149 @@ function validateCartNotEmpty(cart: Cart): string | null {
   return null;
 }
 
+function validateCatalogProduct(
+  actionType: ActionType,
+  params: ActionParams | undefined,
+  context: ValidationContext
+): string | null {
+  const productId = params?.product_id;
+  const product = context.productCatalog.find((p) => p.id === productId);
+
+  if (!product) {
+    return `Product "${productId}" is not in the catalog; use a product_id from product_catalog`;
+  }
+
+  if (!product.active) {
+    return `Product "${product.name}" is not available`;
+  }
+
+  const variants = product.variants ?? [];
+  const variantId = params?.variant_id ?? null;
+  const variant = variants.find((v) => v.id === variantId);
+
+  if (variants.length > 0 && !variantId) {
+    const options = variants.map((v) => `${v.id} (${v.name})`).join(', ');
+    return `Product "${product.name}" has variants; pass variant_id, one of: ${options}`;
+  }
+
+  if (variants.length === 0 && variantId) {
+    return `Product "${product.name}" has no variants; omit variant_id`;
+  }
+
+  if (variantId && !variant) {
+    return `Variant "${variantId}" is not a variant of "${product.name}"`;
+  }
+
+  if (variant && !variant.active) {
+    return `"${product.name} (${variant.name})" is not available`;
+  }
+
+  if (params?.quantity === undefined) {
+    return null;
+  }
+
+  // ADD_TO_CART adds to the units already in the line; UPDATE_QUANTITY replaces them.
+  // Other variants of the product count towards the product's stock and limit.
+  const line = context.cart.items.find((item) => isCartLine(item, product.id, variantId));
+  const lineRequested = (actionType === 'ADD_TO_CART' ? line?.quantity ?? 0 : 0) + params.quantity;
+  const productRequested =
+    context.cart.items
+      .filter((item) => item.product_id === product.id && item !== line)
+      .reduce((sum, item) => sum + item.quantity, 0) + lineRequested;
+
+  if (product.max_quantity !== null && productRequested > product.max_quantity) {
+    return `At most ${product.max_quantity} units of "${product.name}" per order, requested ${productRequested}`;
+  }
+
+  if (variant && variant.stock !== null) {
+    return checkStock(`${product.name} (${variant.name})`, variant.stock, lineRequested);
+  }
+
+  if (product.stock !== null) {
+    return checkStock(product.name, product.stock, productRequested);
+  }
+
+  return null;
+}
+
+function checkStock(label: string, stock: number, requested: number): string | null {
+  if (requested <= stock) {
+    return null;
+  }
+
+  return stock === 0
+    ? `Product "${label}" is out of stock`
+    : `Only ${stock} units of "${label}" in stock, requested ${requested}`;
+}
+
+function validateNote(note: string | null | undefined): string | null {
+  if (note && note.length > NOTE_MAX_LENGTH) {
+    return `note must be at most ${NOTE_MAX_LENGTH} characters, got: ${note.length}`;
+  }
+  return null;
+}
+
+function validateDeliveryParam(
+  field: keyof DeliveryDetails,
+  params: ActionParams | undefined
+): string | null {
+  if (field === 'method') {
+    const method = params?.delivery_method;
+    if (!method || !DELIVERY_METHODS.includes(method)) {
+      return `delivery_method must be one of: ${DELIVERY_METHODS.join(', ')}`;
+    }
+    return null;
+  }
+
+  const text = params?.[field];
+  if (!text || text.trim() === '') {
+    return `${field} is required`;
+  }
+
+  if (text.length > DELIVERY_TEXT_MAX_LENGTH) {
+    return `${field} must be at most ${DELIVERY_TEXT_MAX_LENGTH} characters, got: ${text.length}`;
+  }
+
+  return null;
+}
+
+function validateDeliveryDetails(delivery: DeliveryDetails): string | null {
+  if (!delivery.method) {
+    return 'Delivery method not set; ask the customer and use SET_DELIVERY_METHOD';
+  }
+
+  const missing = REQUIRED_DELIVERY_FIELDS[delivery.method].filter((field) => !delivery[field]);
+  if (missing.length > 0) {
+    const actions = missing.map((field) => `SET_DELIVERY_${field.toUpperCase()}`);
+    return `Missing delivery ${missing.join(', ')} for "${delivery.method}"; ask the customer and use ${actions.join(', ')}`;
+  }
+
+  return null;
+}
+
 function validateItemInCart(
   productId: string | undefined,
+  variantId: string | null | undefined,
   cart: Cart
 ): string | null {
   if (!productId) {
     return 'product_id is required to identify item in cart';
   }
 
-  const itemExists = cart.items.some((item) => item.product_id === productId);
-  if (!itemExists) {
-    return `Item with product_id "${productId}" not found in cart`;
+  if (cart.items.some((item) => isCartLine(item, productId, variantId))) {
+    return null;
   }
 
-  return null;
+  // Point the LLM at the variants that are in the cart
+  const variantsInCart = cart.items
+    .filter((item) => item.product_id === productId && item.variant_id)
+    .map((item) => `${item.variant_id} (${item.variant_name ?? item.name})`);
+
+  if (variantsInCart.length > 0) {
+    return variantId
+      ? `Variant "${variantId}" of product "${productId}" not found in cart; in cart: ${variantsInCart.join(', ')}`
+      : `Product "${productId}" is in the cart as variants; pass variant_id, one of: ${variantsInCart.join(', ')}`;
+  }
+
+  return `Item with product_id "${productId}" not found in cart`;
 }
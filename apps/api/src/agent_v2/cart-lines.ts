@@ -0,0 +1,23 @@
+/**
+ * Agent V2 - Cart Lines
+ *
+ * A cart line is one product + variant. Products without variants have a
+ * single line with variant_id null. Shared by the validator, the executor
+ * and everything that prints the cart.
+ */
+
+import type { CartItem } from './types';
+
+/**
+ * Whether the item is the line for this product and variant.
+ */
+export function isCartLine(item: CartItem, productId: string | undefined, variantId: string | null | undefined): boolean {
+  return item.product_id === productId && (item.variant_id ?? null) === (variantId ?? null);
+}
+
+/**
+ * Name shown to the customer and the merchant, e.g. "Maracuya (Caja x12)".
+ */
+export function describeCartItem(item: Pick<CartItem, 'name' | 'variant_name'>): string {
+  return item.variant_name ? `${item.name} (${item.variant_name})` : item.name;
+}
@@ -4,7 +4,16 @@
  * All constants including FSM states, actions, and validation matrix
  */
 
-import type { FsmState, ActionType, ActionValidationRule, Cart } from './types';
+import type {
+  FsmState,
+  ActionType,
+  ActionValidationRule,
+  Cart,
+  DeliveryDetails,
+  DeliveryMethod,
+  EventKeywords,
+  KeywordEvent,
+} from './types';
 
 // =============================================================================
 // FSM States
@@ -37,6 +46,10 @@ export const ALLOWED_ACTIONS: readonly ActionType[] = [
   'REVIEW_ORDER',
   'CONFIRM_ORDER',
   'CANCEL_ORDER',
+  // Delivery
+  'SET_DELIVERY_METHOD',
+  'SET_DELIVERY_ADDRESS',
+  'SET_DELIVERY_SLOT',
   // Conversation
   'REPLY',
   'CLARIFY',
@@ -67,6 +80,7 @@ export const ACTION_VALIDATION_RULES: Record<ActionType, ActionValidationRule> =
   SHOW_PRODUCT: {
     validStates: 'all',
     requiresProductId: true,
+    requiresCatalogProduct: true,
   },
 
   // Cart actions
@@ -74,12 +88,14 @@ export const ACTION_VALIDATION_RULES: Record<ActionType, ActionValidationRule> =
     validStates: ['IDLE', 'BROWSING', 'CART_OPEN'],
     requiresProductId: true,
     requiresQuantity: true,
+    requiresCatalogProduct: true,
   },
   UPDATE_QUANTITY: {
     validStates: ['CART_OPEN'],
     requiresProductId: true, // to identify item in cart
     requiresQuantity: true,
     requiresItemInCart: true,
+    requiresCatalogProduct: true,
   },
   REMOVE_ITEM: {
     validStates: ['CART_OPEN'],
@@ -99,11 +115,28 @@ export const ACTION_VALIDATION_RULES: Record<ActionType, ActionValidationRule> =
   CONFIRM_ORDER: {
     validStates: ['CHECKOUT'],
     requiresCartNotEmpty: true,
+    requiresDeliveryDetails: true,
+    // The customer confirms a summary they have seen: no REVIEW_ORDER + CONFIRM_ORDER in one answer
+    validAtTurnStart: true,
   },
   CANCEL_ORDER: {
     validStates: ['CART_OPEN', 'CHECKOUT', 'AWAITING_PAYMENT'],
   },
 
+  // Delivery actions - collected while there is something to deliver
+  SET_DELIVERY_METHOD: {
+    validStates: ['CART_OPEN', 'CHECKOUT'],
+    setsDeliveryField: 'method',
+  },
+  SET_DELIVERY_ADDRESS: {
+    validStates: ['CART_OPEN', 'CHECKOUT'],
+    setsDeliveryField: 'address',
+  },
+  SET_DELIVERY_SLOT: {
+    validStates: ['CART_OPEN', 'CHECKOUT'],
+    setsDeliveryField: 'slot',
+  },
+
   // Conversation actions - allowed in all states
   REPLY: {
     validStates: 'all',
@@ -124,6 +157,68 @@ export const ACTION_VALIDATION_RULES: Record<ActionType, ActionValidationRule> =
 export const QUANTITY_MIN = 1;
 export const QUANTITY_MAX = 100;
 
+// =============================================================================
+// Cart Line Notes (free text from the customer, e.g. gift wrapping)
+// =============================================================================
+
+export const NOTE_MAX_LENGTH = 200;
+
+// =============================================================================
+// Delivery
+// =============================================================================
+
+export const DELIVERY_METHODS: readonly DeliveryMethod[] = ['delivery', 'pickup'] as const;
+
+/** Fields CONFIRM_ORDER needs for each method (the slot is optional) */
+export const REQUIRED_DELIVERY_FIELDS: Record<DeliveryMethod, Array<keyof DeliveryDetails>> = {
+  delivery: ['method', 'address'],
+  pickup: ['method'],
+};
+
+export const DELIVERY_TEXT_MAX_LENGTH = 200;
+
+export const DEFAULT_DELIVERY: DeliveryDetails = {
+  method: null,
+  address: null,
+  slot: null,
+};
+
+// =============================================================================
+// Event Keywords (app_config.agent_v2_event_keywords replaces a list per event)
+// =============================================================================
+
+/** Detection and reporting order: the first events weigh most for the LLM */
+export const KEYWORD_EVENTS: readonly KeywordEvent[] = [
+  'ESCALATION_REQUESTED',
+  'COMPLAINT',
+  'PAYMENT_PROOF_RECEIVED',
+  'ORDER_CANCELLED',
+  'ORDER_STATUS_QUERY',
+  'DELIVERY_QUESTION',
+  'ADDRESS_PROVIDED',
+  'GREETING_RECEIVED',
+] as const;
+
+export const EVENT_KEYWORDS_CONFIG_KEY = 'agent_v2_event_keywords';
+
+/** A trailing * matches any word starting with the prefix ("transfer*") */
+export const DEFAULT_EVENT_KEYWORDS: EventKeywords = {
+  ESCALATION_REQUESTED: ['hablar con alguien', 'hablar con una persona', 'asesor', 'asesora', 'humano', 'encargado'],
+  COMPLAINT: ['reclamo', 'queja', 'llego roto', 'llego mal', 'en mal estado', 'nunca llego', 'no me llego', 'pesimo', 'estafa', 'devolucion'],
+  PAYMENT_PROOF_RECEIVED: ['pague', 'transferi', 'ya transfer*', 'deposite', 'comprobante'],
+  ORDER_CANCELLED: ['cancelar pedido', 'cancelar mi pedido', 'cancela el pedido', 'ya no quiero', 'anular pedido'],
+  ORDER_STATUS_QUERY: ['estado de mi pedido', 'estado del pedido', 'donde esta mi pedido', 'cuando llega', 'ya salio', 'ya lo enviaron', 'seguimiento'],
+  DELIVERY_QUESTION: ['hacen envios', 'envio*', 'delivery', 'a domicilio', 'costo de envio', 'cuanto tarda', 'puedo recoger', 'recojo'],
+  ADDRESS_PROVIDED: ['mi direccion es', 'calle', 'avenida', 'av', 'zona', 'barrio', 'edificio', 'departamento', 'esquina'],
+  GREETING_RECEIVED: ['hola', 'buenas', 'buenos dias', 'buenas tardes', 'buenas noches'],
+};
+
+// =============================================================================
+// Concurrency (re-runs of a turn whose state save lost a race)
+// =============================================================================
+
+export const STATE_CONFLICT_MAX_RETRIES = 2;
+
 // =============================================================================
 // Feature Flag
 // =============================================================================
@@ -149,7 +244,9 @@ export const DEFAULT_CONVERSATION_STATE = {
   human_override: false,
   human_override_at: null,
   cart_json: DEFAULT_CART,
+  delivery_json: DEFAULT_DELIVERY,
   pending_order_id: null,
   events_log: [],
   last_llm_response: null,
+  version: 0,
 } as const;
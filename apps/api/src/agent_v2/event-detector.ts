@@ -3,70 +3,92 @@
  *
  * Pure function to detect conversation events from customer messages.
  * No external dependencies, no side effects, no logging, no DB access.
+ *
+ * Message and keywords are compared as words: lowercase, without accents or
+ * punctuation, so "pague" matches "Pagué!" and "hola" doesn't match "cholao".
  */
 
-import type { ConversationEvent } from './types';
+import type { DetectedEvent, EventKeywords } from './types';
+import { DEFAULT_EVENT_KEYWORDS, KEYWORD_EVENTS } from './constants';
 
 interface DetectEventsInput {
   customer_message: string;
   has_image: boolean;
   human_override: boolean;
+  /** Lists from app_config; an event given here replaces its default list */
+  keywords?: Partial<EventKeywords> | null;
 }
 
 /**
- * Detects conversation events from customer input.
+ * Detects conversation events from customer input, each with the phrase
+ * that fired it.
  *
- * Events are returned in priority order:
- * 1. ESCALATION_REQUESTED
- * 2. PAYMENT_PROOF_RECEIVED
- * 3. ORDER_CANCELLED
- * 4. GREETING_RECEIVED
+ * Events are returned in KEYWORD_EVENTS order (ESCALATION_REQUESTED first,
+ * GREETING_RECEIVED last). An image always counts as PAYMENT_PROOF_RECEIVED.
  */
-export function detectEvents(input: DetectEventsInput): ConversationEvent[] {
-  const { customer_message, has_image, human_override } = input;
+export function detectEvents(input: DetectEventsInput): DetectedEvent[] {
+  const { customer_message, has_image, human_override, keywords } = input;
 
   // If human has taken over, don't detect any events
   if (human_override) {
     return [];
   }
 
-  const events: ConversationEvent[] = [];
-  const messageLower = customer_message.toLowerCase();
+  const events: DetectedEvent[] = [];
+  const words = tokenize(customer_message);
 
-  // 1. ESCALATION_REQUESTED (highest priority)
-  if (
-    messageLower.includes('hablar con alguien') ||
-    messageLower.includes('asesor') ||
-    messageLower.includes('humano')
-  ) {
-    events.push('ESCALATION_REQUESTED');
-  }
+  for (const event of KEYWORD_EVENTS) {
+    if (event === 'PAYMENT_PROOF_RECEIVED' && has_image) {
+      events.push({ event, matched: 'imagen adjunta' });
+      continue;
+    }
 
-  // 2. PAYMENT_PROOF_RECEIVED
-  if (
-    has_image ||
-    messageLower.includes('pagué') ||
-    messageLower.includes('transferí')
-  ) {
-    events.push('PAYMENT_PROOF_RECEIVED');
+    const phrases = keywords?.[event] ?? DEFAULT_EVENT_KEYWORDS[event];
+    const matched = phrases.find((phrase) => containsPhrase(words, tokenize(phrase, PHRASE_SEPARATORS)));
+    if (matched) {
+      events.push({ event, matched });
+    }
   }
 
-  // 3. ORDER_CANCELLED
-  if (
-    messageLower.includes('cancelar pedido') ||
-    messageLower.includes('ya no quiero')
-  ) {
-    events.push('ORDER_CANCELLED');
+  return events;
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/** Keyword phrases keep the * of prefix words; in messages it is WhatsApp bold */
+const MESSAGE_SEPARATORS = /[^a-z0-9]+/;
+const PHRASE_SEPARATORS = /[^a-z0-9*]+/;
+
+/**
+ * Lowercase words without accents.
+ */
+function tokenize(text: string, separators: RegExp = MESSAGE_SEPARATORS): string[] {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(separators)
+    .filter((word) => word.length > 0);
+}
+
+/**
+ * Whether the phrase's words appear consecutively in the message.
+ */
+function containsPhrase(words: string[], phrase: string[]): boolean {
+  if (phrase.length === 0) {
+    return false;
   }
 
-  // 4. GREETING_RECEIVED (lowest priority)
-  if (
-    messageLower.includes('hola') ||
-    messageLower.includes('buenos días') ||
-    messageLower.includes('buenas tardes')
-  ) {
-    events.push('GREETING_RECEIVED');
+  for (let start = 0; start + phrase.length <= words.length; start++) {
+    if (phrase.every((part, offset) => wordMatches(words[start + offset], part))) {
+      return true;
+    }
   }
+  return false;
+}
 
-  return events;
+function wordMatches(word: string, part: string): boolean {
+  return part.endsWith('*') && part.length > 1 ? word.startsWith(part.slice(0, -1)) : word === part;
 }
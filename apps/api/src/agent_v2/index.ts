@@ -9,49 +9,82 @@
  * 2. Detect events
  * 3. Check human_override
  * 4. Run LLM orchestrator
- * 5. Validate actions
+ * 5. Resolve product names to catalog ids, then validate actions
  * 6. Execute actions
- * 7. Persist state changes to Supabase
- * 8. Insert action_history records
- * 9. Build response
+ * 7. Create the order confirmed with CONFIRM_ORDER
+ * 8. Persist state changes (compare-and-swap on version)
+ * 9. Insert llm_decisions and action_history records
+ * 10. Build response (catalog, review and confirmation blocks come from state;
+ *     the LLM's text passes the output guardrail first)
  *
- * Side effects: Persists state and action history to Supabase.
+ * If the state changed while the turn ran, the whole pipeline runs again
+ * on the fresh state (up to STATE_CONFLICT_MAX_RETRIES times).
+ *
+ * Side effects: Persists orders, state and action history through the
+ * repositories (Supabase unless an in-memory store is injected).
  * No WhatsApp sends, no logging.
  */
 
+import { randomUUID } from 'node:crypto';
 import type {
   ProcessMessageInput,
+  ProcessMessageOptions,
   ProcessMessageResult,
   FsmState,
   LlmContextInput,
+  LlmDecision,
+  ValidationResult,
+  AgentV2Mode,
 } from './types';
-import {
-  loadFullState,
-  loadRecentHistory,
-  saveConversationState,
-  insertActionHistoryBatch,
-} from './state-loader';
+import { StateConflictError } from './state-loader';
 import type { ActionHistoryRecord } from './state-loader';
+import { getSupabaseRepositories } from './repository';
 import { detectEvents } from './event-detector';
-import { runLlmOrchestrator } from './llm-orchestrator';
-import { getValidActions } from './action-validator';
+import { runLlmDecision } from './llm-orchestrator';
+import { validateActions, type ValidationContext } from './action-validator';
+import { resolveActionProducts } from './product-resolver';
 import { executeActions } from './action-executor';
-import { buildResponse } from './response-builder';
+import { checkResponseText } from './output-guard';
+import {
+  buildResponse,
+  buildPaymentInstructions,
+  buildClarificationText,
+  buildGuardrailText,
+  buildStateBlock,
+} from './response-builder';
+import { resolveMessageTemplates } from './message-templates';
+import { AGENT_V2_FEATURE_FLAG, DEFAULT_DELIVERY, STATE_CONFLICT_MAX_RETRIES } from './constants';
 
 // Re-export types for consumers
 export type {
   ProcessMessageInput,
+  ProcessMessageOptions,
   ProcessMessageResult,
+  AgentV2Mode,
   FsmState,
   ConversationState,
   Cart,
   CartItem,
+  DeliveryDetails,
+  DeliveryMethod,
+  Product,
+  ProductVariant,
+  ProductCandidate,
+  GuardrailViolation,
+  GuardrailViolationKind,
+  ConversationEvent,
+  KeywordEvent,
+  EventKeywords,
+  DetectedEvent,
   ProposedAction,
   ActionType,
   ValidationResult,
+  LlmDecision,
+  LlmDecisionTrace,
 } from './types';
 
 // Re-export validator functions
+export type { ValidationContext } from './action-validator';
 export {
   validateAction,
   validateActions,
@@ -66,9 +99,18 @@ export {
   ACTION_VALIDATION_RULES,
   QUANTITY_MIN,
   QUANTITY_MAX,
+  NOTE_MAX_LENGTH,
+  DELIVERY_METHODS,
+  REQUIRED_DELIVERY_FIELDS,
+  DELIVERY_TEXT_MAX_LENGTH,
+  DEFAULT_DELIVERY,
   DEFAULT_CART,
   DEFAULT_CONVERSATION_STATE,
+  KEYWORD_EVENTS,
+  EVENT_KEYWORDS_CONFIG_KEY,
+  DEFAULT_EVENT_KEYWORDS,
   AGENT_V2_FEATURE_FLAG,
+  STATE_CONFLICT_MAX_RETRIES,
 } from './constants';
 
 // Re-export state loader functions
@@ -76,6 +118,7 @@ export {
   loadConversationState,
   saveConversationState,
   loadProductCatalog,
+  loadEventKeywords,
   loadRecentHistory,
   loadFullState,
   setHumanOverride,
@@ -83,103 +126,225 @@ export {
   updateCart,
   insertActionHistory,
   insertActionHistoryBatch,
+  insertLlmDecision,
+  StateConflictError,
 } from './state-loader';
 
 // Re-export state loader types
-export type { ActionHistoryRecord } from './state-loader';
+export type { ActionHistoryRecord, LlmDecisionRecord } from './state-loader';
+
+// Re-export repositories
+export { createSupabaseRepositories, getSupabaseRepositories } from './repository';
+export type {
+  AgentV2Repositories,
+  ConversationRepository,
+  CatalogRepository,
+  ConfigRepository,
+} from './repository';
+export { createInMemoryRepositories } from './memory-repository';
+export type {
+  InMemoryRepositories,
+  InMemorySeed,
+  InMemoryStore,
+  InMemoryProduct,
+  InMemoryOrder,
+} from './memory-repository';
+
+// Re-export product resolver
+export { resolveProduct, resolveActionProducts } from './product-resolver';
+export type { ProductResolution } from './product-resolver';
+
+// Re-export output guard
+export { checkResponseText } from './output-guard';
+export type { OutputGuardContext } from './output-guard';
 
 // Re-export event detector
 export { detectEvents } from './event-detector';
 
 // Re-export LLM orchestrator
-export { runLlmOrchestrator } from './llm-orchestrator';
+export { runLlmOrchestrator, runLlmDecision } from './llm-orchestrator';
 
 // Re-export action executor
 export { executeActions } from './action-executor';
 
 // Re-export response builder
-export { buildResponse } from './response-builder';
+export {
+  buildResponse,
+  buildPaymentInstructions,
+  buildClarificationText,
+  buildGuardrailText,
+  buildStateBlock,
+} from './response-builder';
+export type { StateBlock, BuildStateBlockInput } from './response-builder';
+
+// Re-export message templates
+export {
+  DEFAULT_MESSAGE_TEMPLATES,
+  MessageTemplateOverridesSchema,
+  resolveMessageTemplates,
+  fillTemplate,
+} from './message-templates';
+export type { MessageTemplates, MessageTemplateOverrides, TemplatePlacement } from './message-templates';
+
+// Re-export order creator
+export { createOrderFromCart, buildOrderLineItems } from './order-creator';
+export type { OrderLineItem } from './order-creator';
+
+// Re-export cart line helpers
+export { isCartLine, describeCartItem } from './cart-lines';
 
 // =============================================================================
 // Main Process Message Function
 // =============================================================================
 
+/** One LLM answer with the validator's verdict on each proposed action */
+interface ValidatedDecision extends LlmDecision {
+  results: ValidationResult[];
+}
+
 /**
  * Processes an incoming WhatsApp message using Agent V2 logic.
  *
  * Pipeline:
- * 1. Load conversation state and product catalog
+ * 1. Load conversation state, product catalog and event keywords (app_config)
  * 2. Detect events from customer message
  * 3. If human_override → return silence (handled=true, response_text=null)
- * 4. Build LLM context and run orchestrator
- * 5. Validate proposed actions
+ * 4. Load recent history and build LLM context
+ * 5. Run orchestrator and validate proposed actions (rejections go back to the LLM once for a CLARIFY)
  * 6. Execute valid actions
- * 7. Persist state changes to Supabase (fsm_state, cart, override, llm_response)
- * 8. Insert action_history records for executed actions
- * 9. Build and return response
+ * 7. On CHECKOUT → AWAITING_PAYMENT, create the order (idempotent) and its payment instructions
+ * 8. Persist state changes (fsm_state, cart, override, pending order, llm_response),
+ *    only if the state is still at the version loaded in step 1
+ * 9. Audit: llm_decisions per LLM answer, action_history per proposed action (with verdict);
+ *    best-effort, a failed write is reported in audit_error instead of thrown
+ * 10. Build and return response
  *
- * Side effects: Persists state and action_history to Supabase.
+ * Side effects: Persists orders, state and action_history through
+ * options.repositories (Supabase by default), unless options.dry_run is set
+ * (steps 7-9 are skipped and step 1 doesn't create a missing state).
+ *
+ * When step 8 hits a StateConflictError (a concurrent turn or a merchant
+ * changed the state), the turn is re-run from step 1. Nothing from the losing
+ * attempt is kept except an order it may have created; a re-run with the same
+ * cart gets it back through the idempotency key. After STATE_CONFLICT_MAX_RETRIES
+ * re-runs the error is thrown.
  *
  * @param input - The incoming message input
+ * @param options - Processing options (dry run, LLM provider, repositories)
  * @returns ProcessMessageResult with response and state changes
  */
 export async function processMessage(
-  input: ProcessMessageInput
+  input: ProcessMessageInput,
+  options: ProcessMessageOptions = {}
 ): Promise<ProcessMessageResult> {
-  const { conversation_id, customer_message, tenant_id } = input;
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await runTurn(input, options);
+    } catch (error) {
+      // A caller-provided state can't be reloaded, so there is nothing to retry with
+      if (!(error instanceof StateConflictError) || options.state || attempt >= STATE_CONFLICT_MAX_RETRIES) {
+        throw error;
+      }
+    }
+  }
+}
 
-  // Step 1: Load conversation state and product catalog
-  const { conversationState, products } = await loadFullState({
-    conversation_id,
-    tenant_id,
-  });
+/**
+ * One attempt at the pipeline described on processMessage.
+ */
+async function runTurn(
+  input: ProcessMessageInput,
+  options: ProcessMessageOptions
+): Promise<ProcessMessageResult> {
+  const { conversation_id, customer_message, wa_phone, tenant_id, catalog = null } = input;
+  const {
+    conversations,
+    catalog: catalogRepository,
+    config: configRepository,
+  } = options.repositories ?? getSupabaseRepositories();
+  const templates = resolveMessageTemplates(input.templates);
+
+  // Step 1: Load conversation state, product catalog and event keywords
+  const [conversationState, products, eventKeywords] = await Promise.all([
+    options.state ?? conversations.loadState({ conversation_id, tenant_id, catalog, dry_run: options.dry_run }),
+    catalogRepository.loadProducts(tenant_id, catalog),
+    configRepository.loadEventKeywords(),
+  ]);
 
   // Step 2: Detect events from customer message
   const detectedEvents = detectEvents({
     customer_message,
     has_image: false, // TODO: Pass from input when available
     human_override: conversationState.human_override,
+    keywords: eventKeywords,
   });
 
   // Step 3: If human_override is active, return silence
   if (conversationState.human_override) {
-    return buildResponse({
-      human_override: true,
-      response_text: null,
-      new_state: conversationState.fsm_state,
-      executed_actions: [],
-      validation_errors: [],
-    });
+    return {
+      ...buildResponse({
+        human_override: true,
+        response_text: null,
+        new_state: conversationState.fsm_state,
+        executed_actions: [],
+        validation_errors: [],
+      }),
+      previous_state: conversationState.fsm_state,
+    };
   }
 
   // Step 4: Load recent history and build LLM context
-  const recentHistory = await loadRecentHistory(conversation_id);
+  const recentHistory = await conversations.loadRecentHistory(conversation_id);
+  const delivery = conversationState.delivery_json ?? DEFAULT_DELIVERY;
 
   const llmContext: LlmContextInput = {
     current_state: conversationState.fsm_state,
     detected_events: detectedEvents,
     cart: conversationState.cart_json,
+    delivery,
     customer_message,
     recent_history: recentHistory,
     product_catalog: products,
   };
 
-  // Step 5: Run LLM orchestrator
-  const llmResponse = await runLlmOrchestrator(llmContext);
+  // Step 5: Run LLM orchestrator and validate proposed actions
+  const validationContext: ValidationContext = {
+    currentState: conversationState.fsm_state,
+    cart: conversationState.cart_json,
+    productCatalog: products,
+    delivery,
+  };
 
-  // Step 6: Validate proposed actions
-  const { valid: validActions, rejected } = getValidActions(
-    llmResponse.proposed_actions,
-    {
-      currentState: conversationState.fsm_state,
-      cart: conversationState.cart_json,
-    }
-  );
+  const decide = async (context: LlmContextInput): Promise<ValidatedDecision> => {
+    const decision = await runLlmDecision(context, options.llm_provider);
+    const actions = resolveActionProducts(decision.response.proposed_actions, products, conversationState.cart_json);
+    return { ...decision, results: validateActions(actions, validationContext) };
+  };
+
+  const decisions = [await decide(llmContext)];
+  const firstRejected = decisions[0].results.filter((r) => !r.valid);
+
+  // Rejections go back to the LLM once, so it answers with the reason (CLARIFY)
+  // instead of a reply that assumes the actions worked
+  if (firstRejected.length > 0) {
+    decisions.push(
+      await decide({
+        ...llmContext,
+        rejected_actions: firstRejected.map((r) => ({ action: r.action, error: r.error ?? 'Rejected' })),
+      })
+    );
+  }
+
+  const finalDecision = decisions[decisions.length - 1];
+  const llmResponse = finalDecision.response;
+  const validActions = finalDecision.results.filter((r) => r.valid).map((r) => r.action);
 
-  // Collect validation errors
-  const validationErrors = rejected.map((r) => r.error).filter((e): e is string => !!e);
+  // Collect validation errors (both rounds)
+  const validationErrors = decisions
+    .flatMap((d) => d.results.map((r) => r.error))
+    .filter((e): e is string => !!e);
 
-  // Step 7: Execute valid actions
+  // Step 6: Execute valid actions
   const executionResult = await executeActions({
     actions: validActions,
     current_state: conversationState,
@@ -190,48 +355,179 @@ export async function processMessage(
   const finalState = executionResult.new_state.fsm_state;
   const previousState = conversationState.fsm_state;
 
+  // A product name that matched several items is asked back with the catalog
+  // options, whatever the LLM wrote assuming it knew which one
+  const clarification = validActions.find((a) => a.type === 'CLARIFY' && a.params?.candidates?.length)?.params;
+
+  // Catalog, cart review and confirmation are rendered from state, after or
+  // instead of the LLM's text
+  const stateBlock = buildStateBlock({
+    executed_actions: executionResult.executed_actions,
+    cart: executionResult.new_state.cart_json,
+    products,
+    templates,
+  });
+  const sendsLlmText = !clarification?.candidates && stateBlock?.placement !== 'replace';
+
+  // Prices, accounts and discounts the LLM wrote must match the carts, the
+  // catalog and the payment account; otherwise a template is sent instead
+  const guardrailViolations = sendsLlmText
+    ? checkResponseText(llmResponse.response_text, {
+        carts: [conversationState.cart_json, executionResult.new_state.cart_json],
+        products,
+        payment_account_number: templates.payment_account_number,
+      })
+    : [];
+
+  let responseText: string;
+  if (clarification?.candidates) {
+    responseText = buildClarificationText(
+      clarification.product_name ?? '',
+      clarification.candidates,
+      conversationState.cart_json.currency
+    );
+  } else if (stateBlock?.placement === 'replace') {
+    responseText = stateBlock.text;
+  } else {
+    const llmText =
+      guardrailViolations.length > 0
+        ? buildGuardrailText(guardrailViolations, executionResult.new_state.cart_json, finalState, templates)
+        : llmResponse.response_text;
+    responseText = stateBlock ? `${llmText}\n\n${stateBlock.text}` : llmText;
+  }
+
+  // Dry run: report what would happen without persisting anything
+  if (options.dry_run) {
+    return {
+      ...buildResponse({
+        human_override: executionResult.new_state.human_override,
+        response_text: responseText,
+        new_state: finalState,
+        executed_actions: executionResult.executed_actions,
+        validation_errors: validationErrors,
+      }),
+      previous_state: previousState,
+      proposed_actions: llmResponse.proposed_actions,
+      ...(guardrailViolations.length > 0 ? { guardrail_violations: guardrailViolations } : {}),
+      detected_events: detectedEvents,
+      state: {
+        ...executionResult.new_state,
+        fsm_state: finalState,
+        last_llm_response: llmResponse,
+      },
+    };
+  }
+
+  // Step 7: Create the confirmed order before the state that points to it
+  let pendingOrderId = executionResult.new_state.pending_order_id;
+  let pendingOrder: ProcessMessageResult['pending_order'];
+
+  if (previousState === 'CHECKOUT' && finalState === 'AWAITING_PAYMENT') {
+    const cart = executionResult.new_state.cart_json;
+    pendingOrderId = await conversations.createOrder({
+      conversation_id,
+      tenant_id,
+      wa_phone,
+      cart,
+      delivery: executionResult.new_state.delivery_json,
+    });
+    pendingOrder = {
+      order_id: pendingOrderId,
+      payment_instructions: buildPaymentInstructions(pendingOrderId, cart, templates),
+    };
+  }
+
   // Step 8: Persist state changes
-  await saveConversationState(
+  await conversations.saveState(
     { conversation_id, tenant_id },
     {
       fsm_state: finalState,
       cart_json: executionResult.new_state.cart_json,
+      delivery_json: executionResult.new_state.delivery_json,
       human_override: executionResult.new_state.human_override,
       human_override_at: executionResult.new_state.human_override_at,
+      pending_order_id: pendingOrderId,
       last_llm_response: llmResponse,
-    }
+    },
+    options.state ? undefined : conversationState.version
   );
 
-  // Step 9: Insert action history for executed actions
-  const actionHistoryRecords: ActionHistoryRecord[] = executionResult.executed_actions.map(
-    (action) => ({
-      conversation_id,
-      action_type: action.type,
-      action_payload: (action.params || {}) as Record<string, unknown>,
-      validated: true,
-      executed: true,
-      fsm_state_before: previousState,
-      fsm_state_after: finalState,
-    })
-  );
+  // Step 9: Audit every LLM answer and every action it proposed.
+  // The order and state are already committed: a failed audit write must not
+  // fail the turn, or the reply and payment instructions would never go out
+  const turnId = randomUUID();
+  let auditError: string | undefined;
+
+  try {
+    for (const [index, decision] of decisions.entries()) {
+      const isFinal = decision === finalDecision;
+      const decisionId = await conversations.insertLlmDecision({
+        ...decision.trace,
+        conversation_id,
+        turn_id: turnId,
+        round: index + 1,
+        customer_message,
+        fsm_state_before: previousState,
+        reasoning: decision.response.reasoning ?? null,
+        response_text: decision.response.response_text,
+        ...(isFinal ? { guardrail_violations: guardrailViolations } : {}),
+        detected_events: detectedEvents,
+      });
 
-  if (actionHistoryRecords.length > 0) {
-    await insertActionHistoryBatch(actionHistoryRecords);
+      const actionHistoryRecords: ActionHistoryRecord[] = decision.results.map((result) => {
+        // Valid actions of a superseded first answer were never executed
+        const executed = isFinal && executionResult.executed_actions.includes(result.action);
+        return {
+          conversation_id,
+          action_type: result.action.type,
+          action_payload: (result.action.params || {}) as Record<string, unknown>,
+          validated: result.valid,
+          executed,
+          fsm_state_before: previousState,
+          fsm_state_after: executed ? finalState : previousState,
+          validation_error: result.error ?? null,
+          llm_decision_id: decisionId,
+        };
+      });
+
+      await conversations.insertActionHistory(actionHistoryRecords);
+    }
+  } catch (error) {
+    auditError = error instanceof Error ? error.message : String(error);
   }
 
   // Step 10: Build and return response
-  return buildResponse({
-    human_override: executionResult.new_state.human_override,
-    response_text: llmResponse.response_text,
-    new_state: finalState,
-    executed_actions: executionResult.executed_actions,
-    validation_errors: validationErrors,
-  });
+  return {
+    ...buildResponse({
+      human_override: executionResult.new_state.human_override,
+      response_text: responseText,
+      new_state: finalState,
+      executed_actions: executionResult.executed_actions,
+      validation_errors: validationErrors,
+    }),
+    previous_state: previousState,
+    proposed_actions: llmResponse.proposed_actions,
+    ...(guardrailViolations.length > 0 ? { guardrail_violations: guardrailViolations } : {}),
+    detected_events: detectedEvents,
+    pending_order: pendingOrder,
+    ...(auditError ? { audit_error: auditError } : {}),
+  };
+}
+
+/**
+ * Reads the AGENT_V2_ENABLED feature flag.
+ */
+export function getAgentV2Mode(): AgentV2Mode {
+  const value = process.env[AGENT_V2_FEATURE_FLAG];
+  if (value === 'true') {
+    return 'on';
+  }
+  return value === 'shadow' ? 'shadow' : 'off';
 }
 
 /**
  * Checks if Agent V2 is enabled via feature flag.
  */
 export function isAgentV2Enabled(): boolean {
-  return process.env.AGENT_V2_ENABLED === 'true';
+  return getAgentV2Mode() === 'on';
 }
@@ -3,20 +3,28 @@
  *
  * Responsible for:
  * - Building the prompt for the LLM
- * - Calling the LLM (mock function)
+ * - Calling the LLM through the injected provider (JSON output mode)
  * - Validating that the response complies with the schema
- * - Returning validated response or safe fallback
+ * - Returning validated response or safe fallback, with a trace for the audit
  *
- * This module is completely pure - no side effects, no DB access, no logging.
+ * No DB access, no logging. The only side effect is the provider call.
  */
 
+import { createHash } from 'node:crypto';
 import type {
   LlmContextInput,
   LlmResponse,
+  LlmDecision,
+  LlmDecisionTrace,
   ProposedAction,
   FsmState,
 } from './types';
 import { ALLOWED_ACTIONS, FSM_STATES } from './constants';
+import {
+  generateWithProvider,
+  getLlmProvider,
+  type LlmProvider,
+} from '../services/llm-providers/provider.js';
 
 // =============================================================================
 // Constants
@@ -29,21 +37,23 @@ const FALLBACK_RESPONSE_TEXT =
   'Disculpa, no pude procesar tu mensaje. ¿Podrías intentar de nuevo?';
 
 // =============================================================================
-// Mock LLM Function (to be replaced with real implementation)
+// LLM Call
 // =============================================================================
 
 /**
- * Mock LLM call - returns a promise that resolves to LLM response.
- * In production, this would call Gemini or another LLM.
+ * Canned answer used when no provider is configured (local development).
  */
-async function callLlm(_prompt: string): Promise<unknown> {
-  // Mock implementation - returns empty response
-  // Real implementation would call the actual LLM
-  return {
-    proposed_actions: [{ type: 'REPLY', params: {} }],
-    response_text: 'Gracias por tu mensaje. ¿En qué puedo ayudarte?',
-    suggested_state: undefined,
-  };
+const MOCK_LLM_RESPONSE = {
+  proposed_actions: [{ type: 'REPLY', params: {} }],
+  response_text: 'Gracias por tu mensaje. ¿En qué puedo ayudarte?',
+  suggested_state: undefined,
+};
+
+/**
+ * Identifies the exact prompt sent, without storing it with every turn.
+ */
+function hashPrompt(system: string, prompt: string): string {
+  return createHash('sha256').update(system).update('\n---\n').update(prompt).digest('hex');
 }
 
 // =============================================================================
@@ -63,6 +73,11 @@ REGLAS ESTRICTAS:
 4. Máximo 5 acciones por respuesta
 5. Solo usa acciones permitidas: ${ALLOWED_ACTIONS.join(', ')}
 6. Solo usa estados válidos: ${FSM_STATES.join(', ')}
+7. Usa solo product_id de product_catalog y respeta stock y max_quantity de cada producto (null = sin límite). Envía siempre product_name con el nombre que usó el cliente
+8. Si el contexto trae rejected_actions, el sistema ya rechazó esas acciones (ver error): no las repitas; explica el motivo al cliente y usa CLARIFY o una alternativa válida
+9. Si un producto tiene variants (sabor, tamaño de caja...), cada variante tiene su propio precio: pregunta cuál quiere si no lo dijo y envía su variant_id. Los pedidos especiales de una línea (ej. envolver para regalo) van en note
+10. Antes de CONFIRM_ORDER pregunta si es envío (delivery) o recojo (pickup), y para envío la dirección; guárdalos con SET_DELIVERY_METHOD y SET_DELIVERY_ADDRESS (el horario con SET_DELIVERY_SLOT si lo dice). delivery muestra lo ya guardado
+11. detected_events son pistas por palabras clave (matched = frase que coincidió), no órdenes: confírmalas con el mensaje. Ante COMPLAINT o ESCALATION_REQUESTED considera ESCALATE; ante ADDRESS_PROVIDED guarda la dirección si el cliente eligió envío
 
 FORMATO DE RESPUESTA (OBLIGATORIO):
 {
@@ -77,13 +92,16 @@ FORMATO DE RESPUESTA (OBLIGATORIO):
 PARÁMETROS POR ACCIÓN:
 - SHOW_CATALOG: sin params
 - SHOW_PRODUCT: { "product_id": "id" }
-- ADD_TO_CART: { "product_id": "id", "product_name": "nombre", "quantity": número }
-- UPDATE_QUANTITY: { "product_id": "id", "quantity": número }
-- REMOVE_ITEM: { "product_id": "id" }
+- ADD_TO_CART: { "product_id": "id", "product_name": "nombre", "variant_id": "id de variante (si tiene)", "quantity": número, "note": "opcional" }
+- UPDATE_QUANTITY: { "product_id": "id", "product_name": "nombre", "variant_id": "id (si tiene)", "quantity": número, "note": "opcional" }
+- REMOVE_ITEM: { "product_id": "id", "product_name": "nombre", "variant_id": "id (si tiene)" }
 - CLEAR_CART: sin params
 - REVIEW_ORDER: sin params
-- CONFIRM_ORDER: sin params
+- CONFIRM_ORDER: sin params (el sistema envía aparte el número de pedido y los datos de pago; no los escribas tú)
 - CANCEL_ORDER: { "reason": "razón opcional" }
+- SET_DELIVERY_METHOD: { "delivery_method": "delivery" | "pickup" }
+- SET_DELIVERY_ADDRESS: { "address": "dirección con referencias" }
+- SET_DELIVERY_SLOT: { "slot": "cuándo lo quiere, ej. mañana 15-18h" }
 - REPLY: sin params
 - CLARIFY: sin params
 - ESCALATE: { "reason": "razón" }
@@ -105,30 +123,36 @@ function buildUserPrompt(input: LlmContextInput): string {
       current_state: input.current_state,
       detected_events: input.detected_events,
       cart: input.cart,
+      delivery: input.delivery,
       customer_message: input.customer_message,
       recent_history: input.recent_history,
       product_catalog: input.product_catalog,
+      ...(input.rejected_actions?.length ? { rejected_actions: input.rejected_actions } : {}),
     },
     null,
     2
   );
 }
 
+/**
+ * Builds the user turn: current context plus the output reminder.
+ */
+function buildContextPrompt(input: LlmContextInput): string {
+  return `CONTEXTO ACTUAL:
+${buildUserPrompt(input)}
+
+Responde SOLO con JSON válido:`;
+}
+
 /**
  * Builds the complete prompt combining system and user prompts.
  */
 function buildPrompt(input: LlmContextInput): string {
-  const systemPrompt = buildSystemPrompt();
-  const userPrompt = buildUserPrompt(input);
-
-  return `${systemPrompt}
+  return `${buildSystemPrompt()}
 
 ---
 
-CONTEXTO ACTUAL:
-${userPrompt}
-
-Responde SOLO con JSON válido:`;
+${buildContextPrompt(input)}`;
 }
 
 // =============================================================================
@@ -185,8 +209,22 @@ function isValidActionParams(params: unknown): boolean {
     }
   }
 
-  // Validate reason if present
-  if ('reason' in p && typeof p.reason !== 'string') {
+  // Validate variant_id and note if present (null = not set)
+  for (const key of ['variant_id', 'note']) {
+    if (key in p && p[key] !== null && typeof p[key] !== 'string') {
+      return false;
+    }
+  }
+
+  // Validate reason and delivery fields if present
+  for (const key of ['reason', 'delivery_method', 'address', 'slot']) {
+    if (key in p && typeof p[key] !== 'string') {
+      return false;
+    }
+  }
+
+  // Set by the product resolver only; the LLM must not offer its own options
+  if ('candidates' in p || 'resolved_from' in p) {
     return false;
   }
 
@@ -326,28 +364,71 @@ function createFallbackResponse(currentState: FsmState): LlmResponse {
  * 1. Builds the prompt from the input context
  * 2. Calls the LLM
  * 3. Validates the response against the schema
- * 4. Returns validated response or safe fallback
+ * 4. Returns validated response or safe fallback, plus how it was obtained
  *
  * @param input - The context input for the LLM
- * @returns Promise resolving to validated LLM response
+ * @param provider - LLM provider (defaults to LLM_PROVIDER; null = canned mock answer)
+ * @returns Promise resolving to validated LLM response and its trace
  */
-export async function runLlmOrchestrator(
-  input: LlmContextInput
-): Promise<LlmResponse> {
-  // Build the prompt
-  const prompt = buildPrompt(input);
+export async function runLlmDecision(
+  input: LlmContextInput,
+  provider: LlmProvider | null = getLlmProvider()
+): Promise<LlmDecision> {
+  const system = buildSystemPrompt();
+  const prompt = buildContextPrompt(input);
+  const trace: LlmDecisionTrace = {
+    prompt_hash: hashPrompt(system, prompt),
+    provider: provider?.name ?? 'mock',
+    model: provider?.model ?? null,
+    latency_ms: 0,
+    attempts: 0,
+    input_tokens: null,
+    output_tokens: null,
+    raw_output: null,
+    fallback_reason: null,
+  };
+
+  const fallback = (reason: string): LlmDecision => ({
+    response: createFallbackResponse(input.current_state),
+    trace: { ...trace, fallback_reason: reason },
+  });
 
   try {
     // Call the LLM
-    const rawResponse = await callLlm(prompt);
+    let rawResponse: unknown;
+
+    if (!provider) {
+      rawResponse = MOCK_LLM_RESPONSE;
+      trace.raw_output = JSON.stringify(MOCK_LLM_RESPONSE);
+    } else {
+      const result = await generateWithProvider(provider, {
+        system,
+        prompt,
+        responseFormat: 'json',
+        temperature: 0.2,
+        purpose: 'agent_v2',
+      });
+
+      trace.latency_ms = result.latencyMs;
+      trace.attempts = result.attempts;
+
+      if (!result.ok) {
+        // LLM call failed
+        return fallback(`llm_error: ${result.error}`);
+      }
+
+      trace.input_tokens = result.usage.inputTokens;
+      trace.output_tokens = result.usage.outputTokens;
+      trace.raw_output = result.text;
+      rawResponse = result.text;
+    }
 
     // If response is a string, parse it as JSON
     let parsedResponse: unknown;
     if (typeof rawResponse === 'string') {
       parsedResponse = parseJsonResponse(rawResponse);
       if (parsedResponse === null) {
-        // JSON parse failed
-        return createFallbackResponse(input.current_state);
+        return fallback('invalid_json');
       }
     } else {
       parsedResponse = rawResponse;
@@ -357,8 +438,7 @@ export async function runLlmOrchestrator(
     const validatedResponse = validateLlmResponse(parsedResponse);
 
     if (validatedResponse === null) {
-      // Validation failed
-      return createFallbackResponse(input.current_state);
+      return fallback('invalid_schema');
     }
 
     // If no suggested_state, keep current state
@@ -366,20 +446,31 @@ export async function runLlmOrchestrator(
       validatedResponse.suggested_state = input.current_state;
     }
 
-    return validatedResponse;
-  } catch {
-    // LLM call failed
-    return createFallbackResponse(input.current_state);
+    return { response: validatedResponse, trace };
+  } catch (error) {
+    return fallback(`unexpected_error: ${error instanceof Error ? error.message : String(error)}`);
   }
 }
 
+/**
+ * Same as runLlmDecision, for callers that only need the answer.
+ */
+export async function runLlmOrchestrator(
+  input: LlmContextInput,
+  provider: LlmProvider | null = getLlmProvider()
+): Promise<LlmResponse> {
+  return (await runLlmDecision(input, provider)).response;
+}
+
 // =============================================================================
 // Exports for Testing
 // =============================================================================
 
 export const __testing = {
+  hashPrompt,
   buildSystemPrompt,
   buildUserPrompt,
+  buildContextPrompt,
   buildPrompt,
   validateLlmResponse,
   parseJsonResponse,
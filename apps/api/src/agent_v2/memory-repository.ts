@@ -0,0 +1,186 @@
+/**
+ * Agent V2 - In-Memory Repositories
+ *
+ * Same contract as the Supabase repositories, kept in plain maps: the full
+ * processMessage pipeline (validation, execution, CAS saves, audit, orders)
+ * runs without a database. The store is exposed so callers can inspect what
+ * a turn wrote and add the messages the inbound pipeline would have stored.
+ *
+ * Single tenant: tenant_id is accepted and ignored.
+ */
+
+import { randomUUID } from 'node:crypto';
+import type { ConversationState, EventKeywords, HistoryMessage, Product } from './types';
+import type { ActionHistoryRecord, LlmDecisionRecord } from './state-loader';
+import type { AgentV2Repositories } from './repository';
+import { StateConflictError } from './state-loader';
+import { buildOrderIdempotencyKey, type CreateOrderFromCartParams } from './order-creator';
+import { DEFAULT_CART, DEFAULT_DELIVERY } from './constants';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** A product plus the catalog it belongs to (null/absent = shared by all catalogs) */
+export interface InMemoryProduct extends Product {
+  catalog?: string | null;
+}
+
+export interface InMemoryOrder extends CreateOrderFromCartParams {
+  id: string;
+  idempotency_key: string;
+  created_at: string;
+}
+
+export interface InMemoryStore {
+  products: InMemoryProduct[];
+  states: Map<string, ConversationState>;
+  messages: Map<string, HistoryMessage[]>;
+  action_history: Array<ActionHistoryRecord & { created_at: string }>;
+  llm_decisions: Array<LlmDecisionRecord & { id: string; created_at: string }>;
+  orders: InMemoryOrder[];
+}
+
+export interface InMemorySeed {
+  products?: InMemoryProduct[];
+  /** Initial state per conversation id */
+  states?: Record<string, Partial<ConversationState>>;
+  /** Prior messages per conversation id, oldest first */
+  messages?: Record<string, HistoryMessage[]>;
+  /** What app_config.agent_v2_event_keywords would hold */
+  event_keywords?: Partial<EventKeywords>;
+}
+
+export interface InMemoryRepositories extends AgentV2Repositories {
+  store: InMemoryStore;
+  /** Records a message the way the inbound pipeline stores them in production */
+  appendMessage(conversation_id: string, message: HistoryMessage): void;
+}
+
+// =============================================================================
+// Factory
+// =============================================================================
+
+export function createInMemoryRepositories(seed: InMemorySeed = {}): InMemoryRepositories {
+  const store: InMemoryStore = {
+    products: (seed.products ?? []).map((p) => ({ ...p })),
+    states: new Map(
+      Object.entries(seed.states ?? {}).map(([id, state]) => [id, { ...initialState(), ...clone(state), version: 0 }])
+    ),
+    messages: new Map(Object.entries(seed.messages ?? {}).map(([id, list]) => [id, [...list]])),
+    action_history: [],
+    llm_decisions: [],
+    orders: [],
+  };
+
+  return {
+    store,
+
+    appendMessage(conversation_id, message) {
+      const list = store.messages.get(conversation_id) ?? [];
+      list.push({ ...message });
+      store.messages.set(conversation_id, list);
+    },
+
+    conversations: {
+      async loadState({ conversation_id, dry_run }) {
+        let state = store.states.get(conversation_id);
+        if (!state) {
+          state = initialState();
+          if (!dry_run) {
+            store.states.set(conversation_id, state);
+          }
+        }
+        // Callers get a copy, like a row read from the database
+        return clone(state);
+      },
+
+      async saveState({ conversation_id }, update, expectedVersion) {
+        const current = store.states.get(conversation_id);
+        if (!current) {
+          // Supabase updates no row in this case; mirror it
+          if (expectedVersion !== undefined) {
+            throw new StateConflictError(conversation_id, expectedVersion);
+          }
+          return;
+        }
+
+        const version = current.version ?? 0;
+        if (expectedVersion !== undefined && version !== expectedVersion) {
+          throw new StateConflictError(conversation_id, expectedVersion);
+        }
+
+        const defined = Object.fromEntries(Object.entries(update).filter(([, value]) => value !== undefined));
+        store.states.set(conversation_id, { ...current, ...clone(defined), version: version + 1 });
+      },
+
+      async loadRecentHistory(conversation_id, limit = 10) {
+        return (store.messages.get(conversation_id) ?? []).slice(-limit).map((m) => ({ ...m }));
+      },
+
+      async insertActionHistory(records) {
+        const created_at = new Date().toISOString();
+        store.action_history.push(...records.map((r) => ({ ...clone(r), created_at })));
+      },
+
+      async insertLlmDecision(record) {
+        const id = randomUUID();
+        store.llm_decisions.push({ ...clone(record), id, created_at: new Date().toISOString() });
+        return id;
+      },
+
+      async createOrder(params) {
+        const idempotency_key = buildOrderIdempotencyKey(params.conversation_id, params.cart);
+        const existing = store.orders.find((o) => o.idempotency_key === idempotency_key);
+        if (existing) {
+          return existing.id;
+        }
+
+        const order: InMemoryOrder = {
+          ...clone(params),
+          id: randomUUID(),
+          idempotency_key,
+          created_at: new Date().toISOString(),
+        };
+        store.orders.push(order);
+        return order.id;
+      },
+    },
+
+    catalog: {
+      async loadProducts(_tenant_id, catalog) {
+        return store.products
+          .filter((p) => p.active && (!catalog || !p.catalog || p.catalog === catalog))
+          .map(({ catalog: _catalog, ...product }) => ({ ...product }));
+      },
+    },
+
+    config: {
+      async loadEventKeywords() {
+        return seed.event_keywords ?? null;
+      },
+    },
+  };
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function initialState(): ConversationState {
+  return {
+    fsm_state: 'IDLE',
+    human_override: false,
+    human_override_at: null,
+    cart_json: { ...DEFAULT_CART, items: [] },
+    delivery_json: { ...DEFAULT_DELIVERY },
+    pending_order_id: null,
+    events_log: [],
+    last_llm_response: null,
+    version: 0,
+  };
+}
+
+function clone<T>(value: T): T {
+  return structuredClone(value);
+}
@@ -0,0 +1,120 @@
+/**
+ * Agent V2 - Message Templates
+ *
+ * Texts the response builder renders from state (catalog, cart, payment
+ * details) instead of trusting the figures the LLM wrote. Defaults are in
+ * Spanish with WhatsApp formatting (*bold*, _italic_); each WhatsApp line can
+ * override any of them in channel_accounts.agent_profile.templates, including
+ * the bank account its customers pay into.
+ *
+ * Placeholders go in braces ({name}, {price}...); amounts arrive formatted.
+ */
+
+import { z } from 'zod';
+
+// =============================================================================
+// Defaults
+// =============================================================================
+
+export const DEFAULT_MESSAGE_TEMPLATES = {
+  /** SHOW_CATALOG: header, then one line per product ({name}, {price}) */
+  catalog_header: '*Nuestros productos:*',
+  catalog_item: '• {name}: {price}',
+  /** Product with variants ({name}), followed by one line per variant ({name}, {price}) */
+  catalog_item_with_variants: '• {name}',
+  catalog_variant: '   - {name}: {price}',
+
+  /** Cart summary: one line per item ({quantity}, {name}, {subtotal}), its note ({note}) and the total ({total}) */
+  cart_header: '*Tu pedido:*',
+  cart_line: '{quantity} x {name}: {subtotal}',
+  cart_line_note: '   _{note}_',
+  cart_total: 'Total: *{total}*',
+
+  /** REVIEW_ORDER: after the cart summary */
+  review_footer: '¿Confirmamos el pedido?',
+
+  /** Account the line's customers transfer to; the guardrail only lets this account number through */
+  payment_bank: 'BNB',
+  payment_account_number: '1234567890',
+  payment_holder: 'AutoVentas SRL',
+  /** Transfer block: {bank}, {account_number}, {holder} */
+  transfer_details:
+    '*Datos para transferencia:*\n' +
+    'Banco: {bank}\n' +
+    'Cuenta: {account_number}\n' +
+    'Nombre: {holder}',
+
+  /** CONFIRM_ORDER: the reply; payment_instructions follows as a separate message */
+  order_confirmed: '¡Listo! Tu pedido quedó registrado. Te envío los datos de pago.',
+  /** {order_ref}, {cart} (lines and total), {transfer_details}, or {bank}, {account_number}, {holder} */
+  payment_instructions:
+    '*Pedido #{order_ref}*\n' +
+    '{cart}\n\n' +
+    '{transfer_details}\n\n' +
+    'Envíame foto del comprobante cuando hagas el pago.',
+
+  /** Output guardrail: sent when the LLM stated a price or discount the system doesn't back */
+  guardrail_notice: 'Los precios son los del catálogo y no manejamos descuentos.',
+  guardrail_payment_later: 'Los datos para el pago te los envío cuando confirmes el pedido.',
+  guardrail_closing: '¿Te ayudo con algo más?',
+
+  /** Whether each block is added after the LLM's text or sent instead of it */
+  catalog_placement: 'append' as TemplatePlacement,
+  review_placement: 'replace' as TemplatePlacement,
+  confirm_placement: 'replace' as TemplatePlacement,
+};
+
+export type TemplatePlacement = 'append' | 'replace';
+
+export type MessageTemplates = typeof DEFAULT_MESSAGE_TEMPLATES;
+
+// =============================================================================
+// Overrides
+// =============================================================================
+
+const placement = z.enum(['append', 'replace']);
+
+/**
+ * What a merchant may set in agent_profile.templates; unset keys keep the default.
+ */
+export const MessageTemplateOverridesSchema = z
+  .object({
+    catalog_header: z.string(),
+    catalog_item: z.string(),
+    catalog_item_with_variants: z.string(),
+    catalog_variant: z.string(),
+    cart_header: z.string(),
+    cart_line: z.string(),
+    cart_line_note: z.string(),
+    cart_total: z.string(),
+    review_footer: z.string(),
+    payment_bank: z.string(),
+    payment_account_number: z.string(),
+    payment_holder: z.string(),
+    transfer_details: z.string(),
+    order_confirmed: z.string(),
+    payment_instructions: z.string(),
+    guardrail_notice: z.string(),
+    guardrail_payment_later: z.string(),
+    guardrail_closing: z.string(),
+    catalog_placement: placement,
+    review_placement: placement,
+    confirm_placement: placement,
+  })
+  .partial();
+
+export type MessageTemplateOverrides = z.infer<typeof MessageTemplateOverridesSchema>;
+
+export function resolveMessageTemplates(overrides?: MessageTemplateOverrides | null): MessageTemplates {
+  const defined = Object.entries(overrides ?? {}).filter(([, value]) => value !== undefined);
+  return { ...DEFAULT_MESSAGE_TEMPLATES, ...Object.fromEntries(defined) };
+}
+
+/**
+ * Replaces {key} placeholders; unknown ones are left as written.
+ */
+export function fillTemplate(template: string, values: Record<string, string | number>): string {
+  return template.replace(/\{(\w+)\}/g, (placeholder, key: string) =>
+    key in values ? String(values[key]) : placeholder
+  );
+}
@@ -0,0 +1,116 @@
+/**
+ * Agent V2 - Order Creator
+ *
+ * Persists the order confirmed with CONFIRM_ORDER: an orders row built from
+ * cart_json plus its pending payment (via createPendingOrder). Each cart line
+ * becomes an order line item with its variant, SKU and note; the delivery
+ * details collected in the conversation go to the order's delivery columns.
+ *
+ * Idempotent: the order is keyed by conversation and cart contents, so a
+ * retried turn (or a repeated CONFIRM) gets the same open order back.
+ */
+
+import { createHash } from 'node:crypto';
+import type { Cart, DeliveryDetails } from './types';
+import { createPendingOrder } from '../services/orders/createPendingOrder.js';
+import { describeCartItem } from './cart-lines';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface CreateOrderFromCartParams {
+  conversation_id: string;
+  tenant_id: string;
+  wa_phone: string;
+  cart: Cart;
+  delivery?: DeliveryDetails;
+}
+
+/** One entry of orders.products_json (name/quantity/price is what the dashboard reads) */
+export interface OrderLineItem {
+  product_id: string;
+  variant_id: string | null;
+  sku: string | null;
+  name: string;
+  quantity: number;
+  price: number;
+  subtotal: number;
+  note: string | null;
+}
+
+// =============================================================================
+// Main Function
+// =============================================================================
+
+/**
+ * Returns the id of the open order for this cart, creating it if needed.
+ * Throws when the order cannot be persisted, so the turn is not saved as
+ * AWAITING_PAYMENT without an order.
+ */
+export async function createOrderFromCart(params: CreateOrderFromCartParams): Promise<string> {
+  const { conversation_id, tenant_id, wa_phone, cart, delivery } = params;
+
+  const result = await createPendingOrder({
+    customerPhone: wa_phone,
+    productsJson: buildOrderLineItems(cart),
+    totalAmount: cart.total,
+    currency: cart.currency,
+    conversationId: conversation_id,
+    tenantId: tenant_id,
+    ...(delivery?.method
+      ? {
+          deliveryMethod: delivery.method,
+          // An address left over from before switching to pickup is not a delivery address
+          deliveryAddress: delivery.method === 'delivery' ? delivery.address : null,
+          deliverySlot: delivery.slot,
+        }
+      : {}),
+    source: 'whatsapp',
+    idempotencyKey: buildOrderIdempotencyKey(conversation_id, cart),
+  });
+
+  if (!result.ok) {
+    throw new Error(`Failed to create order: ${result.error}`);
+  }
+
+  return result.orderId;
+}
+
+export function buildOrderLineItems(cart: Cart): OrderLineItem[] {
+  return cart.items.map((item) => ({
+    product_id: item.product_id,
+    variant_id: item.variant_id ?? null,
+    sku: item.sku ?? null,
+    name: describeCartItem(item),
+    quantity: item.quantity,
+    price: item.unit_price,
+    subtotal: item.subtotal,
+    note: item.note ?? null,
+  }));
+}
+
+/**
+ * Same conversation + same cart = same order. Only the fields that define
+ * the purchase are hashed, so display-only changes don't fork the key.
+ */
+export function buildOrderIdempotencyKey(conversation_id: string, cart: Cart): string {
+  const fingerprint = createHash('sha256')
+    .update(
+      JSON.stringify({
+        items: cart.items.map((item) => [
+          item.product_id,
+          item.variant_id ?? null,
+          item.quantity,
+          item.unit_price,
+          item.note ?? null,
+        ]),
+        total: cart.total,
+        currency: cart.currency,
+      })
+    )
+    .digest('hex')
+    .slice(0, 32);
+
+  return `agent_v2:${conversation_id}:${fingerprint}`;
+}
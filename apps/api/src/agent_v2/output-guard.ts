@@ -0,0 +1,147 @@
+/**
+ * Agent V2 - Output Guard
+ *
+ * Checks the text the LLM wrote for the customer before it is sent. Actions
+ * are validated, but response_text is free text: the model can still write
+ * "te lo dejo en Bs 20" or an account number it made up.
+ *
+ * - Amounts with a currency must be a catalog price or a cart amount
+ * - Account-like digit runs next to bank wording must be the line's payment account
+ * - Discount phrases ("descuento", "2x1", "10% off") are never allowed
+ *
+ * Deterministic and side-effect free; the caller decides what to send instead.
+ */
+
+import type { Cart, GuardrailViolation, Product } from './types';
+
+// =============================================================================
+// Patterns
+// =============================================================================
+
+const CURRENCY = String.raw`(?:bs\.?|bob|bolivianos?|\$|usd|d[oó]lares)`;
+const NUMBER = String.raw`\d+(?:[.,]\d+)*`;
+
+/** "Bs 20", "Bs.20", "$20", "20 Bs", "20 bolivianos" */
+const AMOUNT_PATTERN = new RegExp(
+  String.raw`(?<![a-z])${CURRENCY}\s*(${NUMBER})|\b(${NUMBER})\s*${CURRENCY}(?![a-z])`,
+  'gi'
+);
+
+/** Six or more digits, possibly grouped with spaces or dashes */
+const ACCOUNT_PATTERN = /\b\d(?:[\s-]?\d){5,}\b/g;
+
+/**
+ * A digit run is only taken for an account next to this wording; otherwise it
+ * is a phone, an address or an order number the customer gave.
+ */
+const ACCOUNT_CONTEXT_PATTERN = /\b(?:cuenta|cta|banco|transfer\w*|deposit\w*|cbu|iban|titular)\b/;
+const ACCOUNT_CONTEXT_WINDOW = 40;
+
+/** Matched on lowercase text without accents */
+const DISCOUNT_PATTERNS = [
+  /\bdescuentos?\b/,
+  /\brebaj\w*/,
+  /\bte (?:lo|la|los|las) dejo (?:en|a)\b/,
+  /\bprecio especial\b/,
+  /\bgratis\b/,
+  /\bpromo(?:cion|ciones|s)?\b/,
+  /\bofertas?\b/,
+  /\b(?:2x1|3x2)\b/,
+  // "70% cacao" or "100% original" are product facts, not discounts
+  /\d+\s*%\s*(?:de\s+)?(?:descuento|dcto|off|rebaja|menos)\b/,
+  /\b(?:descuento|dcto|rebaja)\s+(?:del?\s+)?\d+\s*%/,
+];
+
+/** "no tenemos descuentos" is what we want the model to say */
+const NEGATION_PATTERN = /\b(?:no|sin|ningun|ninguna|ninguno)\b[^.!?\n]*$/;
+const NEGATION_WINDOW = 30;
+
+/** Amounts are compared with this tolerance (decimals written as "29.9" vs 29.90) */
+const AMOUNT_TOLERANCE = 0.005;
+
+// =============================================================================
+// Main Function
+// =============================================================================
+
+export interface OutputGuardContext {
+  /** Carts the text may talk about: before and after this turn's actions */
+  carts: Cart[];
+  products: Product[];
+  /** The only account number the text may give (templates.payment_account_number) */
+  payment_account_number: string;
+}
+
+/**
+ * Returns every price, account number and discount phrase in the text that
+ * the catalog, the carts and the payment account don't back. Empty = safe.
+ */
+export function checkResponseText(text: string, context: OutputGuardContext): GuardrailViolation[] {
+  const violations: GuardrailViolation[] = [];
+  const allowedAmounts = collectAllowedAmounts(context);
+
+  // Amounts first, so their digits aren't taken for account numbers
+  const withoutAmounts = text.replace(AMOUNT_PATTERN, (match, before: string | undefined, after: string | undefined) => {
+    const amount = parseAmount(before ?? after ?? '');
+    if (amount === null || !allowedAmounts.some((allowed) => Math.abs(allowed - amount) < AMOUNT_TOLERANCE)) {
+      violations.push({ kind: 'price', match: match.trim() });
+    }
+    return ' ';
+  });
+
+  const accountDigits = context.payment_account_number.replace(/\D/g, '');
+  const withoutAmountsNormalized = normalize(withoutAmounts);
+  for (const match of withoutAmounts.matchAll(ACCOUNT_PATTERN)) {
+    const index = match.index ?? 0;
+    const around = withoutAmountsNormalized.slice(
+      Math.max(0, index - ACCOUNT_CONTEXT_WINDOW),
+      index + match[0].length + ACCOUNT_CONTEXT_WINDOW
+    );
+    if (ACCOUNT_CONTEXT_PATTERN.test(around) && match[0].replace(/\D/g, '') !== accountDigits) {
+      violations.push({ kind: 'account', match: match[0] });
+    }
+  }
+
+  const normalized = normalize(text);
+  for (const pattern of DISCOUNT_PATTERNS) {
+    const match = pattern.exec(normalized);
+    if (match && !isNegated(normalized, match.index)) {
+      violations.push({ kind: 'discount', match: match[0] });
+    }
+  }
+
+  return violations;
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function collectAllowedAmounts({ carts, products }: OutputGuardContext): number[] {
+  const prices = products.flatMap((product) => [product.price, ...(product.variants ?? []).map((v) => v.price)]);
+  const cartAmounts = carts.flatMap((cart) => [
+    cart.total,
+    ...cart.items.flatMap((item) => [item.unit_price, item.subtotal]),
+  ]);
+
+  return [...prices, ...cartAmounts];
+}
+
+/**
+ * "1.200" and "1,200" are thousands, "29.90" and "29,90" are decimals.
+ */
+function parseAmount(raw: string): number | null {
+  const thousands = /^\d{1,3}(?:[.,]\d{3})+$/.test(raw);
+  const value = thousands ? Number(raw.replace(/[.,]/g, '')) : Number(raw.replace(',', '.'));
+  return Number.isFinite(value) ? value : null;
+}
+
+function isNegated(text: string, index: number): boolean {
+  return NEGATION_PATTERN.test(text.slice(Math.max(0, index - NEGATION_WINDOW), index));
+}
+
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '');
+}
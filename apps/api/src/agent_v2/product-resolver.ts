@@ -0,0 +1,331 @@
+/**
+ * Agent V2 - Product Resolver
+ *
+ * Maps the product the LLM refers to onto a catalog id before validation.
+ * LLMs often send product_name ("el de menta") with an invented or missing
+ * product_id; the resolver matches that name against product names, variant
+ * names and aliases (vendi_products.metadata.aliases), ignoring accents and
+ * tolerating typos, and scores each candidate 0-1.
+ *
+ * - One clear match: product_id (and variant_id) are replaced, the original
+ *   values are kept in params.resolved_from for the audit trail
+ * - Several close matches: the action becomes a CLARIFY listing them
+ * - No match: the action is left as is and the validator rejects it
+ *
+ * Actions on cart items (REMOVE_ITEM, UPDATE_QUANTITY) are matched against
+ * what is in the cart first, so "quita el de menta" picks the menta in the
+ * cart over other menta products; the whole catalog is only searched when
+ * nothing in the cart matches.
+ *
+ * Deterministic and side-effect free.
+ */
+
+import type { ActionParams, Cart, Product, ProductCandidate, ProposedAction } from './types';
+import { ACTION_VALIDATION_RULES } from './constants';
+
+// =============================================================================
+// Thresholds
+// =============================================================================
+
+/** Minimum score for a match to be used without asking */
+const RESOLVE_MIN_CONFIDENCE = 0.8;
+
+/** The best match must beat the runner-up by this much, otherwise it is ambiguous */
+const AMBIGUITY_MARGIN = 0.15;
+
+/** Candidates below this score are not offered to the customer */
+const CANDIDATE_MIN_SCORE = 0.5;
+
+/** Two words below this similarity count as different words, not a typo */
+const TOKEN_MIN_SIMILARITY = 0.75;
+
+const MAX_CANDIDATES = 5;
+
+/** Words that don't identify a product ("el de menta", "una caja de ...") */
+const STOPWORDS = new Set([
+  'el', 'la', 'los', 'las', 'un', 'una', 'unos', 'unas',
+  'de', 'del', 'con', 'y', 'sabor', 'sabores',
+]);
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type ProductResolution =
+  | { status: 'resolved'; candidate: ProductCandidate }
+  | { status: 'ambiguous'; candidates: ProductCandidate[] }
+  | { status: 'not_found' };
+
+// =============================================================================
+// Resolver
+// =============================================================================
+
+/**
+ * Finds the catalog product (or variant) a free-text name refers to.
+ */
+export function resolveProduct(name: string, catalog: Product[]): ProductResolution {
+  const query = tokenize(name);
+  if (query.length === 0) {
+    return { status: 'not_found' };
+  }
+
+  const candidates = catalog
+    .flatMap((product) => buildTargets(product))
+    .map(({ candidate, texts }) => ({
+      ...candidate,
+      score: round(Math.max(...texts.map((text) => similarity(query, tokenize(text))))),
+    }))
+    .filter((c) => c.score >= CANDIDATE_MIN_SCORE)
+    .sort((a, b) => b.score - a.score);
+
+  if (candidates.length === 0) {
+    return { status: 'not_found' };
+  }
+
+  const [best, second] = candidates;
+  if (best.score >= RESOLVE_MIN_CONFIDENCE && (!second || best.score - second.score >= AMBIGUITY_MARGIN)) {
+    return { status: 'resolved', candidate: best };
+  }
+
+  return { status: 'ambiguous', candidates: candidates.slice(0, MAX_CANDIDATES) };
+}
+
+/**
+ * Resolves the product of every action that names one. Actions whose
+ * product_id (and variant, if the product has variants) is already valid
+ * are returned untouched; for actions on cart items, valid means in the cart.
+ */
+export function resolveActionProducts(
+  actions: ProposedAction[],
+  catalog: Product[],
+  cart?: Cart | null
+): ProposedAction[] {
+  const inCart = cart && cart.items.length > 0 ? cartProducts(cart, catalog) : [];
+  return actions.map((action) => resolveAction(action, catalog, inCart));
+}
+
+function resolveAction(action: ProposedAction, catalog: Product[], inCart: Product[]): ProposedAction {
+  const rule = ACTION_VALIDATION_RULES[action.type];
+  if (!rule?.requiresProductId) {
+    return action;
+  }
+
+  if (rule.requiresItemInCart && inCart.length > 0) {
+    // The customer can only mean something in the cart, so a single partial
+    // match ("el de maracuya" for "Bombones (Maracuya x6)") is enough
+    const fromCart = resolveAgainst(action, inCart, true);
+    if (fromCart) {
+      return fromCart;
+    }
+  }
+
+  return resolveAgainst(action, catalog) ?? action;
+}
+
+/**
+ * Resolves the action against the given products; null when its name (or
+ * id) matches none of them. With singleMatchResolves, one candidate below
+ * RESOLVE_MIN_CONFIDENCE is used instead of asking.
+ */
+function resolveAgainst(
+  action: ProposedAction,
+  products: Product[],
+  singleMatchResolves = false
+): ProposedAction | null {
+  const params: ActionParams = action.params ?? {};
+  const product = products.find((p) => p.id === params.product_id);
+  const variants = product?.variants ?? [];
+  const variantOk = variants.length === 0 || variants.some((v) => v.id === params.variant_id);
+
+  if (product && variantOk) {
+    return action;
+  }
+
+  // Known product, missing or unknown variant: only its variants are candidates,
+  // and only the name can tell which one
+  const query = product ? params.product_name : params.product_name || params.product_id;
+  if (!query) {
+    return null;
+  }
+
+  let resolution = resolveProduct(query, product ? [product] : products);
+  if (resolution.status === 'not_found') {
+    return null;
+  }
+  if (singleMatchResolves && resolution.status === 'ambiguous' && resolution.candidates.length === 1) {
+    resolution = { status: 'resolved', candidate: resolution.candidates[0] };
+  }
+
+  const resolvedFrom = (confidence: number): ActionParams['resolved_from'] => ({
+    product_id: params.product_id ?? null,
+    product_name: params.product_name ?? null,
+    confidence,
+  });
+
+  if (resolution.status === 'ambiguous') {
+    return {
+      type: 'CLARIFY',
+      params: {
+        product_name: query,
+        candidates: resolution.candidates,
+        resolved_from: resolvedFrom(resolution.candidates[0].score),
+      },
+    };
+  }
+
+  const { candidate } = resolution;
+  return {
+    ...action,
+    params: {
+      ...params,
+      product_id: candidate.product_id,
+      variant_id: candidate.variant_id,
+      resolved_from: resolvedFrom(candidate.score),
+    },
+  };
+}
+
+/**
+ * The cart's items as products: the catalog entry (with its aliases) narrowed
+ * to the variants in the cart, or the cart line itself if the product is no
+ * longer in the catalog.
+ */
+function cartProducts(cart: Cart, catalog: Product[]): Product[] {
+  const products = new Map<string, Product>();
+
+  for (const item of cart.items) {
+    const catalogProduct = catalog.find((p) => p.id === item.product_id);
+    const product = products.get(item.product_id) ?? {
+      ...(catalogProduct ?? {
+        id: item.product_id,
+        name: item.name,
+        price: item.unit_price,
+        active: true,
+        stock: null,
+        max_quantity: null,
+      }),
+      variants: [],
+    };
+
+    if (item.variant_id) {
+      const variant = catalogProduct?.variants?.find((v) => v.id === item.variant_id) ?? {
+        id: item.variant_id,
+        name: item.variant_name ?? item.name,
+        sku: item.sku ?? null,
+        price: item.unit_price,
+        active: true,
+        stock: null,
+      };
+      product.variants = [...(product.variants ?? []), variant];
+    }
+
+    products.set(item.product_id, product);
+  }
+
+  return [...products.values()];
+}
+
+// =============================================================================
+// Scoring
+// =============================================================================
+
+interface Target {
+  candidate: Omit<ProductCandidate, 'score'>;
+  /** Names this product or variant is known by */
+  texts: string[];
+}
+
+/**
+ * One target per sellable item: the product itself, or each of its variants.
+ */
+function buildTargets(product: Product): Target[] {
+  const productNames = [product.name, ...(product.aliases ?? [])];
+  const variants = product.variants ?? [];
+
+  if (variants.length === 0) {
+    return [
+      {
+        candidate: { product_id: product.id, variant_id: null, name: product.name, price: product.price },
+        texts: productNames,
+      },
+    ];
+  }
+
+  return variants.map((variant) => ({
+    candidate: {
+      product_id: product.id,
+      variant_id: variant.id,
+      name: `${product.name} (${variant.name})`,
+      price: variant.price,
+    },
+    texts: [variant.name, ...productNames, ...productNames.map((name) => `${name} ${variant.name}`)],
+  }));
+}
+
+/**
+ * How well the query names the target: mostly how much of the target's name
+ * was mentioned, a little how much of the query the target explains.
+ */
+function similarity(query: string[], target: string[]): number {
+  if (target.length === 0) {
+    return 0;
+  }
+
+  const targetCoverage = average(target.map((t) => bestTokenSimilarity(t, query)));
+  const queryCoverage = average(query.map((q) => bestTokenSimilarity(q, target)));
+
+  return 0.7 * targetCoverage + 0.3 * queryCoverage;
+}
+
+function bestTokenSimilarity(token: string, others: string[]): number {
+  const best = Math.max(0, ...others.map((other) => tokenSimilarity(token, other)));
+  return best >= TOKEN_MIN_SIMILARITY ? best : 0;
+}
+
+/**
+ * 1 for equal words, lower the more edits apart (typos).
+ */
+function tokenSimilarity(a: string, b: string): number {
+  if (a === b) {
+    return 1;
+  }
+  return 1 - levenshtein(a, b) / Math.max(a.length, b.length);
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * Lowercase words without accents, punctuation or stopwords.
+ */
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter((token) => token && !STOPWORDS.has(token));
+}
+
+function average(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+function round(score: number): number {
+  return Math.round(score * 100) / 100;
+}
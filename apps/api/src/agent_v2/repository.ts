@@ -0,0 +1,90 @@
+/**
+ * Agent V2 - Repositories
+ *
+ * Everything processMessage reads or writes goes through these interfaces, so
+ * the pipeline runs the same against Supabase (production) or memory
+ * (integration tests, offline demos, the conversation simulator).
+ */
+
+import type { ConversationState, EventKeywords, HistoryMessage, Product } from './types';
+import type { ActionHistoryRecord, LlmDecisionRecord, StateLoaderParams } from './state-loader';
+import {
+  loadConversationState,
+  saveConversationState,
+  loadProductCatalog,
+  loadEventKeywords,
+  loadRecentHistory,
+  insertActionHistoryBatch,
+  insertLlmDecision,
+} from './state-loader';
+import { createOrderFromCart, type CreateOrderFromCartParams } from './order-creator';
+
+// =============================================================================
+// Interfaces
+// =============================================================================
+
+export interface ConversationRepository {
+  /** Current state; a conversation seen for the first time starts at IDLE (stored unless params.dry_run) */
+  loadState(params: StateLoaderParams): Promise<ConversationState>;
+  /**
+   * Writes the given fields. With expectedVersion it is a compare-and-swap and
+   * throws StateConflictError if the state changed since it was loaded.
+   */
+  saveState(params: StateLoaderParams, state: Partial<ConversationState>, expectedVersion?: number): Promise<void>;
+  /** Latest messages, oldest first */
+  loadRecentHistory(conversation_id: string, limit?: number): Promise<HistoryMessage[]>;
+  insertActionHistory(records: ActionHistoryRecord[]): Promise<void>;
+  /** Returns the id that action_history rows reference */
+  insertLlmDecision(record: LlmDecisionRecord): Promise<string>;
+  /** Open order for a confirmed cart, created if needed (idempotent per cart) */
+  createOrder(params: CreateOrderFromCartParams): Promise<string>;
+}
+
+export interface CatalogRepository {
+  /** Active products; with a catalog, only its products plus the shared ones */
+  loadProducts(tenant_id: string, catalog: string | null): Promise<Product[]>;
+}
+
+export interface ConfigRepository {
+  /** Keyword lists that replace the defaults per event; null = defaults only */
+  loadEventKeywords(): Promise<Partial<EventKeywords> | null>;
+}
+
+export interface AgentV2Repositories {
+  conversations: ConversationRepository;
+  catalog: CatalogRepository;
+  config: ConfigRepository;
+}
+
+// =============================================================================
+// Supabase
+// =============================================================================
+
+/**
+ * Production repositories backed by the state-loader queries.
+ */
+export function createSupabaseRepositories(): AgentV2Repositories {
+  return {
+    conversations: {
+      loadState: (params) => loadConversationState(params),
+      saveState: (params, state, expectedVersion) => saveConversationState(params, state, expectedVersion),
+      loadRecentHistory: (conversation_id, limit) => loadRecentHistory(conversation_id, limit),
+      insertActionHistory: (records) => insertActionHistoryBatch(records),
+      insertLlmDecision: (record) => insertLlmDecision(record),
+      createOrder: (params) => createOrderFromCart(params),
+    },
+    catalog: {
+      loadProducts: (tenant_id, catalog) => loadProductCatalog(tenant_id, catalog),
+    },
+    config: {
+      loadEventKeywords: () => loadEventKeywords(),
+    },
+  };
+}
+
+let supabaseRepositories: AgentV2Repositories | undefined;
+
+export function getSupabaseRepositories(): AgentV2Repositories {
+  supabaseRepositories ??= createSupabaseRepositories();
+  return supabaseRepositories;
+}
@@ -1,15 +1,28 @@
 /**
  * Agent V2 - Response Builder
  *
- * Builds the final ProcessMessageResult from pipeline output.
- * Pure function - no business logic, no side effects.
+ * Builds the final ProcessMessageResult from pipeline output, and the texts
+ * rendered from state (catalog, cart summary, payment details) with the
+ * line's message templates.
+ * Pure functions - no business logic, no side effects.
  */
 
 import type {
   ProcessMessageResult,
   FsmState,
   ProposedAction,
+  Product,
+  ProductCandidate,
+  GuardrailViolation,
+  Cart,
 } from './types';
+import { describeCartItem } from './cart-lines';
+import {
+  DEFAULT_MESSAGE_TEMPLATES,
+  fillTemplate,
+  type MessageTemplates,
+  type TemplatePlacement,
+} from './message-templates';
 
 // =============================================================================
 // Input Type
@@ -75,3 +88,182 @@ export function buildResponse(input: BuildResponseInput): ProcessMessageResult {
     validation_errors: validation_errors.length > 0 ? validation_errors : undefined,
   };
 }
+
+// =============================================================================
+// State Blocks
+// =============================================================================
+
+export interface StateBlock {
+  text: string;
+  placement: TemplatePlacement;
+}
+
+export interface BuildStateBlockInput {
+  executed_actions: ProposedAction[];
+  /** Cart after this turn's actions */
+  cart: Cart;
+  products: Product[];
+  templates: MessageTemplates;
+}
+
+/**
+ * The authoritative text for the order or catalog action that ran this turn
+ * (CONFIRM_ORDER over REVIEW_ORDER over SHOW_CATALOG), rendered from state so
+ * the customer never gets totals that disagree with cart_json. Null when
+ * none of them ran.
+ */
+export function buildStateBlock(input: BuildStateBlockInput): StateBlock | null {
+  const { executed_actions, cart, products, templates } = input;
+  const ran = (type: ProposedAction['type']) => executed_actions.some((a) => a.type === type);
+
+  if (ran('CONFIRM_ORDER')) {
+    return { text: templates.order_confirmed, placement: templates.confirm_placement };
+  }
+
+  if (ran('REVIEW_ORDER')) {
+    return {
+      text: `${templates.cart_header}\n${formatCartSummary(cart, templates)}\n\n${templates.review_footer}`,
+      placement: templates.review_placement,
+    };
+  }
+
+  if (ran('SHOW_CATALOG')) {
+    return {
+      text: `${templates.catalog_header}\n${formatCatalog(products, cart.currency, templates)}`,
+      placement: templates.catalog_placement,
+    };
+  }
+
+  return null;
+}
+
+// =============================================================================
+// Payment Instructions
+// =============================================================================
+
+/**
+ * Message sent after an order is confirmed: order reference, items and
+ * total taken from the cart (never from the LLM), and the transfer details.
+ */
+export function buildPaymentInstructions(
+  order_id: string,
+  cart: Cart,
+  templates: MessageTemplates = DEFAULT_MESSAGE_TEMPLATES
+): string {
+  return fillTemplate(templates.payment_instructions, {
+    order_ref: order_id.slice(0, 8).toUpperCase(),
+    cart: formatCartSummary(cart, templates),
+    transfer_details: formatTransferDetails(templates),
+    ...transferValues(templates),
+  });
+}
+
+// =============================================================================
+// Output Guardrail
+// =============================================================================
+
+/**
+ * Sent instead of an LLM reply that stated a price, account or discount the
+ * system doesn't back (see output-guard). Every figure comes from the cart
+ * and the line's payment account (templates).
+ */
+export function buildGuardrailText(
+  violations: GuardrailViolation[],
+  cart: Cart,
+  state: FsmState,
+  templates: MessageTemplates = DEFAULT_MESSAGE_TEMPLATES
+): string {
+  const parts: string[] = [];
+
+  if (cart.items.length > 0) {
+    parts.push(`${templates.cart_header}\n${formatCartSummary(cart, templates)}`);
+  }
+
+  if (violations.some((v) => v.kind !== 'account')) {
+    parts.push(templates.guardrail_notice);
+  }
+
+  if (violations.some((v) => v.kind === 'account')) {
+    parts.push(state === 'AWAITING_PAYMENT' ? formatTransferDetails(templates) : templates.guardrail_payment_later);
+  }
+
+  parts.push(templates.guardrail_closing);
+  return parts.join('\n\n');
+}
+
+// =============================================================================
+// Product Clarification
+// =============================================================================
+
+/**
+ * Question sent when the product the customer named matches several catalog
+ * items (see product-resolver): the options come from the catalog, so names
+ * and prices are never the LLM's.
+ */
+export function buildClarificationText(
+  product_name: string,
+  candidates: ProductCandidate[],
+  currency: string
+): string {
+  const options = candidates.map(
+    (candidate, index) => `${index + 1}. ${candidate.name}: ${formatAmount(candidate.price, currency)}`
+  );
+
+  return `Tengo varias opciones para "${product_name}", ¿cuál quieres?\n${options.join('\n')}`;
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function formatCartSummary(cart: Cart, templates: MessageTemplates): string {
+  const lines = cart.items.map((item) => {
+    const line = fillTemplate(templates.cart_line, {
+      quantity: item.quantity,
+      name: describeCartItem(item),
+      subtotal: formatAmount(item.subtotal, cart.currency),
+    });
+    return item.note ? `${line}\n${fillTemplate(templates.cart_line_note, { note: item.note })}` : line;
+  });
+
+  const total = fillTemplate(templates.cart_total, { total: formatAmount(cart.total, cart.currency) });
+  return [...lines, total].join('\n');
+}
+
+function formatCatalog(products: Product[], currency: string, templates: MessageTemplates): string {
+  return products
+    .filter((product) => product.active)
+    .map((product) => {
+      const variants = (product.variants ?? []).filter((v) => v.active);
+      if (variants.length === 0) {
+        return fillTemplate(templates.catalog_item, {
+          name: product.name,
+          price: formatAmount(product.price, currency),
+        });
+      }
+
+      return [
+        fillTemplate(templates.catalog_item_with_variants, { name: product.name }),
+        ...variants.map((variant) =>
+          fillTemplate(templates.catalog_variant, { name: variant.name, price: formatAmount(variant.price, currency) })
+        ),
+      ].join('\n');
+    })
+    .join('\n');
+}
+
+function formatTransferDetails(templates: MessageTemplates): string {
+  return fillTemplate(templates.transfer_details, transferValues(templates));
+}
+
+function transferValues(templates: MessageTemplates): Record<string, string> {
+  return {
+    bank: templates.payment_bank,
+    account_number: templates.payment_account_number,
+    holder: templates.payment_holder,
+  };
+}
+
+function formatAmount(amount: number, currency: string): string {
+  return currency === 'BOB' ? `Bs ${amount}` : `${amount} ${currency}`;
+}
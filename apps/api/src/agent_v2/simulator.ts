@@ -0,0 +1,445 @@
+/**
+ * Agent V2 - Conversation Simulator
+ *
+ * Replays a scripted conversation (YAML or JSON) through processMessage,
+ * turn by turn, against in-memory repositories. Each turn can script the
+ * LLM answers and state what the backend must end up with: FSM state, cart,
+ * reply snippets, executed/rejected actions. Mismatches are collected and
+ * rendered as an expected/actual diff.
+ *
+ * No database, no WhatsApp sends. Turns without scripted answers use the
+ * canned mock answer, or the configured LLM_PROVIDER when `live` is set.
+ */
+
+import { readFileSync } from 'node:fs';
+import { extname } from 'node:path';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+import type {
+  Cart,
+  ConversationState,
+  DeliveryDetails,
+  DeliveryMethod,
+  FsmState,
+  KeywordEvent,
+  ProcessMessageResult,
+} from './types';
+import type { LlmProvider } from '../services/llm-providers/provider.js';
+import { getLlmProvider } from '../services/llm-providers/provider.js';
+import { createInMemoryRepositories, type InMemoryProduct } from './memory-repository';
+import { DEFAULT_DELIVERY, DELIVERY_METHODS, FSM_STATES, KEYWORD_EVENTS } from './constants';
+import { MessageTemplateOverridesSchema } from './message-templates';
+import { processMessage } from './index';
+
+// =============================================================================
+// Scenario Schema
+// =============================================================================
+
+const FsmStateSchema = z.enum(FSM_STATES as [FsmState, ...FsmState[]]);
+const KeywordEventSchema = z.enum(KEYWORD_EVENTS as [KeywordEvent, ...KeywordEvent[]]);
+
+/** A scripted LLM answer: an object is served as JSON, a string as raw model output */
+const LlmAnswerSchema = z.union([z.string(), z.record(z.unknown())]);
+
+const CartLineSchema = z
+  .object({
+    product_id: z.string().optional(),
+    /** Product name, as an alternative to product_id */
+    name: z.string().optional(),
+    variant_id: z.string().optional(),
+    quantity: z.number().int().positive(),
+    /** Compared only when given */
+    note: z.string().nullable().optional(),
+  })
+  .refine((line) => line.product_id || line.name, 'cart lines need product_id or name');
+
+/** Delivery details; in expectations only the fields given are compared */
+const DeliverySchema = z.object({
+  method: z.enum(DELIVERY_METHODS as [DeliveryMethod, ...DeliveryMethod[]]).nullable().optional(),
+  address: z.string().nullable().optional(),
+  slot: z.string().nullable().optional(),
+});
+
+const TurnSchema = z.object({
+  customer: z.string().min(1),
+  /** Answers for round 1 and, when actions get rejected, round 2 */
+  llm: z.union([LlmAnswerSchema, z.array(LlmAnswerSchema)]).optional(),
+  expect: z
+    .object({
+      state: FsmStateSchema.optional(),
+      /** Exact cart contents, in order */
+      cart: z.array(CartLineSchema).optional(),
+      total: z.number().optional(),
+      delivery: DeliverySchema.optional(),
+      response_contains: z.union([z.string(), z.array(z.string())]).optional(),
+      /** Snippets of the payment instructions sent after CONFIRM_ORDER */
+      payment_contains: z.union([z.string(), z.array(z.string())]).optional(),
+      /** No reply at all (human override) */
+      silent: z.boolean().optional(),
+      /** Executed action types, in order */
+      executed: z.array(z.string()).optional(),
+      /** Action types rejected by the validator in any round */
+      rejected: z.array(z.string()).optional(),
+      human_override: z.boolean().optional(),
+      order_created: z.boolean().optional(),
+      /** Output guardrail hit kinds, in order ([] = the LLM's text was sent) */
+      guardrail: z.array(z.enum(['price', 'account', 'discount'])).optional(),
+      /** Detected events, in order; "EVENT:phrase" also checks the phrase that matched */
+      events: z.array(z.string()).optional(),
+    })
+    .default({}),
+});
+
+const ScenarioSchema = z.object({
+  name: z.string(),
+  description: z.string().optional(),
+  products: z.array(
+    z.object({
+      id: z.string(),
+      name: z.string(),
+      price: z.number().nonnegative(),
+      active: z.boolean().default(true),
+      stock: z.number().int().nonnegative().nullable().default(null),
+      max_quantity: z.number().int().positive().nullable().default(null),
+      catalog: z.string().nullable().optional(),
+      aliases: z.array(z.string()).optional(),
+      variants: z
+        .array(
+          z.object({
+            id: z.string(),
+            name: z.string(),
+            sku: z.string().nullable().default(null),
+            price: z.number().nonnegative(),
+            active: z.boolean().default(true),
+            stock: z.number().int().nonnegative().nullable().default(null),
+          })
+        )
+        .optional(),
+    })
+  ),
+  initial_state: z
+    .object({
+      fsm_state: FsmStateSchema.default('IDLE'),
+      human_override: z.boolean().default(false),
+      cart: z.array(CartLineSchema).default([]),
+      delivery: DeliverySchema.optional(),
+    })
+    .optional(),
+  /** The line's agent_profile.templates */
+  templates: MessageTemplateOverridesSchema.optional(),
+  /** app_config.agent_v2_event_keywords */
+  event_keywords: z.record(KeywordEventSchema, z.array(z.string())).optional(),
+  turns: z.array(TurnSchema).min(1),
+});
+
+export type Scenario = z.infer<typeof ScenarioSchema>;
+export type ScenarioTurn = z.infer<typeof TurnSchema>;
+
+/**
+ * Reads and validates a scenario file (.yaml, .yml or .json).
+ * Throws with the file name and the schema errors when it is invalid.
+ */
+export function loadScenario(path: string): Scenario {
+  const text = readFileSync(path, 'utf8');
+  const raw: unknown = extname(path) === '.json' ? JSON.parse(text) : parseYaml(text);
+  const parsed = ScenarioSchema.safeParse(raw);
+
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((i) => `  ${i.path.join('.') || '(root)'}: ${i.message}`).join('\n');
+    throw new Error(`Invalid scenario ${path}:\n${issues}`);
+  }
+
+  return parsed.data;
+}
+
+// =============================================================================
+// Runner
+// =============================================================================
+
+export interface Mismatch {
+  field: string;
+  expected: string;
+  actual: string;
+}
+
+export interface TurnReport {
+  index: number;
+  customer: string;
+  previous_state: FsmState;
+  new_state: FsmState;
+  response_text: string | null;
+  mismatches: Mismatch[];
+}
+
+export interface ScenarioReport {
+  name: string;
+  turns: TurnReport[];
+  passed: boolean;
+}
+
+export interface RunScenarioOptions {
+  /** Unscripted turns call the configured LLM_PROVIDER instead of the mock answer */
+  live?: boolean;
+}
+
+const CONVERSATION_ID = 'simulated-conversation';
+const TENANT_ID = 'simulated-tenant';
+const WA_PHONE = '59100000000';
+
+export async function runScenario(scenario: Scenario, options: RunScenarioOptions = {}): Promise<ScenarioReport> {
+  const products: InMemoryProduct[] = scenario.products;
+  const repositories = createInMemoryRepositories({
+    products,
+    states: scenario.initial_state
+      ? {
+          [CONVERSATION_ID]: {
+            fsm_state: scenario.initial_state.fsm_state,
+            human_override: scenario.initial_state.human_override,
+            cart_json: buildCart(scenario.initial_state.cart, products),
+            delivery_json: { ...DEFAULT_DELIVERY, ...scenario.initial_state.delivery },
+          },
+        }
+      : {},
+    event_keywords: scenario.event_keywords,
+  });
+  const { store } = repositories;
+  const turns: TurnReport[] = [];
+
+  for (const [index, turn] of scenario.turns.entries()) {
+    const answers = turn.llm === undefined ? null : Array.isArray(turn.llm) ? turn.llm : [turn.llm];
+    const provider = answers ? createScriptedProvider(answers) : options.live ? getLlmProvider() : null;
+    const historyBefore = store.action_history.length;
+
+    repositories.appendMessage(CONVERSATION_ID, { role: 'customer', text: turn.customer });
+
+    const result = await processMessage(
+      {
+        conversation_id: CONVERSATION_ID,
+        customer_message: turn.customer,
+        wa_phone: WA_PHONE,
+        tenant_id: TENANT_ID,
+        templates: scenario.templates,
+      },
+      { llm_provider: provider, repositories }
+    );
+
+    if (result.response_text) {
+      repositories.appendMessage(CONVERSATION_ID, { role: 'assistant', text: result.response_text });
+    }
+
+    const state = store.states.get(CONVERSATION_ID) as ConversationState;
+    const rejected = store.action_history
+      .slice(historyBefore)
+      .filter((record) => !record.validated)
+      .map((record) => record.action_type);
+
+    turns.push({
+      index: index + 1,
+      customer: turn.customer,
+      previous_state: result.previous_state ?? state.fsm_state,
+      new_state: state.fsm_state,
+      response_text: result.response_text,
+      mismatches: compareTurn(turn.expect, result, state, rejected, products),
+    });
+  }
+
+  return {
+    name: scenario.name,
+    turns,
+    passed: turns.every((t) => t.mismatches.length === 0),
+  };
+}
+
+/**
+ * Serves the turn's answers in order; a round without an answer left fails
+ * like a model error (the orchestrator then uses its fallback reply).
+ */
+function createScriptedProvider(answers: Array<string | Record<string, unknown>>): LlmProvider {
+  const queue = [...answers];
+
+  return {
+    name: 'fixture',
+    model: 'scenario',
+
+    async generate() {
+      const answer = queue.shift();
+      if (answer === undefined) {
+        return { ok: false, error: 'No scripted LLM answer left for this turn', retryable: false };
+      }
+      return {
+        ok: true,
+        text: typeof answer === 'string' ? answer : JSON.stringify(answer),
+        usage: { inputTokens: null, outputTokens: null },
+      };
+    },
+  };
+}
+
+type CartLine = z.infer<typeof CartLineSchema>;
+
+function findProduct(line: CartLine, products: InMemoryProduct[]): InMemoryProduct | undefined {
+  return products.find((p) => (line.product_id ? p.id === line.product_id : p.name === line.name));
+}
+
+function buildCart(lines: CartLine[], products: InMemoryProduct[]): Cart {
+  const items = lines.map((line) => {
+    const product = findProduct(line, products);
+    const variant = line.variant_id ? product?.variants?.find((v) => v.id === line.variant_id) : undefined;
+    if (!product || (line.variant_id && !variant)) {
+      throw new Error(`initial_state.cart: unknown product ${line.product_id ?? line.name} ${line.variant_id ?? ''}`);
+    }
+    const unitPrice = variant?.price ?? product.price;
+    return {
+      product_id: product.id,
+      variant_id: variant?.id ?? null,
+      name: product.name,
+      variant_name: variant?.name ?? null,
+      sku: variant?.sku ?? null,
+      quantity: line.quantity,
+      unit_price: unitPrice,
+      subtotal: line.quantity * unitPrice,
+      note: line.note ?? null,
+    };
+  });
+
+  return { items, total: items.reduce((sum, i) => sum + i.subtotal, 0), currency: 'BOB' };
+}
+
+// =============================================================================
+// Comparison
+// =============================================================================
+
+function compareTurn(
+  expect: ScenarioTurn['expect'],
+  result: ProcessMessageResult,
+  state: ConversationState,
+  rejected: string[],
+  products: InMemoryProduct[]
+): Mismatch[] {
+  const mismatches: Mismatch[] = [];
+  const check = (field: string, expected: string, actual: string) => {
+    if (expected !== actual) {
+      mismatches.push({ field, expected, actual });
+    }
+  };
+
+  if (expect.state !== undefined) {
+    check('state', expect.state, state.fsm_state);
+  }
+
+  if (expect.cart !== undefined) {
+    const lines = expect.cart;
+    const expected = lines.map((line) =>
+      formatCartLine(line.quantity, findProduct(line, products)?.id ?? line.name ?? '?', line.variant_id, line.note)
+    );
+    // Notes only show up on the actual side where the expectation names one
+    const actual = state.cart_json.items.map((item, i) =>
+      formatCartLine(
+        item.quantity,
+        item.product_id,
+        item.variant_id,
+        lines[i]?.note !== undefined ? item.note ?? null : undefined
+      )
+    );
+    check('cart', expected.join('\n') || '(empty)', actual.join('\n') || '(empty)');
+  }
+
+  if (expect.total !== undefined) {
+    check('total', String(expect.total), String(state.cart_json.total));
+  }
+
+  if (expect.delivery !== undefined) {
+    const delivery = state.delivery_json ?? DEFAULT_DELIVERY;
+    for (const [field, expected] of Object.entries(expect.delivery)) {
+      check(`delivery.${field}`, String(expected), String(delivery[field as keyof DeliveryDetails]));
+    }
+  }
+
+  if (expect.silent !== undefined) {
+    check('silent', String(expect.silent), String(result.response_text === null));
+  }
+
+  const checkContains = (field: string, expected: string | string[], text: string) => {
+    for (const snippet of Array.isArray(expected) ? expected : [expected]) {
+      if (!text.toLowerCase().includes(snippet.toLowerCase())) {
+        mismatches.push({ field, expected: `contains "${snippet}"`, actual: JSON.stringify(text) });
+      }
+    }
+  };
+
+  if (expect.response_contains !== undefined) {
+    checkContains('response', expect.response_contains, result.response_text ?? '');
+  }
+
+  if (expect.payment_contains !== undefined) {
+    checkContains('payment', expect.payment_contains, result.pending_order?.payment_instructions ?? '');
+  }
+
+  if (expect.executed !== undefined) {
+    const actual = (result.executed_actions ?? []).map((a) => a.type);
+    check('executed', expect.executed.join(', ') || '(none)', actual.join(', ') || '(none)');
+  }
+
+  if (expect.rejected !== undefined) {
+    check('rejected', expect.rejected.join(', ') || '(none)', rejected.join(', ') || '(none)');
+  }
+
+  if (expect.human_override !== undefined) {
+    check('human_override', String(expect.human_override), String(state.human_override));
+  }
+
+  if (expect.guardrail !== undefined) {
+    const actual = (result.guardrail_violations ?? []).map((v) => v.kind);
+    check('guardrail', expect.guardrail.join(', ') || '(none)', actual.join(', ') || '(none)');
+  }
+
+  if (expect.events !== undefined) {
+    const withPhrase = expect.events.some((e) => e.includes(':'));
+    const actual = (result.detected_events ?? []).map((e) => (withPhrase ? `${e.event}:${e.matched}` : e.event));
+    check('events', expect.events.join(', ') || '(none)', actual.join(', ') || '(none)');
+  }
+
+  if (expect.order_created !== undefined) {
+    check('order_created', String(expect.order_created), String(result.pending_order !== undefined));
+  }
+
+  return mismatches;
+}
+
+function formatCartLine(
+  quantity: number,
+  productId: string,
+  variantId: string | null | undefined,
+  note: string | null | undefined
+): string {
+  return (
+    `${quantity} x ${productId}` +
+    (variantId ? ` / ${variantId}` : '') +
+    (note !== undefined ? ` [note: ${note ?? '-'}]` : '')
+  );
+}
+
+// =============================================================================
+// Report
+// =============================================================================
+
+/**
+ * Human-readable report: one line per turn, and for failing turns an
+ * expected (-) / actual (+) diff per field.
+ */
+export function formatScenarioReport(report: ScenarioReport, source?: string): string {
+  const lines = [`${report.passed ? 'PASS' : 'FAIL'}  ${report.name}${source ? `  (${source})` : ''}`];
+
+  for (const turn of report.turns) {
+    const mark = turn.mismatches.length === 0 ? '✓' : '✗';
+    lines.push(`  ${mark} turn ${turn.index}  ${JSON.stringify(turn.customer)}  ${turn.previous_state} → ${turn.new_state}`);
+
+    for (const mismatch of turn.mismatches) {
+      lines.push(`      ${mismatch.field}:`);
+      lines.push(...mismatch.expected.split('\n').map((l) => `        - ${l}`));
+      lines.push(...mismatch.actual.split('\n').map((l) => `        + ${l}`));
+    }
+  }
+
+  return lines.join('\n');
+}
@@ -6,7 +6,22 @@
  * Never uses local memory - all state comes from database.
  */
 
-import type { ConversationState, Cart, FsmState, Product, ProposedAction } from './types';
+import type {
+  ConversationState,
+  Cart,
+  DeliveryDetails,
+  FsmState,
+  Product,
+  ProductVariant,
+  ProposedAction,
+  LlmDecisionTrace,
+  HistoryMessage,
+  GuardrailViolation,
+  DetectedEvent,
+  EventKeywords,
+  KeywordEvent,
+} from './types';
+import { EVENT_KEYWORDS_CONFIG_KEY, KEYWORD_EVENTS } from './constants';
 import { supabaseAdmin } from '../lib/supabase.js';
 
 // =============================================================================
@@ -16,6 +31,9 @@ import { supabaseAdmin } from '../lib/supabase.js';
 export interface StateLoaderParams {
   conversation_id: string;
   tenant_id: string;
+  catalog?: string | null;
+  /** Read-only load: a missing state is returned as the default, not created */
+  dry_run?: boolean;
 }
 
 export interface LoadedState {
@@ -31,6 +49,22 @@ export interface ActionHistoryRecord {
   executed: boolean;
   fsm_state_before: string;
   fsm_state_after: string;
+  validation_error?: string | null;
+  llm_decision_id?: string | null;
+}
+
+export interface LlmDecisionRecord extends LlmDecisionTrace {
+  conversation_id: string;
+  turn_id: string;
+  round: number;
+  customer_message: string;
+  fsm_state_before: string;
+  reasoning: string | null;
+  response_text: string | null;
+  /** Output guardrail hits in response_text (final answer of the turn only) */
+  guardrail_violations?: GuardrailViolation[];
+  /** Events detected in customer_message, as given to the LLM */
+  detected_events?: DetectedEvent[];
 }
 
 // =============================================================================
@@ -43,23 +77,50 @@ const DEFAULT_CART: Cart = {
   currency: 'BOB',
 };
 
+const DEFAULT_DELIVERY: DeliveryDetails = {
+  method: null,
+  address: null,
+  slot: null,
+};
+
 const DEFAULT_CONVERSATION_STATE: ConversationState = {
   fsm_state: 'IDLE' as FsmState,
   human_override: false,
   human_override_at: null,
   cart_json: DEFAULT_CART,
+  delivery_json: DEFAULT_DELIVERY,
   pending_order_id: null,
   events_log: [],
   last_llm_response: null,
+  version: 0,
 };
 
+// =============================================================================
+// Errors
+// =============================================================================
+
+/**
+ * Thrown by saveConversationState when the row changed after it was loaded
+ * (another turn, the session scheduler or a merchant wrote first).
+ * The caller should reload the state and redo its work.
+ */
+export class StateConflictError extends Error {
+  constructor(
+    readonly conversation_id: string,
+    readonly expected_version: number
+  ) {
+    super(`Conversation state changed since it was loaded (conversation ${conversation_id}, version ${expected_version})`);
+    this.name = 'StateConflictError';
+  }
+}
+
 // =============================================================================
 // Main State Loader
 // =============================================================================
 
 /**
  * Loads conversation state from database.
- * Creates initial state if it doesn't exist.
+ * Creates initial state if it doesn't exist, unless params.dry_run is set.
  */
 export async function loadConversationState(
   params: StateLoaderParams
@@ -68,7 +129,7 @@ export async function loadConversationState(
 
   const { data, error } = await supabaseAdmin
     .from('conversation_state')
-    .select('fsm_state, human_override, human_override_at, cart_json, pending_order_id, last_llm_response')
+    .select('fsm_state, human_override, human_override_at, cart_json, delivery_json, pending_order_id, last_llm_response, version')
     .eq('conversation_id', conversation_id)
     .single();
 
@@ -78,7 +139,9 @@ export async function loadConversationState(
 
   // If no state exists, create initial state
   if (!data) {
-    await createInitialState(params);
+    if (!params.dry_run) {
+      await createInitialState(params);
+    }
     return { ...DEFAULT_CONVERSATION_STATE };
   }
 
@@ -87,9 +150,11 @@ export async function loadConversationState(
     human_override: data.human_override || false,
     human_override_at: data.human_override_at || null,
     cart_json: (data.cart_json as Cart) || DEFAULT_CART,
+    delivery_json: { ...DEFAULT_DELIVERY, ...(data.delivery_json as Partial<DeliveryDetails> | null) },
     pending_order_id: data.pending_order_id || null,
     events_log: [],
     last_llm_response: data.last_llm_response || null,
+    version: data.version ?? 0,
   };
 }
 
@@ -107,11 +172,14 @@ async function createInitialState(params: StateLoaderParams): Promise<void> {
       human_override: false,
       human_override_at: null,
       cart_json: DEFAULT_CART,
+      delivery_json: DEFAULT_DELIVERY,
       pending_order_id: null,
       last_llm_response: null,
       updated_at: new Date().toISOString(),
     }, {
       onConflict: 'conversation_id',
+      // A concurrent turn may have created it first: keep its state
+      ignoreDuplicates: true,
     });
 
   if (error) {
@@ -121,10 +189,13 @@ async function createInitialState(params: StateLoaderParams): Promise<void> {
 
 /**
  * Saves conversation state to database.
+ * With expectedVersion, the save is a compare-and-swap: it only applies if the
+ * row is still at that version, otherwise StateConflictError is thrown.
  */
 export async function saveConversationState(
   params: StateLoaderParams,
-  state: Partial<ConversationState>
+  state: Partial<ConversationState>,
+  expectedVersion?: number
 ): Promise<void> {
   const { conversation_id } = params;
 
@@ -144,6 +215,9 @@ export async function saveConversationState(
   if (state.cart_json !== undefined) {
     updateData.cart_json = state.cart_json;
   }
+  if (state.delivery_json !== undefined) {
+    updateData.delivery_json = state.delivery_json;
+  }
   if (state.pending_order_id !== undefined) {
     updateData.pending_order_id = state.pending_order_id;
   }
@@ -151,36 +225,157 @@ export async function saveConversationState(
     updateData.last_llm_response = state.last_llm_response;
   }
 
-  const { error } = await supabaseAdmin
+  // version itself is bumped by a trigger on every update
+  let query = supabaseAdmin
     .from('conversation_state')
     .update(updateData)
     .eq('conversation_id', conversation_id);
 
+  if (expectedVersion !== undefined) {
+    query = query.eq('version', expectedVersion);
+  }
+
+  const { data, error } = await query.select('conversation_id');
+
   if (error) {
     throw new Error(`Failed to save conversation state: ${error.message}`);
   }
+
+  if (expectedVersion !== undefined && (!data || data.length === 0)) {
+    throw new StateConflictError(conversation_id, expectedVersion);
+  }
+}
+
+/** vendi_products row as selected by loadProductCatalog (numeric columns may arrive as strings) */
+interface ProductRow {
+  id: string;
+  name: string;
+  price: number | string;
+  is_active: boolean;
+  stock_quantity: number | null;
+  max_quantity_per_order: number | null;
+  metadata: unknown;
+  vendi_product_variants: ProductVariantRow[] | null;
+}
+
+interface ProductVariantRow {
+  id: string;
+  name: string;
+  sku: string | null;
+  price: number | string;
+  is_active: boolean;
+  stock_quantity: number | null;
+  sort_order: number;
 }
 
 /**
  * Loads product catalog from database.
+ * With a catalog, only its products plus the ones shared by all catalogs.
  */
-export async function loadProductCatalog(tenant_id: string): Promise<Product[]> {
-  const { data, error } = await supabaseAdmin
+export async function loadProductCatalog(
+  tenant_id: string,
+  catalog: string | null = null
+): Promise<Product[]> {
+  let query = supabaseAdmin
     .from('vendi_products')
-    .select('id, name, price, is_active')
+    .select(
+      'id, name, price, is_active, stock_quantity, max_quantity_per_order, metadata, vendi_product_variants(id, name, sku, price, is_active, stock_quantity, sort_order)'
+    )
     .eq('tenant_id', tenant_id)
     .eq('is_active', true);
 
+  if (catalog) {
+    query = query.or(`catalog.is.null,catalog.eq.${catalog}`);
+  }
+
+  const { data, error } = await query;
+
   if (error) {
     throw new Error(`Failed to load product catalog: ${error.message}`);
   }
 
-  return (data || []).map((p) => ({
-    id: p.id,
-    name: p.name,
-    price: Number(p.price),
-    active: p.is_active,
-  }));
+  return ((data || []) as ProductRow[]).map((p) => {
+    const variants: ProductVariant[] = (p.vendi_product_variants || [])
+      .filter((v) => v.is_active)
+      .sort((a, b) => a.sort_order - b.sort_order)
+      .map((v) => ({
+        id: v.id,
+        name: v.name,
+        sku: v.sku ?? null,
+        price: Number(v.price),
+        active: v.is_active,
+        stock: v.stock_quantity ?? null,
+      }));
+    const aliases = readAliases(p.metadata);
+
+    return {
+      id: p.id,
+      name: p.name,
+      price: Number(p.price),
+      active: p.is_active,
+      stock: p.stock_quantity ?? null,
+      max_quantity: p.max_quantity_per_order ?? null,
+      // Only products that have them carry the key, keeping the LLM catalog compact
+      ...(variants.length > 0 ? { variants } : {}),
+      ...(aliases.length > 0 ? { aliases } : {}),
+    };
+  });
+}
+
+/**
+ * Other names customers use for a product, from metadata.aliases
+ * (e.g. ["menta", "mentita"]). Anything that isn't a non-empty string is ignored.
+ */
+function readAliases(metadata: unknown): string[] {
+  const aliases = (metadata as { aliases?: unknown } | null)?.aliases;
+  if (!Array.isArray(aliases)) {
+    return [];
+  }
+  return aliases.filter((a): a is string => typeof a === 'string' && a.trim().length > 0);
+}
+
+/**
+ * Loads the merchant's event keyword lists from app_config.
+ * A missing row means the defaults; a malformed one is ignored the same way.
+ */
+export async function loadEventKeywords(): Promise<Partial<EventKeywords> | null> {
+  const { data, error } = await supabaseAdmin
+    .from('app_config')
+    .select('value')
+    .eq('key', EVENT_KEYWORDS_CONFIG_KEY)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load event keywords: ${error.message}`);
+  }
+
+  return data ? readEventKeywords(data.value) : null;
+}
+
+/**
+ * Keeps known events whose value is a list of phrases (JSON text or JSONB).
+ * Phrases that aren't non-empty strings are dropped.
+ */
+function readEventKeywords(value: unknown): Partial<EventKeywords> | null {
+  let parsed = value;
+  if (typeof value === 'string') {
+    try {
+      parsed = JSON.parse(value);
+    } catch {
+      return null;
+    }
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    return null;
+  }
+
+  const keywords: Partial<EventKeywords> = {};
+  for (const [event, phrases] of Object.entries(parsed)) {
+    if (KEYWORD_EVENTS.includes(event as KeywordEvent) && Array.isArray(phrases)) {
+      keywords[event as KeywordEvent] = phrases.filter((p): p is string => typeof p === 'string' && p.trim().length > 0);
+    }
+  }
+  return keywords;
 }
 
 /**
@@ -189,7 +384,7 @@ export async function loadProductCatalog(tenant_id: string): Promise<Product[]>
 export async function loadRecentHistory(
   conversation_id: string,
   limit: number = 10
-): Promise<Array<{ role: 'customer' | 'assistant'; text: string }>> {
+): Promise<HistoryMessage[]> {
   const { data, error } = await supabaseAdmin
     .from('messages')
     .select('direction, body')
@@ -204,7 +399,8 @@ export async function loadRecentHistory(
   return (data || [])
     .reverse()
     .map((m) => ({
-      role: m.direction === 'inbound' ? 'customer' as const : 'assistant' as const,
+      // 'inbound' rows predate the unified inbound pipeline, which stores 'in'
+      role: m.direction === 'in' || m.direction === 'inbound' ? 'customer' as const : 'assistant' as const,
       text: m.body || '',
     }));
 }
@@ -217,7 +413,7 @@ export async function loadFullState(
 ): Promise<LoadedState> {
   const [conversationState, products] = await Promise.all([
     loadConversationState(params),
-    loadProductCatalog(params.tenant_id),
+    loadProductCatalog(params.tenant_id, params.catalog ?? null),
   ]);
 
   return {
@@ -279,6 +475,8 @@ export async function insertActionHistory(
       executed: record.executed,
       fsm_state_before: record.fsm_state_before,
       fsm_state_after: record.fsm_state_after,
+      validation_error: record.validation_error ?? null,
+      llm_decision_id: record.llm_decision_id ?? null,
     });
 
   if (error) {
@@ -304,9 +502,30 @@ export async function insertActionHistoryBatch(
       executed: r.executed,
       fsm_state_before: r.fsm_state_before,
       fsm_state_after: r.fsm_state_after,
+      validation_error: r.validation_error ?? null,
+      llm_decision_id: r.llm_decision_id ?? null,
     })));
 
   if (error) {
     throw new Error(`Failed to insert action history batch: ${error.message}`);
   }
 }
+
+/**
+ * Inserts the audit record of one LLM answer. Returns its id.
+ */
+export async function insertLlmDecision(
+  record: LlmDecisionRecord
+): Promise<string> {
+  const { data, error } = await supabaseAdmin
+    .from('llm_decisions')
+    .insert(record)
+    .select('id')
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to insert LLM decision: ${error?.message ?? 'no id returned'}`);
+  }
+
+  return data.id as string;
+}
@@ -4,6 +4,10 @@
  * All types for the Agent V2 system based on DESIGN.md
  */
 
+import type { LlmProvider } from '../services/llm-providers/provider.js';
+import type { AgentV2Repositories } from './repository';
+import type { MessageTemplateOverrides } from './message-templates';
+
 // =============================================================================
 // FSM States (7 estados)
 // =============================================================================
@@ -28,7 +32,33 @@ export type ConversationEvent =
   | 'PAYMENT_REJECTED'
   | 'ESCALATION_REQUESTED'
   | 'SESSION_TIMEOUT'
-  | 'ORDER_CANCELLED';
+  | 'ORDER_CANCELLED'
+  | 'ORDER_STATUS_QUERY'
+  | 'DELIVERY_QUESTION'
+  | 'ADDRESS_PROVIDED'
+  | 'COMPLAINT';
+
+/** Events detected from the customer's text; the others come from the system or the merchant */
+export type KeywordEvent = Extract<
+  ConversationEvent,
+  | 'ESCALATION_REQUESTED'
+  | 'COMPLAINT'
+  | 'PAYMENT_PROOF_RECEIVED'
+  | 'ORDER_CANCELLED'
+  | 'ORDER_STATUS_QUERY'
+  | 'DELIVERY_QUESTION'
+  | 'ADDRESS_PROVIDED'
+  | 'GREETING_RECEIVED'
+>;
+
+/** Keyword phrases per event; a phrase matches whole words, ignoring case and accents */
+export type EventKeywords = Record<KeywordEvent, string[]>;
+
+export interface DetectedEvent {
+  event: ConversationEvent;
+  /** Why it fired: the keyword phrase as configured, or "imagen adjunta" */
+  matched: string;
+}
 
 // =============================================================================
 // Actions
@@ -47,6 +77,10 @@ export type ActionType =
   | 'REVIEW_ORDER'
   | 'CONFIRM_ORDER'
   | 'CANCEL_ORDER'
+  // Delivery
+  | 'SET_DELIVERY_METHOD'
+  | 'SET_DELIVERY_ADDRESS'
+  | 'SET_DELIVERY_SLOT'
   // Conversation
   | 'REPLY'
   | 'CLARIFY'
@@ -67,8 +101,36 @@ export type ProhibitedAction =
 export interface ActionParams {
   product_id?: string;
   product_name?: string;
+  /** Required for products with variants; together with product_id it identifies the cart line */
+  variant_id?: string | null;
   quantity?: number;
+  /** Free-text request for the line, e.g. gift wrapping */
+  note?: string | null;
   reason?: string;
+  /** SET_DELIVERY_METHOD */
+  delivery_method?: DeliveryMethod;
+  /** SET_DELIVERY_ADDRESS: street, number and references, as the customer wrote it */
+  address?: string;
+  /** SET_DELIVERY_SLOT: when the customer wants it, free text ("mañana 15-18h") */
+  slot?: string;
+  /** Set by the product resolver: what the LLM sent before product_id was mapped */
+  resolved_from?: {
+    product_id: string | null;
+    product_name: string | null;
+    confidence: number;
+  };
+  /** CLARIFY built by the product resolver: the products the customer may mean */
+  candidates?: ProductCandidate[];
+}
+
+/** A catalog product (or variant) a product name may refer to */
+export interface ProductCandidate {
+  product_id: string;
+  variant_id: string | null;
+  name: string;
+  price: number;
+  /** 0-1 similarity between the name sent and this product */
+  score: number;
 }
 
 export interface ProposedAction {
@@ -82,10 +144,16 @@ export interface ProposedAction {
 
 export interface CartItem {
   product_id: string;
+  /** null/absent for products without variants */
+  variant_id?: string | null;
   name: string;
+  variant_name?: string | null;
+  /** SKU of the variant */
+  sku?: string | null;
   quantity: number;
   unit_price: number;
   subtotal: number;
+  note?: string | null;
 }
 
 export interface Cart {
@@ -94,6 +162,19 @@ export interface Cart {
   currency: string;
 }
 
+// =============================================================================
+// Delivery Types
+// =============================================================================
+
+export type DeliveryMethod = 'delivery' | 'pickup';
+
+/** How the order gets to the customer, collected before CONFIRM_ORDER */
+export interface DeliveryDetails {
+  method: DeliveryMethod | null;
+  address: string | null;
+  slot: string | null;
+}
+
 // =============================================================================
 // Product Types
 // =============================================================================
@@ -103,6 +184,24 @@ export interface Product {
   name: string;
   price: number;
   active: boolean;
+  /** Units available (null = not tracked) */
+  stock: number | null;
+  /** Per-order limit for this product (null = QUANTITY_MAX only) */
+  max_quantity: number | null;
+  /** Active variants; when present, one must be chosen and its price applies */
+  variants?: ProductVariant[];
+  /** Other names customers use (vendi_products.metadata.aliases) */
+  aliases?: string[];
+}
+
+export interface ProductVariant {
+  id: string;
+  name: string;
+  sku: string | null;
+  price: number;
+  active: boolean;
+  /** Units available of this variant (null = the product's stock applies) */
+  stock: number | null;
 }
 
 // =============================================================================
@@ -114,9 +213,19 @@ export interface ConversationState {
   human_override: boolean;
   human_override_at?: string | null;
   cart_json: Cart;
+  /** Absent in states saved before delivery was collected */
+  delivery_json?: DeliveryDetails;
   pending_order_id?: string | null;
   events_log?: unknown[];
   last_llm_response?: LlmResponse | null;
+  /** Row version when loaded; saving with it fails if someone wrote in between */
+  version?: number;
+}
+
+/** A past message of the conversation, as shown to the LLM */
+export interface HistoryMessage {
+  role: 'customer' | 'assistant';
+  text: string;
 }
 
 // =============================================================================
@@ -125,14 +234,17 @@ export interface ConversationState {
 
 export interface LlmContextInput {
   current_state: FsmState;
-  detected_events: ConversationEvent[];
+  detected_events: DetectedEvent[];
   cart: Cart;
+  delivery: DeliveryDetails;
   customer_message: string;
-  recent_history: Array<{
-    role: 'customer' | 'assistant';
-    text: string;
-  }>;
+  recent_history: HistoryMessage[];
   product_catalog: Product[];
+  /** Actions of a first answer this turn that the backend rejected, with the reason */
+  rejected_actions?: Array<{
+    action: ProposedAction;
+    error: string;
+  }>;
 }
 
 export interface LlmResponse {
@@ -142,6 +254,29 @@ export interface LlmResponse {
   suggested_state?: FsmState;
 }
 
+/**
+ * How an LLM answer was obtained, for the decision audit (llm_decisions).
+ */
+export interface LlmDecisionTrace {
+  /** sha256 of system + context prompt */
+  prompt_hash: string;
+  /** Provider name, or 'mock' when none is configured */
+  provider: string;
+  model: string | null;
+  latency_ms: number;
+  attempts: number;
+  input_tokens: number | null;
+  output_tokens: number | null;
+  raw_output: string | null;
+  /** Why the safe fallback answer was used (null = the model's answer was used) */
+  fallback_reason: string | null;
+}
+
+export interface LlmDecision {
+  response: LlmResponse;
+  trace: LlmDecisionTrace;
+}
+
 // =============================================================================
 // Validation Types
 // =============================================================================
@@ -158,6 +293,27 @@ export interface ActionValidationRule {
   requiresQuantity?: boolean;
   requiresCartNotEmpty?: boolean;
   requiresItemInCart?: boolean;
+  /** product_id must be an active catalog product; quantities are checked against its stock and limit */
+  requiresCatalogProduct?: boolean;
+  /** Delivery field the action sets; its param must be present and valid */
+  setsDeliveryField?: keyof DeliveryDetails;
+  /** Delivery details required for the chosen method must be collected */
+  requiresDeliveryDetails?: boolean;
+  /** validStates also applies to the state the turn started in, not only the one earlier actions left */
+  validAtTurnStart?: boolean;
+}
+
+// =============================================================================
+// Output Guardrail Types
+// =============================================================================
+
+export type GuardrailViolationKind = 'price' | 'account' | 'discount';
+
+/** Something in response_text the LLM is not allowed to state */
+export interface GuardrailViolation {
+  kind: GuardrailViolationKind;
+  /** The offending text, as written */
+  match: string;
 }
 
 // =============================================================================
@@ -169,12 +325,48 @@ export interface ProcessMessageInput {
   customer_message: string;
   wa_phone: string;
   tenant_id: string;
+  /** Catalog of the business number the customer wrote to (null = all products) */
+  catalog?: string | null;
+  /** Message templates of that business number (unset keys use the defaults) */
+  templates?: MessageTemplateOverrides | null;
+}
+
+export interface ProcessMessageOptions {
+  /** Run the full decision flow but persist nothing (webhook replay) */
+  dry_run?: boolean;
+  /** LLM provider override (defaults to LLM_PROVIDER; null = canned mock answer) */
+  llm_provider?: LlmProvider | null;
+  /** Start from this state instead of conversation_state (shadow runs keep their own) */
+  state?: ConversationState;
+  /** Where state, catalog, history, audit and orders live (defaults to Supabase) */
+  repositories?: AgentV2Repositories;
 }
 
 export interface ProcessMessageResult {
   handled: boolean;
   response_text: string | null;
+  previous_state?: FsmState;
   new_state?: FsmState;
+  proposed_actions?: ProposedAction[];
   executed_actions?: ProposedAction[];
   validation_errors?: string[];
+  /** Full resulting state, reported by dry runs (nothing was saved) */
+  state?: ConversationState;
+  /** What the output guardrail found in the LLM's text (it was replaced by a template) */
+  guardrail_violations?: GuardrailViolation[];
+  /** Events detected in the customer's message, as given to the LLM */
+  detected_events?: DetectedEvent[];
+  /** Order persisted by CONFIRM_ORDER this turn, with the message to send after the reply */
+  pending_order?: {
+    order_id: string;
+    payment_instructions: string;
+  };
+  /** Why the audit rows (llm_decisions, action_history) of this turn weren't written; the turn itself was */
+  audit_error?: string;
 }
+
+/**
+ * AGENT_V2_ENABLED: 'true' answers with V2, 'shadow' runs V2 next to V1
+ * without persisting or sending anything, anything else leaves V1 alone.
+ */
+export type AgentV2Mode = 'on' | 'shadow' | 'off';
@@ -69,6 +69,28 @@ export function getContext(phone: string): ConversationContext {
   return existing;
 }
 
+/**
+ * Copia del contexto actual sin crear uno nuevo (null si no existe)
+ * @param phone - Número de teléfono
+ */
+export function snapshotContext(phone: string): ConversationContext | null {
+  const existing = conversationStore.get(phone);
+  return existing ? { ...existing } : null;
+}
+
+/**
+ * Restaura un contexto guardado con snapshotContext (p. ej. tras un replay en modo dry-run)
+ * @param phone - Número de teléfono
+ * @param snapshot - Contexto guardado, o null para borrarlo
+ */
+export function restoreContext(phone: string, snapshot: ConversationContext | null): void {
+  if (snapshot) {
+    conversationStore.set(phone, snapshot);
+  } else {
+    conversationStore.delete(phone);
+  }
+}
+
 /**
  * Actualiza el contexto de una conversación
  * @param phone - Número de teléfono
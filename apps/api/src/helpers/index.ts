@@ -16,6 +16,8 @@ export {
 } from './pricing.js';
 export {
   getContext,
+  snapshotContext,
+  restoreContext,
   updateContext,
   setFlavor,
   setQuantityAndTotal,
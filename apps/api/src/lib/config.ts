@@ -4,13 +4,58 @@ const envSchema = z.object({
   SUPABASE_URL: z.string().url(),
   SUPABASE_SERVICE_ROLE_KEY: z.string().min(1),
   GEMINI_API_KEY: z.string().optional(), // Optional: AI will use mock responses if not set
+  // LLM provider shared by every AI feature: Gemini, any OpenAI-compatible endpoint
+  // (OpenAI, llama.cpp server, vLLM...) or recorded fixtures for tests
+  LLM_PROVIDER: z.enum(['gemini', 'openai_compatible', 'fixture']).default('gemini'),
+  GEMINI_MODEL: z.string().default('gemini-2.0-flash'),
+  OPENAI_COMPATIBLE_BASE_URL: z.string().url().default('http://localhost:8080/v1'),
+  OPENAI_COMPATIBLE_API_KEY: z.string().optional(),
+  OPENAI_COMPATIBLE_MODEL: z.string().default('local-model'),
+  LLM_FIXTURES_PATH: z.string().optional(),
+  LLM_TIMEOUT_MS: z.coerce.number().int().positive().default(15000),
+  LLM_MAX_RETRIES: z.coerce.number().int().nonnegative().default(2),
   TENANT_ID: z.string().uuid(),
   API_PORT: z.coerce.number().default(3001),
   NODE_ENV: z.enum(['development', 'production', 'test']).default('development'),
   WHATSAPP_VERIFY_TOKEN: z.string().optional(),
   WHATSAPP_APP_SECRET: z.string().optional(),
+  // Development only: accept unsigned webhook POSTs (ignored when NODE_ENV=production)
+  WHATSAPP_SKIP_SIGNATURE: z.string().optional().transform((v) => v === 'true'),
   WHATSAPP_ACCESS_TOKEN: z.string().optional(),
   WHATSAPP_PHONE_NUMBER_ID: z.string().optional(),
+  // Point at a local fake Graph API (scripts/fake_graph_api.ts) for offline testing
+  WHATSAPP_GRAPH_API_URL: z.string().url().default('https://graph.facebook.com/v18.0'),
+  // Graph API calls are aborted after this long (a hung send must not hold the turn)
+  WHATSAPP_TIMEOUT_MS: z.coerce.number().int().positive().default(10000),
+  // Inbound media storage: Supabase Storage bucket, or local disk for development
+  MEDIA_STORAGE: z.enum(['supabase', 'local']).default('supabase'),
+  MEDIA_STORAGE_BUCKET: z.string().default('whatsapp-media'),
+  MEDIA_LOCAL_DIR: z.string().default('./media-storage'),
+  MEDIA_MAX_BYTES: z.coerce.number().int().positive().default(25 * 1024 * 1024),
+  // A media download is abandoned (and recorded as failed) after this long
+  MEDIA_DOWNLOAD_TIMEOUT_MS: z.coerce.number().int().positive().default(30000),
+  // Which responder answers inbound messages: V1 rules, legacy Gemini agent, or Agent V2
+  INBOUND_RESPONDER: z.enum(['rules', 'gemini', 'agent_v2']).default('rules'),
+  // Durable inbound queue worker (disable on instances that should only accept webhooks)
+  INBOUND_WORKER_ENABLED: z.string().optional().transform((v) => v !== 'false'),
+  INBOUND_WORKER_POLL_MS: z.coerce.number().int().positive().default(1000),
+  INBOUND_JOB_LEASE_SECONDS: z.coerce.number().int().positive().default(60),
+  INBOUND_JOB_MAX_ATTEMPTS: z.coerce.number().int().positive().default(5),
+  // Delay before a new inbound job becomes claimable, so messages delivered out of order get sorted by timestamp
+  INBOUND_REORDER_WINDOW_MS: z.coerce.number().int().nonnegative().default(1000),
+  // Debounce per customer: fragments within this window are answered as one turn (0 disables)
+  INBOUND_COALESCE_WINDOW_MS: z.coerce.number().int().nonnegative().default(3000),
+  // Upper bound on how long a burst can keep postponing its answer
+  INBOUND_COALESCE_MAX_WAIT_MS: z.coerce.number().int().nonnegative().default(10000),
+  // Session timeout scheduler: scans idle conversations (conversations.last_message_at)
+  SESSION_SCHEDULER_ENABLED: z.string().optional().transform((v) => v !== 'false'),
+  SESSION_SCHEDULER_INTERVAL_MS: z.coerce.number().int().positive().default(60000),
+  // Idle minutes before an open cart is dropped and the conversation returns to IDLE (0 disables)
+  SESSION_CART_TIMEOUT_MINUTES: z.coerce.number().int().nonnegative().default(120),
+  // Idle minutes before human override is released and the agent answers again (0 disables)
+  SESSION_OVERRIDE_TIMEOUT_MINUTES: z.coerce.number().int().nonnegative().default(1440),
+  // Idle minutes before a "¿sigues ahí?" nudge to customers with an open cart (0 disables)
+  SESSION_NUDGE_AFTER_MINUTES: z.coerce.number().int().nonnegative().default(0),
 });
 
 function loadConfig() {
@@ -0,0 +1,29 @@
+// In-process mutual exclusion per key (e.g. one customer phone at a time)
+
+const tails = new Map<string, Promise<void>>();
+
+/**
+ * Runs `fn` after every earlier call with the same key has settled.
+ * Calls with different keys run concurrently.
+ */
+export async function withKeyedLock<T>(key: string, fn: () => Promise<T>): Promise<T> {
+  const previous = tails.get(key) ?? Promise.resolve();
+
+  let release!: () => void;
+  const current = new Promise<void>((resolve) => {
+    release = resolve;
+  });
+  const tail = previous.then(() => current);
+  tails.set(key, tail);
+
+  await previous;
+  try {
+    return await fn();
+  } finally {
+    release();
+    // Last in line cleans up so the map doesn't grow with every phone number
+    if (tails.get(key) === tail) {
+      tails.delete(key);
+    }
+  }
+}
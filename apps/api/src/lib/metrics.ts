@@ -0,0 +1,60 @@
+// In-process counters exposed on GET /metrics (Prometheus text format)
+
+type Labels = Record<string, string>;
+
+const counters = new Map<string, { name: string; labels: Labels; value: number }>();
+
+function seriesKey(name: string, labels: Labels): string {
+  const labelPart = Object.keys(labels)
+    .sort()
+    .map((key) => `${key}="${labels[key]}"`)
+    .join(',');
+  return labelPart ? `${name}{${labelPart}}` : name;
+}
+
+/**
+ * Increments a counter series by `value` (default 1).
+ */
+export function incrementCounter(name: string, labels: Labels = {}, value: number = 1): void {
+  const key = seriesKey(name, labels);
+  const existing = counters.get(key);
+
+  if (existing) {
+    existing.value += value;
+    return;
+  }
+
+  counters.set(key, { name, labels, value });
+}
+
+/**
+ * Returns a snapshot of all counter series keyed by `name{labels}`.
+ */
+export function getCounters(): Record<string, number> {
+  const snapshot: Record<string, number> = {};
+  for (const [key, series] of counters.entries()) {
+    snapshot[key] = series.value;
+  }
+  return snapshot;
+}
+
+/**
+ * Renders all counters in Prometheus text exposition format.
+ */
+export function renderPrometheusMetrics(): string {
+  const byName = new Map<string, string[]>();
+
+  for (const [key, series] of counters.entries()) {
+    const lines = byName.get(series.name) || [];
+    lines.push(`${key} ${series.value}`);
+    byName.set(series.name, lines);
+  }
+
+  const output: string[] = [];
+  for (const [name, lines] of byName.entries()) {
+    output.push(`# TYPE ${name} counter`);
+    output.push(...lines);
+  }
+
+  return output.join('\n') + '\n';
+}
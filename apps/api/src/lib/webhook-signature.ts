@@ -0,0 +1,50 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+// Meta signs every webhook POST with HMAC-SHA256 of the raw body using the app secret
+// Reference: https://developers.facebook.com/docs/graph-api/webhooks/getting-started#validate-payloads
+
+const SIGNATURE_PREFIX = 'sha256=';
+
+export type SignatureCheckResult =
+  | { valid: true }
+  | { valid: false; reason: 'missing_header' | 'malformed_header' | 'mismatch' | 'missing_body' };
+
+/**
+ * Computes the `sha256=<hex>` signature Meta would send for a raw body.
+ */
+export function computeWebhookSignature(rawBody: Buffer, appSecret: string): string {
+  const digest = createHmac('sha256', appSecret).update(rawBody).digest('hex');
+  return `${SIGNATURE_PREFIX}${digest}`;
+}
+
+/**
+ * Verifies the X-Hub-Signature-256 header against the raw request body.
+ * Comparison is constant-time.
+ */
+export function verifyWebhookSignature(
+  rawBody: Buffer | undefined,
+  signatureHeader: string | string[] | undefined,
+  appSecret: string
+): SignatureCheckResult {
+  if (!rawBody) {
+    return { valid: false, reason: 'missing_body' };
+  }
+
+  const header = Array.isArray(signatureHeader) ? signatureHeader[0] : signatureHeader;
+  if (!header) {
+    return { valid: false, reason: 'missing_header' };
+  }
+
+  if (!header.startsWith(SIGNATURE_PREFIX) || !/^[0-9a-f]{64}$/i.test(header.slice(SIGNATURE_PREFIX.length))) {
+    return { valid: false, reason: 'malformed_header' };
+  }
+
+  const expected = Buffer.from(computeWebhookSignature(rawBody, appSecret), 'utf8');
+  const received = Buffer.from(header.toLowerCase(), 'utf8');
+
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+    return { valid: false, reason: 'mismatch' };
+  }
+
+  return { valid: true };
+}
@@ -0,0 +1,125 @@
+import { FastifyPluginAsync } from 'fastify';
+import { z } from 'zod';
+import { supabaseAdmin } from '../lib/supabase.js';
+
+const ConversationIdSchema = z.object({
+  id: z.string().uuid(),
+});
+
+const TraceQuerySchema = z.object({
+  // Most recent LLM answers to include
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+});
+
+interface DecisionRow {
+  id: string;
+  turn_id: string;
+  created_at: string;
+  customer_message: string;
+  [key: string]: unknown;
+}
+
+interface ActionRow {
+  llm_decision_id: string | null;
+  [key: string]: unknown;
+}
+
+export const conversationsRoutes: FastifyPluginAsync = async (fastify) => {
+  // Agent V2 decision trail: every LLM answer with its proposed actions and verdicts
+  fastify.get('/:id/trace', async (request, reply) => {
+    const params = ConversationIdSchema.safeParse(request.params);
+    if (!params.success) {
+      return reply.status(400).send({ error: 'Invalid conversation ID' });
+    }
+
+    const query = TraceQuerySchema.safeParse(request.query);
+    if (!query.success) {
+      return reply.status(400).send({ error: 'Invalid query', details: query.error.flatten() });
+    }
+
+    const conversationId = params.data.id;
+
+    const { data: conversation, error: convError } = await supabaseAdmin
+      .from('conversations')
+      .select('id, status, phone_number_id, created_at, last_message_at')
+      .eq('id', conversationId)
+      .single();
+
+    if (convError || !conversation) {
+      return reply.status(404).send({ error: 'Conversation not found' });
+    }
+
+    const [stateResult, decisionsResult, eventsResult] = await Promise.all([
+      supabaseAdmin
+        .from('conversation_state')
+        .select('fsm_state, human_override, human_override_at, cart_json, delivery_json, pending_order_id, updated_at')
+        .eq('conversation_id', conversationId)
+        .maybeSingle(),
+      supabaseAdmin
+        .from('llm_decisions')
+        .select('*')
+        .eq('conversation_id', conversationId)
+        .order('created_at', { ascending: false })
+        .limit(query.data.limit),
+      // System events (SESSION_TIMEOUT) and actions recorded before the decision audit
+      supabaseAdmin
+        .from('action_history')
+        .select('*')
+        .eq('conversation_id', conversationId)
+        .is('llm_decision_id', null)
+        .order('created_at', { ascending: false })
+        .limit(query.data.limit),
+    ]);
+
+    const dbError = stateResult.error || decisionsResult.error || eventsResult.error;
+    if (dbError) {
+      request.log.error({ error: dbError, conversationId }, 'Failed to fetch conversation trace');
+      return reply.status(500).send({ error: 'Database error' });
+    }
+
+    const decisions = ((decisionsResult.data || []) as DecisionRow[]).reverse();
+
+    let actions: ActionRow[] = [];
+    if (decisions.length > 0) {
+      const { data, error } = await supabaseAdmin
+        .from('action_history')
+        .select('*')
+        .in('llm_decision_id', decisions.map((d) => d.id))
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        request.log.error({ error, conversationId }, 'Failed to fetch trace actions');
+        return reply.status(500).send({ error: 'Database error' });
+      }
+      actions = (data || []) as ActionRow[];
+    }
+
+    // Group: turn -> LLM answers (rounds) -> proposed actions
+    const turns: Array<{ turn_id: string; created_at: string; customer_message: string; decisions: unknown[] }> = [];
+
+    for (const decision of decisions) {
+      let turn = turns.find((t) => t.turn_id === decision.turn_id);
+      if (!turn) {
+        turn = {
+          turn_id: decision.turn_id,
+          created_at: decision.created_at,
+          customer_message: decision.customer_message,
+          decisions: [],
+        };
+        turns.push(turn);
+      }
+
+      turn.decisions.push({
+        ...decision,
+        actions: actions.filter((a) => a.llm_decision_id === decision.id),
+      });
+    }
+
+    return reply.send({
+      conversation,
+      state: stateResult.data,
+      turns,
+      events: (eventsResult.data || []).reverse(),
+    });
+  });
+};
@@ -2,9 +2,12 @@ import { FastifyPluginAsync } from 'fastify';
 import { z } from 'zod';
 import { supabaseAdmin } from '../lib/supabase.js';
 import { config } from '../lib/config.js';
-import { processMessage } from '../services/webhook-processor.js';
+import { runInboundPipeline } from '../services/inbound/pipeline.js';
+import { listInboundJobs, requeueInboundJob } from '../services/inbound/job-queue.js';
+import { wakeInboundWorker } from '../services/inbound/worker.js';
+import { replayWebhookEvents } from '../services/inbound/replay.js';
 import { enqueueOutboundMessage } from '../services/outbound-queue.js';
-import type { WhatsAppMessage, WhatsAppContact } from '../schemas/whatsapp.js';
+import type { WhatsAppMessage, WhatsAppContact, WhatsAppWebhook } from '../schemas/whatsapp.js';
 
 const ALLOW_DEBUG_SEEDS = process.env.ALLOW_DEBUG_SEEDS === 'true';
 const DEBUG_SEED_TOKEN = process.env.DEBUG_SEED_TOKEN;
@@ -94,6 +97,8 @@ export const debugRoutes: FastifyPluginAsync = async (fastify) => {
   const SimulateInboundSchema = z.object({
     from_phone: z.string().min(1),
     text: z.string().min(1),
+    /** Business number the message is addressed to (defaults to WHATSAPP_PHONE_NUMBER_ID) */
+    phone_number_id: z.string().min(1).optional(),
     media: z.object({
       kind: z.enum(['image', 'pdf', 'none']),
       url: z.string().optional(),
@@ -119,7 +124,7 @@ export const debugRoutes: FastifyPluginAsync = async (fastify) => {
       return reply.status(400).send({ error: 'Invalid request body', details: parseResult.error.issues });
     }
 
-    const { from_phone, text, media } = parseResult.data;
+    const { from_phone, text, phone_number_id, media } = parseResult.data;
 
     try {
       // Build a simulated WhatsApp message
@@ -158,10 +163,37 @@ export const debugRoutes: FastifyPluginAsync = async (fastify) => {
         wa_id: from_phone,
       };
 
+      // Wrap in a webhook envelope so webhook_events looks exactly like production
+      const simulatedPayload: WhatsAppWebhook = {
+        object: 'whatsapp_business_account',
+        entry: [
+          {
+            id: 'simulated',
+            changes: [
+              {
+                field: 'messages',
+                value: {
+                  messaging_product: 'whatsapp',
+                  metadata: {
+                    display_phone_number: 'simulated',
+                    phone_number_id: phone_number_id || config.WHATSAPP_PHONE_NUMBER_ID || 'simulated',
+                  },
+                  contacts: [simulatedContact],
+                  messages: [simulatedMessage],
+                },
+              },
+            ],
+          },
+        ],
+      };
+
       request.log.info({ from_phone, text, media: media?.kind }, 'Processing simulated inbound message');
 
       // Process using the same pipeline as real webhooks
-      const result = await processMessage(simulatedMessage, simulatedContact, request.log);
+      const result = await runInboundPipeline(
+        { message: simulatedMessage, contact: simulatedContact, payload: simulatedPayload, phoneNumberId: phone_number_id },
+        request.log
+      );
 
       request.log.info(result, 'Simulated message processed');
 
@@ -170,6 +202,9 @@ export const debugRoutes: FastifyPluginAsync = async (fastify) => {
         conversation_id: result.conversationId,
         order_id: result.orderId,
         payment_id: result.paymentId,
+        responder: result.responder,
+        reply: result.reply,
+        halted: result.halted,
         simulated_message_id: simulatedMessageId,
       });
     } catch (error) {
@@ -229,4 +264,112 @@ export const debugRoutes: FastifyPluginAsync = async (fastify) => {
       return reply.status(500).send({ error: 'Internal error' });
     }
   });
+
+  // Inspect the durable inbound queue
+  const InboundJobsQuerySchema = z.object({
+    status: z.enum(['pending', 'processing', 'done', 'dead']).optional(),
+    limit: z.coerce.number().int().min(1).max(200).default(50),
+  });
+
+  fastify.get('/inbound-jobs', async (request, reply) => {
+    // Security: disabled unless explicitly enabled
+    if (!ALLOW_DEBUG_SEEDS) {
+      return reply.status(404).send({ error: 'Not found' });
+    }
+
+    // Security: require debug token header
+    const token = request.headers['x-debug-token'];
+    if (!DEBUG_SEED_TOKEN || token !== DEBUG_SEED_TOKEN) {
+      return reply.status(404).send({ error: 'Not found' });
+    }
+
+    const parseResult = InboundJobsQuerySchema.safeParse(request.query);
+    if (!parseResult.success) {
+      return reply.status(400).send({ error: 'Invalid query', details: parseResult.error.issues });
+    }
+
+    try {
+      const jobs = await listInboundJobs(parseResult.data);
+      return reply.send({ jobs });
+    } catch (error) {
+      request.log.error({ error }, 'List inbound jobs failed');
+      return reply.status(500).send({ error: 'Internal error' });
+    }
+  });
+
+  // Requeue a dead-lettered inbound job
+  fastify.post('/inbound-jobs/:id/requeue', async (request, reply) => {
+    // Security: disabled unless explicitly enabled
+    if (!ALLOW_DEBUG_SEEDS) {
+      return reply.status(404).send({ error: 'Not found' });
+    }
+
+    // Security: require debug token header
+    const token = request.headers['x-debug-token'];
+    if (!DEBUG_SEED_TOKEN || token !== DEBUG_SEED_TOKEN) {
+      return reply.status(404).send({ error: 'Not found' });
+    }
+
+    const { id } = request.params as { id: string };
+
+    const result = await requeueInboundJob(id, request.log);
+    if (!result.ok) {
+      return reply.status(409).send({ error: result.error });
+    }
+
+    wakeInboundWorker();
+    return reply.send({ job_id: id, status: 'pending' });
+  });
+
+  // Replay stored webhook events through the current pipeline (dry run by default)
+  const ReplaySchema = z
+    .object({
+      event_ids: z.array(z.string().uuid()).max(500).optional(),
+      phone: z.string().min(1).optional(),
+      from: z.string().datetime({ offset: true }).optional(),
+      to: z.string().datetime({ offset: true }).optional(),
+      limit: z.number().int().min(1).max(500).default(50),
+      dry_run: z.boolean().default(true),
+      // Applied replays only message the customers when this is set too
+      send: z.boolean().default(false),
+    })
+    .refine((body) => body.event_ids?.length || body.phone || body.from || body.to, {
+      message: 'Select events by event_ids, phone or a from/to range',
+    })
+    .refine((body) => !body.send || !body.dry_run, {
+      message: 'send requires dry_run: false',
+    });
+
+  fastify.post('/webhook-events/replay', async (request, reply) => {
+    // Security: disabled unless explicitly enabled
+    if (!ALLOW_DEBUG_SEEDS) {
+      return reply.status(404).send({ error: 'Not found' });
+    }
+
+    // Security: require debug token header
+    const token = request.headers['x-debug-token'];
+    if (!DEBUG_SEED_TOKEN || token !== DEBUG_SEED_TOKEN) {
+      return reply.status(404).send({ error: 'Not found' });
+    }
+
+    const parseResult = ReplaySchema.safeParse(request.body);
+    if (!parseResult.success) {
+      return reply.status(400).send({ error: 'Invalid request body', details: parseResult.error.issues });
+    }
+
+    const { event_ids, phone, from, to, limit, dry_run, send } = parseResult.data;
+
+    try {
+      const reports = await replayWebhookEvents(
+        { eventIds: event_ids, phone, from, to, limit },
+        { dryRun: dry_run, send },
+        request.log
+      );
+
+      return reply.send({ dry_run, send, count: reports.length, events: reports });
+    } catch (error) {
+      request.log.error({ error }, 'Webhook replay failed');
+      return reply.status(500).send({ error: 'Internal error' });
+    }
+  });
 };
@@ -0,0 +1,38 @@
+import { FastifyPluginAsync } from 'fastify';
+import { z } from 'zod';
+import { readMediaAsset } from '../services/media/media-service.js';
+
+const MediaIdSchema = z.object({
+  id: z.string().uuid(),
+});
+
+export const mediaRoutes: FastifyPluginAsync = async (fastify) => {
+  // Serve a stored media asset (payment receipts on the dashboard)
+  fastify.get('/:id', async (request, reply) => {
+    const params = MediaIdSchema.safeParse(request.params);
+    if (!params.success) {
+      return reply.status(400).send({ error: 'Invalid media ID' });
+    }
+
+    try {
+      const media = await readMediaAsset(params.data.id);
+
+      if (!media) {
+        return reply.status(404).send({ error: 'Media not found' });
+      }
+
+      const { asset, data } = media;
+      const filename = (asset.filename || asset.wa_media_id).replace(/[^\w.-]/g, '_');
+
+      return reply
+        .header('Content-Type', asset.mime_type || 'application/octet-stream')
+        .header('Content-Disposition', `inline; filename="${filename}"`)
+        .header('Cache-Control', 'private, max-age=3600')
+        .header('X-Content-Type-Options', 'nosniff')
+        .send(data);
+    } catch (error) {
+      request.log.error({ error, mediaId: params.data.id }, 'Failed to read media asset');
+      return reply.status(500).send({ error: 'Internal error' });
+    }
+  });
+};
@@ -57,7 +57,8 @@ export const paymentsRoutes: FastifyPluginAsync = async (fastify) => {
           currency,
           status,
           delivery_method,
-          delivery_address
+          delivery_address,
+          delivery_slot
         ),
         conversations (
           id,
@@ -1,295 +1,29 @@
 import { FastifyPluginAsync } from 'fastify';
-import { z } from 'zod';
 import { randomUUID } from 'crypto';
 import { config } from '../lib/config.js';
-import { supabaseAdmin } from '../lib/supabase.js';
-import { generateReply } from '../services/llm.js';
-import { processWithRules, getContext } from '../helpers/index.js';
-
-// ============================================================================
-// WhatsApp Webhook Schema
-// ============================================================================
-
-const TextMessageSchema = z.object({
-  body: z.string(),
-});
-
-const MessageSchema = z.object({
-  from: z.string(),
-  id: z.string(),
-  timestamp: z.string(),
-  type: z.string(),
-  text: TextMessageSchema.optional(),
-});
-
-const ContactSchema = z.object({
-  profile: z.object({
-    name: z.string(),
-  }),
-  wa_id: z.string(),
-});
-
-const MetadataSchema = z.object({
-  display_phone_number: z.string(),
-  phone_number_id: z.string(),
-});
-
-const ValueSchema = z.object({
-  messaging_product: z.literal('whatsapp'),
-  metadata: MetadataSchema,
-  contacts: z.array(ContactSchema).optional(),
-  messages: z.array(MessageSchema).optional(),
-  statuses: z.array(z.any()).optional(),
-});
-
-const ChangeSchema = z.object({
-  value: ValueSchema,
-  field: z.literal('messages'),
-});
-
-const EntrySchema = z.object({
-  id: z.string(),
-  changes: z.array(ChangeSchema),
-});
-
-const WhatsAppWebhookSchema = z.object({
-  object: z.literal('whatsapp_business_account'),
-  entry: z.array(EntrySchema),
-});
-
-// ============================================================================
-// Database Persistence
-// ============================================================================
-
-/**
- * Resolves contact_id for a given phone number.
- * Creates contact if it doesn't exist.
- */
-async function resolveContactId(phone: string, name: string | null, log: any): Promise<string | null> {
-  try {
-    // Try to find existing contact
-    const { data: existing } = await supabaseAdmin
-      .from('contacts')
-      .select('id')
-      .eq('tenant_id', config.TENANT_ID)
-      .eq('wa_phone', phone)
-      .single();
-
-    if (existing) {
-      return existing.id;
-    }
-
-    // Create new contact
-    const { data: created, error } = await supabaseAdmin
-      .from('contacts')
-      .insert({
-        tenant_id: config.TENANT_ID,
-        wa_phone: phone,
-        name: name || null,
-      })
-      .select('id')
-      .single();
-
-    if (error) {
-      log.error({ error: error.message }, '[DB] Failed to create contact');
-      return null;
-    }
-
-    return created.id;
-  } catch (err) {
-    log.error({ error: err }, '[DB] Exception resolving contact');
-    return null;
-  }
-}
-
-/**
- * Resolves conversation_id for a given contact.
- * Finds open conversation from last 24h or creates new one.
- */
-async function resolveConversationId(contactId: string, log: any): Promise<string | null> {
-  try {
-    const twentyFourHoursAgo = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
-
-    // Try to find open conversation from last 24h
-    const { data: existing } = await supabaseAdmin
-      .from('conversations')
-      .select('id')
-      .eq('contact_id', contactId)
-      .eq('tenant_id', config.TENANT_ID)
-      .gte('last_message_at', twentyFourHoursAgo)
-      .order('last_message_at', { ascending: false })
-      .limit(1)
-      .single();
-
-    if (existing) {
-      return existing.id;
-    }
-
-    // Create new conversation
-    const { data: created, error } = await supabaseAdmin
-      .from('conversations')
-      .insert({
-        contact_id: contactId,
-        tenant_id: config.TENANT_ID,
-        last_message_at: new Date().toISOString(),
-      })
-      .select('id')
-      .single();
-
-    if (error) {
-      log.error({ error: error.message }, '[DB] Failed to create conversation');
-      return null;
-    }
-
-    return created.id;
-  } catch (err) {
-    log.error({ error: err }, '[DB] Exception resolving conversation');
-    return null;
-  }
-}
-
-interface PersistMessageParams {
-  direction: 'inbound' | 'outbound';
-  phone: string;
-  name?: string | null;
-  text: string;
-  raw?: unknown;
-  waMessageId?: string;
-  requestId: string;
-  conversationId?: string | null;
-}
-
-async function persistMessage(params: PersistMessageParams, log: any): Promise<string | null> {
-  const { direction, phone, name, text, raw, waMessageId, requestId, conversationId } = params;
-
-  try {
-    const { data, error } = await supabaseAdmin
-      .from('messages')
-      .insert({
-        direction,
-        wa_phone: phone,
-        sender_name: name || null,
-        body: text,
-        raw_payload: raw ? JSON.stringify(raw) : null,
-        wa_message_id: waMessageId || null,
-        tenant_id: config.TENANT_ID,
-        conversation_id: conversationId || null,
-      })
-      .select('id')
-      .single();
-
-    if (error) {
-      log.error({ error: error.message, code: error.code, requestId }, '[DB] Failed to persist message');
-      return null;
-    }
-
-    // Update conversation last_message_at
-    if (conversationId) {
-      await supabaseAdmin
-        .from('conversations')
-        .update({ last_message_at: new Date().toISOString() })
-        .eq('id', conversationId);
-    }
-
-    log.info({ messageDbId: data.id, direction, phone: phone.slice(-4), conversationId, requestId }, '[DB] Message persisted');
-    return data.id;
-  } catch (err) {
-    log.error({ error: err, requestId }, '[DB] Exception persisting message');
-    return null;
+import { verifyWebhookSignature } from '../lib/webhook-signature.js';
+import { incrementCounter } from '../lib/metrics.js';
+import { WhatsAppWebhookSchema } from '../schemas/whatsapp.js';
+import { applyMessageStatuses } from '../services/status-tracker.js';
+import { enqueueInboundJob } from '../services/inbound/job-queue.js';
+import { wakeInboundWorker } from '../services/inbound/worker.js';
+
+declare module 'fastify' {
+  interface FastifyRequest {
+    rawBody?: Buffer;
   }
 }
 
 // ============================================================================
-// WhatsApp Cloud API - Send Message
+// Signature Verification
 // ============================================================================
 
-async function sendWhatsAppMessage(to: string, text: string): Promise<void> {
-  const phoneNumberId = config.WHATSAPP_PHONE_NUMBER_ID;
-  const accessToken = config.WHATSAPP_ACCESS_TOKEN;
-
-  if (!phoneNumberId || !accessToken) {
-    console.log('[WA] Skipping send (no credentials):', { to: to.slice(-4), text: text.slice(0, 50) });
-    return;
-  }
-
-  const url = `https://graph.facebook.com/v18.0/${phoneNumberId}/messages`;
-
-  const response = await fetch(url, {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${accessToken}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      messaging_product: 'whatsapp',
-      recipient_type: 'individual',
-      to,
-      type: 'text',
-      text: { body: text },
-    }),
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    console.error('[WA] Send failed:', response.status, errorText);
-  }
-}
-
-// ============================================================================
-// Message Processing with Rules + LLM Fallback
-// ============================================================================
-
-async function processMessage(
-  phone: string,
-  messageText: string,
-  contactName: string | null,
-  log: any,
-  requestId: string
-): Promise<void> {
-  // Log context state before processing
-  const contextBefore = getContext(phone);
-  log.info(
-    {
-      phone: phone.slice(-4),
-      textPreview: messageText.slice(0, 50),
-      state: contextBefore.state,
-      flavor: contextBefore.flavor,
-      requestId,
-    },
-    '[PROCESS] Processing message'
-  );
-
-  // ========================================
-  // PASO 1: Intentar manejar con reglas
-  // ========================================
-  const ruleResult = processWithRules(phone, messageText, contactName);
-
-  if (ruleResult.handled && ruleResult.reply) {
-    log.info(
-      {
-        phone: phone.slice(-4),
-        newState: ruleResult.newState,
-        requestId,
-      },
-      '[RULES] Message handled by rules'
-    );
-
-    // Enviar respuesta y terminar
-    await sendWhatsAppMessage(phone, ruleResult.reply);
-    return; // <-- IMPORTANTE: corta flujo, no llama al LLM
-  }
-
-  // ========================================
-  // PASO 2: Fallback al LLM
-  // ========================================
-  log.info(
-    { phone: phone.slice(-4), requestId },
-    '[PROCESS] Rules did not handle, using LLM'
-  );
-
-  const reply = await generateReply(messageText);
-
-  await sendWhatsAppMessage(phone, reply);
+/**
+ * Signature checks can only be skipped outside production, and only when
+ * explicitly requested via WHATSAPP_SKIP_SIGNATURE=true.
+ */
+function isSignatureBypassEnabled(): boolean {
+  return config.NODE_ENV !== 'production' && config.WHATSAPP_SKIP_SIGNATURE;
 }
 
 // ============================================================================
@@ -297,6 +31,20 @@ async function processMessage(
 // ============================================================================
 
 export const webhookRoutes: FastifyPluginAsync = async (fastify) => {
+  // Keep the raw body for HMAC verification (scoped to this plugin only)
+  fastify.addContentTypeParser('application/json', { parseAs: 'buffer' }, (request, body, done) => {
+    const rawBody = body as Buffer;
+    request.rawBody = rawBody;
+
+    try {
+      done(null, rawBody.length > 0 ? JSON.parse(rawBody.toString('utf8')) : {});
+    } catch (err) {
+      const parseError = err as Error & { statusCode?: number };
+      parseError.statusCode = 400;
+      done(parseError, undefined);
+    }
+  });
+
   // GET /webhooks/whatsapp - Meta verification
   fastify.get('/whatsapp', async (request, reply) => {
     const query = request.query as Record<string, string>;
@@ -319,6 +67,27 @@ export const webhookRoutes: FastifyPluginAsync = async (fastify) => {
     const startTime = Date.now();
     const requestId = randomUUID();
 
+    // Verify X-Hub-Signature-256 before touching the payload
+    if (isSignatureBypassEnabled()) {
+      request.log.debug({ requestId }, '[WEBHOOK] Signature verification bypassed (development)');
+    } else if (!config.WHATSAPP_APP_SECRET) {
+      incrementCounter('webhook_signature_rejected_total', { reason: 'secret_not_configured' });
+      request.log.error({ requestId }, '[WEBHOOK] WHATSAPP_APP_SECRET not configured, rejecting request');
+      return reply.status(401).send({ error: 'Invalid signature' });
+    } else {
+      const signatureCheck = verifyWebhookSignature(
+        request.rawBody,
+        request.headers['x-hub-signature-256'],
+        config.WHATSAPP_APP_SECRET
+      );
+
+      if (!signatureCheck.valid) {
+        incrementCounter('webhook_signature_rejected_total', { reason: signatureCheck.reason });
+        request.log.warn({ reason: signatureCheck.reason, requestId }, '[WEBHOOK] Rejected request with invalid signature');
+        return reply.status(401).send({ error: 'Invalid signature' });
+      }
+    }
+
     const parseResult = WhatsAppWebhookSchema.safeParse(request.body);
     if (!parseResult.success) {
       request.log.warn({ errors: parseResult.error.issues, requestId }, '[WEBHOOK] Invalid payload');
@@ -332,59 +101,50 @@ export const webhookRoutes: FastifyPluginAsync = async (fastify) => {
       for (const change of entry.changes) {
         const value = change.value;
 
-        // Skip if no messages (could be status update)
+        // Delivery/read callbacks for messages we sent
+        if (value.statuses && value.statuses.length > 0) {
+          try {
+            const statusResult = await applyMessageStatuses(value.statuses, request.log);
+            request.log.info({ ...statusResult, requestId }, '[WEBHOOK] Status updates applied');
+          } catch (error) {
+            request.log.error({ error, requestId }, '[WEBHOOK] Failed to apply status updates');
+          }
+        }
+
         if (!value.messages || value.messages.length === 0) {
           request.log.debug({ requestId }, '[WEBHOOK] No messages in event, skipping');
           continue;
         }
 
         for (const message of value.messages) {
-          // Only process text messages
-          if (message.type !== 'text' || !message.text?.body) {
-            request.log.debug({ type: message.type, requestId }, '[WEBHOOK] Skipping non-text message');
-            continue;
-          }
-
-          const phone = message.from;
-          const text = message.text.body;
-          const waMessageId = message.id;
-          const contactName = value.contacts?.[0]?.profile?.name || null;
+          const contact = value.contacts?.[0];
 
           request.log.info(
-            { requestId, wa_id: phone.slice(-4), textPreview: text.slice(0, 50), waMessageId },
+            { requestId, wa_id: message.from.slice(-4), type: message.type, waMessageId: message.id },
             '[WEBHOOK] Inbound message received'
           );
 
-          // Resolve contact and conversation
-          const contactId = await resolveContactId(phone, contactName, request.log);
-          const conversationId = contactId ? await resolveConversationId(contactId, request.log) : null;
-
-          // Persist inbound message
-          persistMessage({
-            direction: 'inbound',
-            phone,
-            name: contactName,
-            text,
-            raw: request.body,
-            waMessageId,
-            requestId,
-            conversationId,
-          }, request.log).catch(err =>
-            request.log.error({ error: err, requestId }, '[DB] Failed to persist inbound')
+          // Persist before acknowledging: if the job can't be stored, a 500
+          // makes Meta redeliver instead of silently losing the message
+          const enqueueResult = await enqueueInboundJob(
+            { message, contact, payload, phoneNumberId: value.metadata.phone_number_id },
+            request.log
           );
 
-          // Process asynchronously to not block webhook response
-          setImmediate(async () => {
-            try {
-              await processMessage(phone, text, contactName, request.log, requestId);
-            } catch (error) {
-              request.log.error({ error, phone: phone.slice(-4), requestId }, '[PROCESS] Failed to process message');
-            }
-          });
+          if (!enqueueResult.ok) {
+            request.log.error({ requestId, waMessageId: message.id }, '[WEBHOOK] Failed to enqueue inbound message');
+            return reply.status(500).send({ error: 'Failed to enqueue message' });
+          }
+
+          if (enqueueResult.duplicate) {
+            request.log.debug({ requestId, waMessageId: message.id }, '[WEBHOOK] Message already queued, skipping');
+          }
         }
       }
     }
 
+    wakeInboundWorker();
+
     const duration = Date.now() - startTime;
     request.log.info({ duration, requestId }, '[WEBHOOK] Response sent');
 
@@ -14,21 +14,183 @@ const TextMessageSchema = z.object({
   body: z.string(),
 });
 
-const ImageMessageSchema = z.object({
-  caption: z.string().optional(),
-  mime_type: z.string(),
-  sha256: z.string(),
+// image, audio, video, document and sticker share the media object shape
+const MediaObjectSchema = z.object({
   id: z.string(),
+  mime_type: z.string(),
+  sha256: z.string().optional(),
+});
+
+const ImageMessageSchema = MediaObjectSchema.extend({
+  caption: z.string().optional(),
+});
+
+const VideoMessageSchema = MediaObjectSchema.extend({
+  caption: z.string().optional(),
+});
+
+const AudioMessageSchema = MediaObjectSchema.extend({
+  voice: z.boolean().optional(), // true for push-to-talk voice notes
 });
 
+const DocumentMessageSchema = MediaObjectSchema.extend({
+  caption: z.string().optional(),
+  filename: z.string().optional(),
+});
+
+const StickerMessageSchema = MediaObjectSchema.extend({
+  animated: z.boolean().optional(),
+});
+
+const LocationMessageSchema = z.object({
+  latitude: z.number(),
+  longitude: z.number(),
+  name: z.string().optional(),
+  address: z.string().optional(),
+  url: z.string().optional(),
+});
+
+// Shared contact cards (type: 'contacts')
+const SharedContactSchema = z.object({
+  name: z.object({
+    formatted_name: z.string(),
+    first_name: z.string().optional(),
+    last_name: z.string().optional(),
+  }),
+  phones: z.array(z.object({
+    phone: z.string().optional(),
+    wa_id: z.string().optional(),
+    type: z.string().optional(),
+  })).optional(),
+  emails: z.array(z.object({
+    email: z.string().optional(),
+    type: z.string().optional(),
+  })).optional(),
+});
+
+// Replies to interactive messages we sent (reply buttons, lists, flows).
+// type stays open: a subtype not listed here is stored as unsupported, not rejected
+const InteractiveMessageSchema = z.object({
+  type: z.string(),
+  button_reply: z.object({
+    id: z.string(),
+    title: z.string(),
+  }).optional(),
+  list_reply: z.object({
+    id: z.string(),
+    title: z.string(),
+    description: z.string().optional(),
+  }).optional(),
+  nfm_reply: z.object({
+    name: z.string().optional(),
+    body: z.string().optional(),
+    response_json: z.string(),
+  }).optional(),
+});
+
+// Quick-reply button on a template message
+const ButtonMessageSchema = z.object({
+  payload: z.string(),
+  text: z.string(),
+});
+
+const ReactionMessageSchema = z.object({
+  message_id: z.string(), // wamid of the message reacted to
+  emoji: z.string().optional(), // absent when the reaction is removed
+});
+
+// Cart sent from the WhatsApp catalog
+const OrderMessageSchema = z.object({
+  catalog_id: z.string(),
+  text: z.string().optional(),
+  product_items: z.array(z.object({
+    product_retailer_id: z.string(),
+    quantity: z.coerce.number(),
+    item_price: z.coerce.number(),
+    currency: z.string(),
+  })),
+});
+
+const SystemMessageSchema = z.object({
+  body: z.string(),
+  type: z.string().optional(),
+  wa_id: z.string().optional(),
+  new_wa_id: z.string().optional(),
+});
+
+// Present when the customer replies to (quotes) a message or taps "Message business" on a product
+const MessageContextSchema = z.object({
+  from: z.string().optional(),
+  id: z.string().optional(),
+  forwarded: z.boolean().optional(),
+  frequently_forwarded: z.boolean().optional(),
+  referred_product: z.object({
+    catalog_id: z.string(),
+    product_retailer_id: z.string(),
+  }).optional(),
+});
+
+const MessageErrorSchema = z.object({
+  code: z.number(),
+  title: z.string().optional(),
+  message: z.string().optional(),
+});
+
+export const MESSAGE_TYPES = [
+  'text', 'image', 'audio', 'video', 'document', 'sticker', 'location', 'contacts',
+  'interactive', 'button', 'reaction', 'order', 'system', 'unknown', 'unsupported',
+] as const;
+
 const MessageSchema = z.object({
   from: z.string(),
   id: z.string(),
   timestamp: z.string(),
-  type: z.enum(['text', 'image', 'audio', 'video', 'document', 'sticker', 'location', 'contacts', 'interactive', 'button', 'reaction', 'order', 'system', 'unknown']),
+  type: z.enum(MESSAGE_TYPES),
+  context: MessageContextSchema.optional(),
   text: TextMessageSchema.optional(),
   image: ImageMessageSchema.optional(),
-  // Add more message types as needed
+  audio: AudioMessageSchema.optional(),
+  video: VideoMessageSchema.optional(),
+  document: DocumentMessageSchema.optional(),
+  sticker: StickerMessageSchema.optional(),
+  location: LocationMessageSchema.optional(),
+  contacts: z.array(SharedContactSchema).optional(),
+  interactive: InteractiveMessageSchema.optional(),
+  button: ButtonMessageSchema.optional(),
+  reaction: ReactionMessageSchema.optional(),
+  order: OrderMessageSchema.optional(),
+  system: SystemMessageSchema.optional(),
+  errors: z.array(MessageErrorSchema).optional(), // type 'unsupported' / 'unknown'
+});
+
+// Delivery status callbacks for messages we sent
+// Reference: https://developers.facebook.com/docs/whatsapp/cloud-api/webhooks/payload-examples#message-status-updates
+
+const StatusErrorSchema = z.object({
+  code: z.number(),
+  title: z.string().optional(),
+  message: z.string().optional(),
+  error_data: z.object({
+    details: z.string(),
+  }).optional(),
+});
+
+export const StatusSchema = z.object({
+  id: z.string(), // wamid of the outbound message
+  status: z.enum(['sent', 'delivered', 'read', 'failed']),
+  timestamp: z.string(),
+  recipient_id: z.string(),
+  conversation: z.object({
+    id: z.string(),
+    origin: z.object({ type: z.string() }).optional(),
+    expiration_timestamp: z.string().optional(),
+  }).optional(),
+  pricing: z.object({
+    billable: z.boolean().optional(),
+    pricing_model: z.string().optional(),
+    category: z.string().optional(),
+  }).optional(),
+  errors: z.array(StatusErrorSchema).optional(),
 });
 
 const MetadataSchema = z.object({
@@ -41,7 +203,8 @@ const ValueSchema = z.object({
   metadata: MetadataSchema,
   contacts: z.array(ContactSchema).optional(),
   messages: z.array(MessageSchema).optional(),
-  statuses: z.array(z.any()).optional(), // Status updates (delivered, read, etc.)
+  // Parsed one by one with StatusSchema: an unexpected status must not reject the messages
+  statuses: z.array(z.unknown()).optional(),
 });
 
 const ChangeSchema = z.object({
@@ -62,6 +225,9 @@ export const WhatsAppWebhookSchema = z.object({
 export type WhatsAppWebhook = z.infer<typeof WhatsAppWebhookSchema>;
 export type WhatsAppMessage = z.infer<typeof MessageSchema>;
 export type WhatsAppContact = z.infer<typeof ContactSchema>;
+export type WhatsAppStatus = z.infer<typeof StatusSchema>;
+export type WhatsAppMessageType = WhatsAppMessage['type'];
+export type WhatsAppMediaObject = z.infer<typeof MediaObjectSchema>;
 
 // Verification request query params
 export const WebhookVerifySchema = z.object({
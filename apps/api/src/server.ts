@@ -4,10 +4,15 @@ import cors from '@fastify/cors';
 import rateLimit from '@fastify/rate-limit';
 import { config } from './lib/config.js';
 import { logger } from './lib/logger.js';
+import { renderPrometheusMetrics } from './lib/metrics.js';
 import { webhookRoutes } from './routes/webhooks.js';
 import { paymentsRoutes } from './routes/payments.js';
 import { ordersRoutes } from './routes/orders.js';
 import { debugRoutes } from './routes/debug.js';
+import { mediaRoutes } from './routes/media.js';
+import { conversationsRoutes } from './routes/conversations.js';
+import { startInboundWorker, stopInboundWorker } from './services/inbound/worker.js';
+import { startSessionScheduler, stopSessionScheduler } from './services/session-scheduler.js';
 
 async function buildApp() {
   const app = Fastify({
@@ -30,6 +35,11 @@ async function buildApp() {
     return { status: 'ok', timestamp: new Date().toISOString() };
   });
 
+  // Metrics (Prometheus text format)
+  app.get('/metrics', async (request, reply) => {
+    return reply.type('text/plain; version=0.0.4').send(renderPrometheusMetrics());
+  });
+
   // Privacy policy (required by Meta for WhatsApp Business)
   app.get('/privacy', async (request, reply) => {
     return reply.type('text/html').send(`<!DOCTYPE html>
@@ -43,6 +53,14 @@ async function buildApp() {
   await app.register(paymentsRoutes, { prefix: '/api/payments' });
   await app.register(ordersRoutes, { prefix: '/api/orders' });
   await app.register(debugRoutes, { prefix: '/api/debug' });
+  await app.register(mediaRoutes, { prefix: '/api/media' });
+  await app.register(conversationsRoutes, { prefix: '/api/conversations' });
+
+  // Let the inbound worker and session scheduler finish their current batch before exiting
+  app.addHook('onClose', async () => {
+    await stopInboundWorker();
+    await stopSessionScheduler();
+  });
 
   return app;
 }
@@ -53,6 +71,14 @@ async function start() {
   try {
     await app.listen({ port: config.API_PORT, host: '0.0.0.0' });
     logger.info(`Server listening on port ${config.API_PORT}`);
+
+    if (config.INBOUND_WORKER_ENABLED) {
+      startInboundWorker(logger);
+    }
+
+    if (config.SESSION_SCHEDULER_ENABLED) {
+      startSessionScheduler(logger);
+    }
   } catch (err: any) {
     if (err.code === 'EADDRINUSE') {
       logger.error(`Port ${config.API_PORT} is already in use.`);
@@ -63,6 +89,14 @@ async function start() {
     }
     process.exit(1);
   }
+
+  for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+    process.once(signal, async () => {
+      logger.info({ signal }, 'Shutting down');
+      await app.close();
+      process.exit(0);
+    });
+  }
 }
 
 start();
@@ -1,17 +1,13 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
-import { config } from '../lib/config.js';
 import type { AppLogger } from '../lib/types.js';
-
-// Only initialize if API key is available
-const genAI = config.GEMINI_API_KEY
-  ? new GoogleGenerativeAI(config.GEMINI_API_KEY)
-  : null;
+import { generateWithProvider, getLlmProvider } from './llm-providers/provider.js';
 
 interface AIReplyParams {
   customerName: string | null;
   messageBody: string | null;
   conversationHistory: Array<{ direction: string; body: string | null }>;
   products: Array<{ name: string; price: number; description: string | null }>;
+  /** Name the seller introduces itself with (channel agent profile) */
+  businessName?: string;
   log: AppLogger;
 }
 
@@ -63,7 +59,7 @@ function detectConversationPhase(
 }
 
 export async function generateAIReply(params: AIReplyParams): Promise<string> {
-  const { customerName, messageBody, conversationHistory, products, log } = params;
+  const { customerName, messageBody, conversationHistory, products, businessName = 'AutoVentas', log } = params;
 
   if (!messageBody) {
     return '¿Qué producto te interesa hoy?';
@@ -72,9 +68,10 @@ export async function generateAIReply(params: AIReplyParams): Promise<string> {
   const phase = detectConversationPhase(messageBody, conversationHistory);
   log.debug({ phase, messageBody }, 'Detected conversation phase');
 
-  // If no API key, return phase-appropriate mock responses
-  if (!genAI) {
-    log.warn('GEMINI_API_KEY not set, using mock AI response');
+  // Without a provider, return phase-appropriate mock responses
+  const provider = getLlmProvider();
+  if (!provider) {
+    log.warn('LLM provider not configured, using mock AI response');
     return getMockResponse(phase, customerName, products);
   }
 
@@ -89,7 +86,7 @@ export async function generateAIReply(params: AIReplyParams): Promise<string> {
     .map((m) => `${m.direction === 'in' ? 'C' : 'V'}: ${m.body || ''}`)
     .join('\n');
 
-  const systemPrompt = `Eres vendedor de AutoVentas. OBJETIVO: cerrar ventas rápido.
+  const systemPrompt = `Eres vendedor de ${businessName}. OBJETIVO: cerrar ventas rápido.
 
 REGLAS ESTRICTAS:
 1. Máximo 2 oraciones por respuesta
@@ -121,28 +118,27 @@ FASE ACTUAL: ${phase.toUpperCase()}`;
 
   const userPrompt = `Cliente${customerName ? ` (${customerName})` : ''}: "${messageBody}"`;
 
-  try {
-    const model = genAI.getGenerativeModel({ model: 'gemini-2.0-flash' });
-
-    const result = await model.generateContent({
-      contents: [
-        { role: 'user', parts: [{ text: systemPrompt + '\n\n' + userPrompt }] },
-      ],
-      generationConfig: {
-        maxOutputTokens: 100, // Shorter responses
-        temperature: 0.5, // More consistent
-      },
-    });
-
-    const response = result.response.text();
-    log.debug({ response, phase }, 'AI response generated');
-
-    return response.trim();
-  } catch (error) {
-    log.error({ error }, 'Gemini API error');
+  const result = await generateWithProvider(
+    provider,
+    {
+      system: systemPrompt,
+      prompt: userPrompt,
+      maxOutputTokens: 100, // Shorter responses
+      temperature: 0.5, // More consistent
+      purpose: 'sales_agent',
+    },
+    { log }
+  );
+
+  if (!result.ok) {
+    log.error({ error: result.error, attempts: result.attempts }, 'LLM API error');
     // Fallback to mock on error
     return getMockResponse(phase, customerName, products);
   }
+
+  log.debug({ response: result.text, phase }, 'AI response generated');
+
+  return result.text.trim();
 }
 
 // Mock responses by conversation phase
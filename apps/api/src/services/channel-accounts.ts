@@ -0,0 +1,131 @@
+/**
+ * Channel accounts
+ *
+ * Maps the business number a customer wrote to (webhook
+ * value.metadata.phone_number_id) to its tenant, credentials, catalog and
+ * agent profile. Without a registry row the number falls back to the
+ * single-number setup from the environment (TENANT_ID,
+ * WHATSAPP_PHONE_NUMBER_ID, WHATSAPP_ACCESS_TOKEN).
+ */
+
+import { z } from 'zod';
+import { supabaseAdmin } from '../lib/supabase.js';
+import { config } from '../lib/config.js';
+import { MessageTemplateOverridesSchema } from '../agent_v2/index.js';
+import type { WhatsAppCredentials } from './whatsapp-client.js';
+
+const AgentProfileSchema = z.object({
+  /** Overrides INBOUND_RESPONDER for this line */
+  responder: z.enum(['rules', 'gemini', 'agent_v2']).optional(),
+  /** Business name the sales agent introduces itself with */
+  business_name: z.string().min(1).optional(),
+  /** Agent V2 catalog, cart and payment texts; unset keys use the defaults */
+  templates: MessageTemplateOverridesSchema.optional(),
+});
+
+export type AgentProfile = z.infer<typeof AgentProfileSchema>;
+
+export interface ChannelAccount {
+  /** channel_accounts.id, null for the environment default */
+  id: string | null;
+  tenantId: string;
+  /** null only for the environment default when WHATSAPP_PHONE_NUMBER_ID is unset (mock mode) */
+  phoneNumberId: string | null;
+  label: string | null;
+  credentials: WhatsAppCredentials;
+  catalog: string | null;
+  agentProfile: AgentProfile;
+}
+
+// Registry rows rarely change; avoid a lookup per message
+const CACHE_TTL_MS = 60_000;
+const cache = new Map<string, { account: ChannelAccount | null; expiresAt: number }>();
+
+/**
+ * The single number configured through the environment.
+ */
+export function getDefaultChannelAccount(): ChannelAccount {
+  return {
+    id: null,
+    tenantId: config.TENANT_ID,
+    phoneNumberId: config.WHATSAPP_PHONE_NUMBER_ID || null,
+    label: null,
+    credentials: {
+      phoneNumberId: config.WHATSAPP_PHONE_NUMBER_ID || null,
+      accessToken: config.WHATSAPP_ACCESS_TOKEN || null,
+    },
+    catalog: null,
+    agentProfile: {},
+  };
+}
+
+/**
+ * Resolves the account for a business number.
+ *
+ * Returns null for numbers that are registered but inactive, or unknown while
+ * a different WHATSAPP_PHONE_NUMBER_ID is configured: those messages must not
+ * be answered on behalf of another tenant. Throws on lookup errors.
+ */
+export async function resolveChannelAccount(phoneNumberId: string | null | undefined): Promise<ChannelAccount | null> {
+  // Messages queued before channel accounts existed, debug simulator
+  if (!phoneNumberId) {
+    return getDefaultChannelAccount();
+  }
+
+  const cached = cache.get(phoneNumberId);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.account;
+  }
+
+  const account = await loadChannelAccount(phoneNumberId);
+  cache.set(phoneNumberId, { account, expiresAt: Date.now() + CACHE_TTL_MS });
+  return account;
+}
+
+/**
+ * Credentials to send from a business number (outbound_messages.phone_number_id).
+ */
+export async function getSenderCredentials(phoneNumberId: string | null): Promise<WhatsAppCredentials | null> {
+  const account = await resolveChannelAccount(phoneNumberId);
+  return account?.credentials ?? null;
+}
+
+async function loadChannelAccount(phoneNumberId: string): Promise<ChannelAccount | null> {
+  const { data, error } = await supabaseAdmin
+    .from('channel_accounts')
+    .select('id, tenant_id, phone_number_id, label, access_token, catalog, agent_profile, is_active')
+    .eq('phone_number_id', phoneNumberId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load channel account: ${error.message}`);
+  }
+
+  if (!data) {
+    const fallback = getDefaultChannelAccount();
+    if (!config.WHATSAPP_PHONE_NUMBER_ID || config.WHATSAPP_PHONE_NUMBER_ID === phoneNumberId) {
+      return { ...fallback, phoneNumberId, credentials: { ...fallback.credentials, phoneNumberId } };
+    }
+    return null;
+  }
+
+  if (!data.is_active) {
+    return null;
+  }
+
+  const profile = AgentProfileSchema.safeParse(data.agent_profile ?? {});
+
+  return {
+    id: data.id,
+    tenantId: data.tenant_id,
+    phoneNumberId: data.phone_number_id,
+    label: data.label,
+    credentials: {
+      phoneNumberId: data.phone_number_id,
+      accessToken: data.access_token || config.WHATSAPP_ACCESS_TOKEN || null,
+    },
+    catalog: data.catalog,
+    // An invalid profile is ignored rather than blocking the line
+    agentProfile: profile.success ? profile.data : {},
+  };
+}
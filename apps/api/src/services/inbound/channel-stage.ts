@@ -0,0 +1,24 @@
+import { resolveChannelAccount } from '../channel-accounts.js';
+import type { PipelineStage } from './types.js';
+
+/**
+ * Resolves the business number the customer wrote to. Everything downstream
+ * (tenant, catalog, agent profile, the number the reply is sent from) follows
+ * from it. Messages to inactive or unknown numbers are not processed.
+ */
+export const channelStage: PipelineStage = {
+  name: 'resolve_channel',
+
+  async run(ctx) {
+    const account = await resolveChannelAccount(ctx.input.phoneNumberId);
+
+    if (!account) {
+      ctx.log.warn({ phoneNumberId: ctx.input.phoneNumberId }, 'Message for an unknown or inactive business number');
+      ctx.halted = { stage: 'resolve_channel', reason: 'unknown_channel' };
+      return;
+    }
+
+    ctx.channel = account;
+    ctx.tenantId = account.tenantId;
+  },
+};
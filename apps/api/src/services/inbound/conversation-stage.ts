@@ -0,0 +1,158 @@
+import { supabaseAdmin } from '../../lib/supabase.js';
+import type { AppLogger } from '../../lib/types.js';
+import type { InboundContext, PipelineStage } from './types.js';
+
+// Conversations stay open for 24h after the last message
+const CONVERSATION_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Upserts the contact and finds (or opens) the active conversation on the
+ * business number the customer wrote to.
+ */
+export const conversationStage: PipelineStage = {
+  name: 'resolve_conversation',
+
+  async run(ctx) {
+    if (ctx.dryRun) {
+      await lookupConversation(ctx);
+      return;
+    }
+
+    const { data: dbContact, error: contactError } = await supabaseAdmin
+      .from('contacts')
+      .upsert(
+        {
+          tenant_id: ctx.tenantId,
+          wa_phone: ctx.waPhone,
+          name: ctx.contactName,
+          tags: [],
+          metadata: {},
+        },
+        {
+          onConflict: 'tenant_id,wa_phone',
+          ignoreDuplicates: false,
+        }
+      )
+      .select()
+      .single();
+
+    if (contactError || !dbContact) {
+      ctx.log.error({ error: contactError }, 'Failed to upsert contact');
+      throw new Error(`Failed to upsert contact: ${contactError?.message ?? 'no row returned'}`);
+    }
+
+    ctx.contactId = dbContact.id;
+
+    const phoneNumberId = ctx.channel?.phoneNumberId ?? null;
+    const conversation =
+      (await findActiveConversation(ctx.tenantId, dbContact.id, phoneNumberId, ctx.log)) ||
+      (await createConversation(ctx.tenantId, dbContact.id, phoneNumberId, ctx.log));
+
+    if (!conversation) {
+      ctx.log.error('Failed to get or create conversation');
+      throw new Error('Failed to get or create conversation');
+    }
+
+    ctx.conversationId = conversation.id;
+  },
+};
+
+/**
+ * Dry run: resolve the existing contact/conversation without creating either.
+ * A replayed message resolves to the conversation it was originally stored in.
+ */
+async function lookupConversation(ctx: InboundContext): Promise<void> {
+  const { data: storedMessage } = await supabaseAdmin
+    .from('messages')
+    .select('conversation_id, conversations!inner (contact_id)')
+    .eq('tenant_id', ctx.tenantId)
+    .eq('wa_message_id', ctx.input.message.id)
+    .limit(1)
+    .maybeSingle();
+
+  if (storedMessage) {
+    const conversation = storedMessage.conversations as unknown as { contact_id: string };
+    ctx.contactId = conversation.contact_id;
+    ctx.conversationId = storedMessage.conversation_id;
+    return;
+  }
+
+  const { data: dbContact } = await supabaseAdmin
+    .from('contacts')
+    .select('id')
+    .eq('tenant_id', ctx.tenantId)
+    .eq('wa_phone', ctx.waPhone)
+    .maybeSingle();
+
+  if (!dbContact) {
+    return;
+  }
+
+  ctx.contactId = dbContact.id;
+  const conversation = await findActiveConversation(
+    ctx.tenantId,
+    dbContact.id,
+    ctx.channel?.phoneNumberId ?? null,
+    ctx.log
+  );
+  ctx.conversationId = conversation?.id ?? null;
+}
+
+async function findActiveConversation(
+  tenantId: string,
+  contactId: string,
+  phoneNumberId: string | null,
+  log: AppLogger
+): Promise<{ id: string } | null> {
+  const cutoff = new Date(Date.now() - CONVERSATION_WINDOW_MS).toISOString();
+
+  let query = supabaseAdmin
+    .from('conversations')
+    .select('id')
+    .eq('contact_id', contactId)
+    .eq('tenant_id', tenantId);
+
+  // Conversations from before channel accounts have no number; they simply
+  // age out of the window and the customer continues in a new one
+  query = phoneNumberId ? query.eq('phone_number_id', phoneNumberId) : query.is('phone_number_id', null);
+
+  const { data, error } = await query
+    .gte('last_message_at', cutoff)
+    .order('last_message_at', { ascending: false })
+    .limit(1)
+    .single();
+
+  if (error && error.code !== 'PGRST116') {
+    // PGRST116 = no rows found
+    log.error({ error }, 'Error finding conversation');
+  }
+
+  return data;
+}
+
+async function createConversation(
+  tenantId: string,
+  contactId: string,
+  phoneNumberId: string | null,
+  log: AppLogger
+): Promise<{ id: string } | null> {
+  const { data, error } = await supabaseAdmin
+    .from('conversations')
+    .insert({
+      tenant_id: tenantId,
+      contact_id: contactId,
+      status: 'active',
+      channel: 'whatsapp',
+      phone_number_id: phoneNumberId,
+      last_message_at: new Date().toISOString(),
+    })
+    .select('id')
+    .single();
+
+  if (error) {
+    log.error({ error }, 'Failed to create conversation');
+    return null;
+  }
+
+  return data;
+}
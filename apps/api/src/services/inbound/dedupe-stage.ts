@@ -0,0 +1,53 @@
+import { supabaseAdmin } from '../../lib/supabase.js';
+import type { PipelineStage } from './types.js';
+
+/**
+ * Stores the raw webhook event keyed by `wa:<message id>` and halts on duplicates.
+ * Skipped for replays.
+ */
+export const dedupeStage: PipelineStage = {
+  name: 'dedupe',
+
+  async run(ctx) {
+    const { message, payload } = ctx.input;
+    const dedupeKey = `wa:${message.id}`;
+
+    // Replays re-run events that are already stored
+    if (ctx.dryRun || ctx.input.replay) {
+      return;
+    }
+
+    const { data: existingEvent } = await supabaseAdmin
+      .from('webhook_events')
+      .select('id')
+      .eq('dedupe_key', dedupeKey)
+      .single();
+
+    if (existingEvent) {
+      // A retried job already stored its own event on an earlier attempt
+      if ((ctx.input.attempt ?? 1) > 1) {
+        return;
+      }
+
+      ctx.log.debug({ messageId: message.id }, 'Duplicate webhook event, skipping');
+      ctx.halted = { stage: 'dedupe', reason: 'duplicate' };
+      return;
+    }
+
+    const { error: eventError } = await supabaseAdmin
+      .from('webhook_events')
+      .insert({
+        tenant_id: ctx.tenantId,
+        source: 'whatsapp',
+        event_type: 'message',
+        dedupe_key: dedupeKey,
+        payload,
+        received_at: new Date().toISOString(),
+      });
+
+    if (eventError) {
+      ctx.log.error({ error: eventError }, 'Failed to store webhook event');
+      throw new Error(`Failed to store webhook event: ${eventError.message}`);
+    }
+  },
+};
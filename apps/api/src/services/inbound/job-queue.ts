@@ -0,0 +1,311 @@
+import { supabaseAdmin } from '../../lib/supabase.js';
+import { config } from '../../lib/config.js';
+import type { AppLogger } from '../../lib/types.js';
+import { resolveChannelAccount } from '../channel-accounts.js';
+import type { InboundMessageInput } from './types.js';
+
+export type InboundJobStatus = 'pending' | 'processing' | 'done' | 'dead';
+
+export interface InboundJob {
+  id: string;
+  created_at: string;
+  updated_at: string;
+  wa_message_id: string;
+  ordering_key: string;
+  message_timestamp: string;
+  payload: InboundMessageInput;
+  status: InboundJobStatus;
+  attempts: number;
+  max_attempts: number;
+  run_at: string;
+  locked_by: string | null;
+  locked_until: string | null;
+  last_error: string | null;
+  completed_at: string | null;
+  dead_at: string | null;
+}
+
+// Retry delays: 5s, 10s, 20s, ... capped at 15 minutes
+const BACKOFF_BASE_MS = 5_000;
+const BACKOFF_MAX_MS = 15 * 60 * 1000;
+
+/**
+ * Delay before the next attempt after `attempts` failed attempts.
+ */
+export function getRetryDelayMs(attempts: number): number {
+  return Math.min(BACKOFF_BASE_MS * 2 ** Math.max(attempts - 1, 0), BACKOFF_MAX_MS);
+}
+
+/**
+ * Jobs with the same key are processed one at a time, in message timestamp order.
+ * A customer writing to two business numbers has two independent conversations.
+ */
+export function getOrderingKey(input: InboundMessageInput): string {
+  return input.phoneNumberId
+    ? `wa:${input.phoneNumberId}:${input.message.from}`
+    : `wa:${input.message.from}`;
+}
+
+/**
+ * Persists an inbound message as a job. Meta redelivers the same message id on
+ * timeouts, so an existing job for that id is reported as a duplicate.
+ *
+ * The job is recorded under the tenant of the line the customer wrote to.
+ * Unregistered or inactive numbers keep the environment tenant; the channel
+ * stage halts those messages anyway.
+ */
+export async function enqueueInboundJob(
+  input: InboundMessageInput,
+  log: AppLogger
+): Promise<{ ok: true; jobId: string | null; duplicate: boolean } | { ok: false; error: string }> {
+  const orderingKey = getOrderingKey(input);
+
+  let tenantId: string;
+  try {
+    const account = await resolveChannelAccount(input.phoneNumberId);
+    tenantId = account?.tenantId ?? config.TENANT_ID;
+  } catch (error) {
+    log.error({ error, waMessageId: input.message.id }, 'Failed to resolve channel account for inbound job');
+    return { ok: false, error: error instanceof Error ? error.message : String(error) };
+  }
+
+  const runAt = new Date(
+    Date.now() + Math.max(config.INBOUND_REORDER_WINDOW_MS, config.INBOUND_COALESCE_WINDOW_MS)
+  ).toISOString();
+
+  const { data, error } = await supabaseAdmin
+    .from('inbound_jobs')
+    .upsert(
+      {
+        tenant_id: tenantId,
+        wa_message_id: input.message.id,
+        ordering_key: orderingKey,
+        message_timestamp: new Date(Number(input.message.timestamp) * 1000).toISOString(),
+        payload: input,
+        status: 'pending',
+        run_at: runAt,
+        max_attempts: config.INBOUND_JOB_MAX_ATTEMPTS,
+      },
+      {
+        onConflict: 'wa_message_id',
+        ignoreDuplicates: true,
+      }
+    )
+    .select('id');
+
+  if (error) {
+    log.error({ error, waMessageId: input.message.id }, 'Failed to enqueue inbound job');
+    return { ok: false, error: error.message };
+  }
+
+  const jobId = data?.[0]?.id ?? null;
+
+  if (jobId && config.INBOUND_COALESCE_WINDOW_MS > 0) {
+    await postponeBurst(orderingKey, runAt, log);
+  }
+
+  return { ok: true, jobId, duplicate: jobId === null };
+}
+
+/**
+ * Debounce: a new fragment pushes the customer's waiting fragments back to its
+ * own run_at, so the burst becomes due (and is coalesced) together. Fragments
+ * older than INBOUND_COALESCE_MAX_WAIT_MS are left alone so a chatty customer
+ * still gets answers.
+ */
+async function postponeBurst(orderingKey: string, runAt: string, log: AppLogger): Promise<void> {
+  const oldestPostponable = new Date(Date.now() - config.INBOUND_COALESCE_MAX_WAIT_MS).toISOString();
+
+  const { error } = await supabaseAdmin
+    .from('inbound_jobs')
+    .update({ run_at: runAt, updated_at: new Date().toISOString() })
+    .eq('ordering_key', orderingKey)
+    .eq('status', 'pending')
+    .eq('attempts', 0)
+    .lt('run_at', runAt)
+    .gt('created_at', oldestPostponable);
+
+  // Not fatal: the fragments are then answered separately
+  if (error) {
+    log.warn({ error, orderingKey }, 'Failed to postpone inbound burst');
+  }
+}
+
+/**
+ * Claims due jobs for this worker (see claim_inbound_jobs in the migration).
+ */
+export async function claimInboundJobs(workerId: string, limit: number): Promise<InboundJob[]> {
+  const { data, error } = await supabaseAdmin.rpc('claim_inbound_jobs', {
+    p_worker_id: workerId,
+    p_limit: limit,
+    p_lease_seconds: config.INBOUND_JOB_LEASE_SECONDS,
+  });
+
+  if (error) {
+    throw new Error(`Failed to claim inbound jobs: ${error.message}`);
+  }
+
+  return (data || []) as InboundJob[];
+}
+
+/**
+ * Claims the rest of a burst once the caller holds its head job.
+ */
+export async function claimCoalescedJobs(workerId: string, orderingKey: string): Promise<InboundJob[]> {
+  const { data, error } = await supabaseAdmin.rpc('claim_coalesced_inbound_jobs', {
+    p_worker_id: workerId,
+    p_ordering_key: orderingKey,
+    p_lease_seconds: config.INBOUND_JOB_LEASE_SECONDS,
+  });
+
+  if (error) {
+    throw new Error(`Failed to claim coalesced inbound jobs: ${error.message}`);
+  }
+
+  return (data || []) as InboundJob[];
+}
+
+/**
+ * Pushes locked_until forward for jobs this worker still holds, so a long
+ * turn isn't reclaimed by another instance. Returns the ids still held.
+ */
+export async function extendInboundJobLease(jobs: InboundJob[], workerId: string): Promise<string[]> {
+  const now = new Date();
+
+  const { data, error } = await supabaseAdmin
+    .from('inbound_jobs')
+    .update({
+      locked_until: new Date(now.getTime() + config.INBOUND_JOB_LEASE_SECONDS * 1000).toISOString(),
+      updated_at: now.toISOString(),
+    })
+    .in('id', jobs.map((job) => job.id))
+    .eq('locked_by', workerId)
+    .eq('status', 'processing')
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to extend inbound job lease: ${error.message}`);
+  }
+
+  return (data || []).map((row) => row.id as string);
+}
+
+export async function completeInboundJob(job: InboundJob, log: AppLogger): Promise<void> {
+  const now = new Date().toISOString();
+
+  const { data, error } = await supabaseAdmin
+    .from('inbound_jobs')
+    .update({
+      status: 'done',
+      completed_at: now,
+      locked_by: null,
+      locked_until: null,
+      updated_at: now,
+    })
+    .eq('id', job.id)
+    .eq('locked_by', job.locked_by)
+    .select('id');
+
+  if (error) {
+    log.error({ error, jobId: job.id }, 'Failed to mark inbound job as done');
+  } else if (!data || data.length === 0) {
+    // The lease expired and another worker reclaimed the job: it may be answered twice
+    log.error({ jobId: job.id, workerId: job.locked_by }, 'Inbound job lease lost before completion');
+  }
+}
+
+/**
+ * Records a failed attempt: schedules a retry with exponential backoff, or
+ * moves the job to the dead-letter state once max_attempts is reached.
+ */
+export async function failInboundJob(
+  job: InboundJob,
+  errorMessage: string,
+  log: AppLogger
+): Promise<InboundJobStatus> {
+  const now = new Date();
+  const isDead = job.attempts >= job.max_attempts;
+
+  const update = isDead
+    ? { status: 'dead', dead_at: now.toISOString() }
+    : { status: 'pending', run_at: new Date(now.getTime() + getRetryDelayMs(job.attempts)).toISOString() };
+
+  const { data, error } = await supabaseAdmin
+    .from('inbound_jobs')
+    .update({
+      ...update,
+      last_error: errorMessage,
+      locked_by: null,
+      locked_until: null,
+      updated_at: now.toISOString(),
+    })
+    .eq('id', job.id)
+    .eq('locked_by', job.locked_by)
+    .select('id');
+
+  if (error) {
+    log.error({ error, jobId: job.id }, 'Failed to record inbound job failure');
+  } else if (!data || data.length === 0) {
+    log.error({ jobId: job.id, workerId: job.locked_by }, 'Inbound job lease lost before recording failure');
+  }
+
+  return update.status as InboundJobStatus;
+}
+
+/**
+ * Puts a dead (or backing-off) job back in the queue with a fresh attempt budget.
+ */
+export async function requeueInboundJob(
+  jobId: string,
+  log: AppLogger
+): Promise<{ ok: true } | { ok: false; error: string }> {
+  const now = new Date().toISOString();
+
+  const { data, error } = await supabaseAdmin
+    .from('inbound_jobs')
+    .update({
+      status: 'pending',
+      attempts: 0,
+      run_at: now,
+      dead_at: null,
+      updated_at: now,
+    })
+    .eq('id', jobId)
+    .in('status', ['dead', 'pending'])
+    .select('id');
+
+  if (error) {
+    log.error({ error, jobId }, 'Failed to requeue inbound job');
+    return { ok: false, error: error.message };
+  }
+
+  if (!data || data.length === 0) {
+    return { ok: false, error: 'Job not found or not requeueable' };
+  }
+
+  log.info({ jobId }, 'Inbound job requeued');
+  return { ok: true };
+}
+
+export async function listInboundJobs(params: {
+  status?: InboundJobStatus;
+  limit?: number;
+}): Promise<InboundJob[]> {
+  let query = supabaseAdmin
+    .from('inbound_jobs')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .limit(params.limit ?? 50);
+
+  if (params.status) {
+    query = query.eq('status', params.status);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to list inbound jobs: ${error.message}`);
+  }
+
+  return (data || []) as InboundJob[];
+}
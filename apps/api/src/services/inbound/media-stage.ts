@@ -0,0 +1,36 @@
+import { storeInboundMedia } from '../media/media-service.js';
+import type { PipelineStage } from './types.js';
+
+// Payment proofs arrive as photos or PDFs; other media stay as references only
+const DOWNLOADED_MEDIA_TYPES = new Set(['image', 'document']);
+
+/**
+ * Downloads inbound images and documents into media storage so the merchant
+ * can see them (e.g. payment receipts). Failures are recorded, never fatal.
+ */
+export const mediaStage: PipelineStage = {
+  name: 'media',
+
+  async run(ctx) {
+    const { content } = ctx.normalized;
+
+    if (ctx.dryRun || content.kind !== 'media' || !DOWNLOADED_MEDIA_TYPES.has(content.media_type)) {
+      return;
+    }
+
+    const asset = await storeInboundMedia(
+      {
+        mediaId: content.media_id,
+        expectedSha256: content.sha256,
+        mimeType: content.mime_type,
+        filename: content.filename,
+        messageId: ctx.storedMessageId,
+        tenantId: ctx.tenantId,
+        credentials: ctx.channel?.credentials,
+      },
+      ctx.log
+    );
+
+    ctx.mediaAssetId = asset?.status === 'stored' ? asset.id : null;
+  },
+};
@@ -0,0 +1,304 @@
+import type { WhatsAppMessage, WhatsAppMediaObject } from '../../schemas/whatsapp.js';
+
+// =============================================================================
+// Structured content stored in messages.content
+// =============================================================================
+
+export type MediaType = 'image' | 'audio' | 'video' | 'document' | 'sticker';
+
+export type MessageContent =
+  | { kind: 'text'; text: string }
+  | {
+      kind: 'media';
+      media_type: MediaType;
+      media_id: string;
+      mime_type: string;
+      sha256: string | null;
+      caption: string | null;
+      filename: string | null;
+      voice: boolean;
+    }
+  | {
+      kind: 'location';
+      latitude: number;
+      longitude: number;
+      name: string | null;
+      address: string | null;
+      url: string | null;
+    }
+  | { kind: 'contacts'; contacts: Array<{ name: string; phones: string[]; wa_ids: string[] }> }
+  | {
+      /** Customer tapped a reply button, list row or template quick-reply */
+      kind: 'reply';
+      source: 'button_reply' | 'list_reply' | 'template_button';
+      reply_id: string;
+      title: string;
+      description: string | null;
+    }
+  | { kind: 'flow_reply'; name: string | null; response: unknown }
+  | { kind: 'reaction'; target_wa_message_id: string; emoji: string | null }
+  | {
+      kind: 'order';
+      catalog_id: string;
+      text: string | null;
+      items: Array<{ product_retailer_id: string; quantity: number; item_price: number; currency: string }>;
+    }
+  | { kind: 'system'; system_type: string | null; body: string; new_wa_id: string | null }
+  | { kind: 'unsupported'; errors: Array<{ code: number; title: string | null }> };
+
+export interface MessageReference {
+  /** wamid of the message the customer quoted, if any */
+  reply_to_wa_message_id: string | null;
+  forwarded: boolean;
+  referred_product: { catalog_id: string; product_retailer_id: string } | null;
+}
+
+export interface NormalizedMessage {
+  type: WhatsAppMessage['type'];
+  /** Human-readable text for history, rules and LLM prompts */
+  body: string | null;
+  content: MessageContent;
+  context: MessageReference | null;
+}
+
+// =============================================================================
+// Normalization
+// =============================================================================
+
+/**
+ * Converts a raw WhatsApp message into a readable body plus typed content.
+ * A message whose payload object is missing is treated as unsupported.
+ */
+export function normalizeMessage(message: WhatsAppMessage): NormalizedMessage {
+  const { body, content } = normalizeContent(message);
+
+  return {
+    type: message.type,
+    body,
+    content,
+    context: normalizeContext(message),
+  };
+}
+
+function normalizeContent(message: WhatsAppMessage): { body: string | null; content: MessageContent } {
+  switch (message.type) {
+    case 'text':
+      if (!message.text) break;
+      return {
+        body: message.text.body || null,
+        content: { kind: 'text', text: message.text.body },
+      };
+
+    case 'image':
+      if (!message.image) break;
+      return {
+        body: message.image.caption || '[Imagen recibida]',
+        content: mediaContent('image', message.image, { caption: message.image.caption }),
+      };
+
+    case 'video':
+      if (!message.video) break;
+      return {
+        body: message.video.caption || '[Video recibido]',
+        content: mediaContent('video', message.video, { caption: message.video.caption }),
+      };
+
+    case 'audio':
+      if (!message.audio) break;
+      return {
+        body: message.audio.voice ? '[Nota de voz recibida]' : '[Audio recibido]',
+        content: mediaContent('audio', message.audio, { voice: message.audio.voice }),
+      };
+
+    case 'document': {
+      const document = message.document;
+      if (!document) break;
+      return {
+        body: document.caption || `[Documento recibido${document.filename ? `: ${document.filename}` : ''}]`,
+        content: mediaContent('document', document, { caption: document.caption, filename: document.filename }),
+      };
+    }
+
+    case 'sticker':
+      if (!message.sticker) break;
+      return {
+        body: '[Sticker recibido]',
+        content: mediaContent('sticker', message.sticker, {}),
+      };
+
+    case 'location': {
+      const location = message.location;
+      if (!location) break;
+      const label = [location.name, location.address].filter(Boolean).join(', ');
+      return {
+        body: `[Ubicación: ${label ? `${label} ` : ''}(${location.latitude}, ${location.longitude})]`,
+        content: {
+          kind: 'location',
+          latitude: location.latitude,
+          longitude: location.longitude,
+          name: location.name ?? null,
+          address: location.address ?? null,
+          url: location.url ?? null,
+        },
+      };
+    }
+
+    case 'contacts': {
+      if (!message.contacts) break;
+      const contacts = message.contacts.map((card) => ({
+        name: card.name.formatted_name,
+        phones: (card.phones || []).map((p) => p.phone).filter((p): p is string => !!p),
+        wa_ids: (card.phones || []).map((p) => p.wa_id).filter((id): id is string => !!id),
+      }));
+      return {
+        body: `[Contacto compartido: ${contacts.map((c) => c.name).join(', ')}]`,
+        content: { kind: 'contacts', contacts },
+      };
+    }
+
+    case 'interactive': {
+      const interactive = message.interactive;
+      if (interactive?.button_reply) {
+        return {
+          body: interactive.button_reply.title,
+          content: {
+            kind: 'reply',
+            source: 'button_reply',
+            reply_id: interactive.button_reply.id,
+            title: interactive.button_reply.title,
+            description: null,
+          },
+        };
+      }
+      if (interactive?.list_reply) {
+        return {
+          body: interactive.list_reply.title,
+          content: {
+            kind: 'reply',
+            source: 'list_reply',
+            reply_id: interactive.list_reply.id,
+            title: interactive.list_reply.title,
+            description: interactive.list_reply.description ?? null,
+          },
+        };
+      }
+      if (interactive?.nfm_reply) {
+        return {
+          body: interactive.nfm_reply.body || '[Formulario enviado]',
+          content: {
+            kind: 'flow_reply',
+            name: interactive.nfm_reply.name ?? null,
+            response: parseJsonOrRaw(interactive.nfm_reply.response_json),
+          },
+        };
+      }
+      // Subtypes we don't handle yet are kept as unsupported
+      break;
+    }
+
+    case 'button':
+      if (!message.button) break;
+      return {
+        body: message.button.text,
+        content: {
+          kind: 'reply',
+          source: 'template_button',
+          reply_id: message.button.payload,
+          title: message.button.text,
+          description: null,
+        },
+      };
+
+    case 'reaction':
+      if (!message.reaction) break;
+      return {
+        body: message.reaction.emoji ? `[Reacción ${message.reaction.emoji}]` : '[Reacción eliminada]',
+        content: {
+          kind: 'reaction',
+          target_wa_message_id: message.reaction.message_id,
+          emoji: message.reaction.emoji || null,
+        },
+      };
+
+    case 'order': {
+      const order = message.order;
+      if (!order) break;
+      const itemCount = order.product_items.reduce((sum, item) => sum + item.quantity, 0);
+      return {
+        body: order.text || `[Pedido del catálogo: ${itemCount} producto(s)]`,
+        content: {
+          kind: 'order',
+          catalog_id: order.catalog_id,
+          text: order.text ?? null,
+          items: order.product_items.map((item) => ({
+            product_retailer_id: item.product_retailer_id,
+            quantity: item.quantity,
+            item_price: item.item_price,
+            currency: item.currency,
+          })),
+        },
+      };
+    }
+
+    case 'system':
+      if (!message.system) break;
+      return {
+        body: message.system.body,
+        content: {
+          kind: 'system',
+          system_type: message.system.type ?? null,
+          body: message.system.body,
+          new_wa_id: message.system.new_wa_id ?? null,
+        },
+      };
+
+    case 'unknown':
+    case 'unsupported':
+      break;
+  }
+
+  return {
+    body: `[${message.type}]`,
+    content: {
+      kind: 'unsupported',
+      errors: (message.errors || []).map((e) => ({ code: e.code, title: e.title ?? null })),
+    },
+  };
+}
+
+function mediaContent(
+  mediaType: MediaType,
+  media: WhatsAppMediaObject,
+  extra: { caption?: string; filename?: string; voice?: boolean }
+): MessageContent {
+  return {
+    kind: 'media',
+    media_type: mediaType,
+    media_id: media.id,
+    mime_type: media.mime_type,
+    sha256: media.sha256 ?? null,
+    caption: extra.caption ?? null,
+    filename: extra.filename ?? null,
+    voice: extra.voice ?? false,
+  };
+}
+
+function normalizeContext(message: WhatsAppMessage): MessageReference | null {
+  if (!message.context) {
+    return null;
+  }
+
+  return {
+    reply_to_wa_message_id: message.context.id ?? null,
+    forwarded: !!(message.context.forwarded || message.context.frequently_forwarded),
+    referred_product: message.context.referred_product ?? null,
+  };
+}
+
+function parseJsonOrRaw(value: string): unknown {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
@@ -0,0 +1,84 @@
+import { getContext } from '../../helpers/conversation-context.js';
+import { handlePaymentConfirmation } from '../orders/handlePaymentConfirmation.js';
+import { detectPaymentProof, createPaymentReview } from '../payment-detector.js';
+import type { PipelineStage } from './types.js';
+
+const PAYMENT_CONFIRMATION_PATTERN = /ya pague|comprobante|transferi|pague|envie|mande/i;
+
+/**
+ * Detects payment confirmations and proofs. A detected payment creates the
+ * order/payment records for merchant review and halts the pipeline: payment
+ * proofs never get an automatic reply. Dry runs only report the detection.
+ */
+export const paymentStage: PipelineStage = {
+  name: 'payment_detection',
+
+  async run(ctx) {
+    const { message } = ctx.input;
+    const { log, waPhone, contactName, messageBody } = ctx;
+
+    // Payment confirmation intent while the V1 flow is awaiting payment
+    const conversationContext = getContext(waPhone);
+    const isPaymentConfirmationIntent = !!messageBody && PAYMENT_CONFIRMATION_PATTERN.test(messageBody);
+
+    if (isPaymentConfirmationIntent && conversationContext.state === 'awaiting_payment') {
+      log.info({ phone: waPhone }, 'Payment confirmation detected in awaiting_payment state');
+
+      if (ctx.dryRun) {
+        ctx.halted = { stage: 'payment_detection', reason: 'payment_confirmation' };
+        return;
+      }
+
+      const paymentConfirmResult = await handlePaymentConfirmation({
+        phone: waPhone,
+        customerName: contactName,
+        productsJson: conversationContext.flavor
+          ? { flavor: conversationContext.flavor, quantity: conversationContext.quantity }
+          : null,
+        totalAmount: conversationContext.total,
+        currency: 'BOB',
+      });
+
+      if (paymentConfirmResult.ok) {
+        log.info(
+          { orderId: paymentConfirmResult.orderId, paymentId: paymentConfirmResult.paymentId },
+          'Order and payment created from payment confirmation'
+        );
+        ctx.orderId = paymentConfirmResult.orderId;
+        ctx.paymentId = paymentConfirmResult.paymentId;
+        ctx.halted = { stage: 'payment_detection', reason: 'payment_confirmation' };
+        return;
+      }
+
+      log.error({ error: paymentConfirmResult.error }, 'Failed to create order from payment confirmation');
+    }
+
+    // Payment proof (image or payment keywords)
+    if (!detectPaymentProof(message, messageBody)) {
+      return;
+    }
+
+    log.info('Payment proof detected');
+
+    if (ctx.dryRun) {
+      ctx.halted = { stage: 'payment_detection', reason: 'payment_proof' };
+      return;
+    }
+
+    const paymentResult = await createPaymentReview({
+      conversationId: ctx.conversationId!,
+      contactId: ctx.contactId!,
+      customerPhone: waPhone,
+      customerName: contactName,
+      messageText: messageBody,
+      mediaId: ctx.normalized.content.kind === 'media' ? ctx.normalized.content.media_id : null,
+      mediaAssetId: ctx.mediaAssetId,
+      tenantId: ctx.tenantId,
+      log,
+    });
+
+    ctx.orderId = paymentResult?.orderId || null;
+    ctx.paymentId = paymentResult?.paymentId || null;
+    ctx.halted = { stage: 'payment_detection', reason: 'payment_proof' };
+  },
+};
@@ -0,0 +1,62 @@
+import { supabaseAdmin } from '../../lib/supabase.js';
+import type { PipelineStage } from './types.js';
+
+/**
+ * Stores the normalized inbound message and bumps conversations.last_message_at.
+ * Safe to re-run for a retried job or replay; does nothing in dry runs.
+ */
+export const persistStage: PipelineStage = {
+  name: 'persist',
+
+  async run(ctx) {
+    const { message } = ctx.input;
+
+    if (ctx.dryRun) {
+      return;
+    }
+
+    // Retried job or replay: the message may already be stored
+    if ((ctx.input.attempt ?? 1) > 1 || ctx.input.replay) {
+      const { data: existing } = await supabaseAdmin
+        .from('messages')
+        .select('id')
+        .eq('conversation_id', ctx.conversationId)
+        .eq('wa_message_id', message.id)
+        .maybeSingle();
+
+      if (existing) {
+        ctx.storedMessageId = existing.id;
+        return;
+      }
+    }
+
+    const { data: storedMessage, error: messageError } = await supabaseAdmin
+      .from('messages')
+      .insert({
+        tenant_id: ctx.tenantId,
+        conversation_id: ctx.conversationId,
+        direction: 'in',
+        message_type: message.type,
+        body: ctx.messageBody,
+        content: ctx.normalized.content,
+        reply_to_wa_message_id: ctx.normalized.context?.reply_to_wa_message_id ?? null,
+        wa_message_id: message.id,
+        raw: message,
+      })
+      .select('id')
+      .single();
+
+    if (messageError || !storedMessage) {
+      ctx.log.error({ error: messageError }, 'Failed to store message');
+      throw new Error(`Failed to store message: ${messageError?.message ?? 'no row returned'}`);
+    }
+
+    ctx.storedMessageId = storedMessage.id;
+    ctx.log.info({ messageId: storedMessage.id, type: message.type }, 'Message stored successfully');
+
+    await supabaseAdmin
+      .from('conversations')
+      .update({ last_message_at: new Date().toISOString() })
+      .eq('id', ctx.conversationId);
+  },
+};
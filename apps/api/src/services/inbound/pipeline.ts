@@ -0,0 +1,296 @@
+/**
+ * Inbound pipeline
+ *
+ * Single path for every inbound WhatsApp message, used by the inbound queue
+ * worker and by the debug simulator alike:
+ * 1. resolve_channel      - business number -> tenant, credentials, catalog, agent profile
+ * 2. dedupe               - store raw event, skip duplicates
+ * 3. resolve_conversation - upsert contact, find/open conversation
+ * 4. persist              - store normalized message
+ * 5. media                - download images/documents into media storage
+ * 6. reply_filter         - reactions/system notices are stored but not answered
+ * 7. payment_detection    - payment proofs go to merchant review (no reply)
+ * 8. responder            - V1 rules, legacy Gemini agent or Agent V2 (agent profile or INBOUND_RESPONDER)
+ * 9. delivery             - store reply and follow-ups (payment instructions), queue and send them from the same number
+ * 10. agent_v2 shadow     - with AGENT_V2_ENABLED=shadow, record what V2 would have done
+ */
+
+import { config } from '../../lib/config.js';
+import { withKeyedLock } from '../../lib/keyed-lock.js';
+import { incrementCounter } from '../../lib/metrics.js';
+import type { AppLogger } from '../../lib/types.js';
+import { snapshotContext, restoreContext } from '../../helpers/index.js';
+import { getAgentV2Mode } from '../../agent_v2/index.js';
+import { storeOutboundMessage } from '../message-store.js';
+import { normalizeMessage } from './normalize-message.js';
+import { channelStage } from './channel-stage.js';
+import { dedupeStage } from './dedupe-stage.js';
+import { conversationStage } from './conversation-stage.js';
+import { persistStage } from './persist-stage.js';
+import { mediaStage } from './media-stage.js';
+import { replyFilterStage } from './reply-filter-stage.js';
+import { paymentStage } from './payment-stage.js';
+import { selectResponder } from './responders.js';
+import { getOrderingKey } from './job-queue.js';
+import { runAgentV2Shadow } from './shadow.js';
+import type {
+  InboundContext,
+  InboundMessageInput,
+  InboundPipelineResult,
+  PipelineStage,
+  Responder,
+} from './types.js';
+
+export type {
+  InboundContext,
+  InboundMessageInput,
+  InboundPipelineResult,
+  PipelineStage,
+  Responder,
+  ResponderName,
+} from './types.js';
+
+export const DEFAULT_STAGES: readonly PipelineStage[] = [
+  channelStage,
+  dedupeStage,
+  conversationStage,
+  persistStage,
+  mediaStage,
+  replyFilterStage,
+  paymentStage,
+];
+
+const RESPONDER_FALLBACK_TEXT = 'Estoy teniendo problemas, un humano te escribirá.';
+
+export interface RunPipelineOptions {
+  stages?: readonly PipelineStage[];
+  responder?: Responder;
+  /** Report what would happen (reply, state transition, actions) without writing or sending */
+  dryRun?: boolean;
+  /**
+   * Queue and send the reply and follow-ups (default true). Applied replays
+   * turn it off: everything is written, but old events never reach the customer
+   */
+  deliver?: boolean;
+}
+
+/**
+ * Runs one inbound message through all stages, the responder and delivery.
+ */
+export async function runInboundPipeline(
+  input: InboundMessageInput,
+  log: AppLogger,
+  options: RunPipelineOptions = {}
+): Promise<InboundPipelineResult> {
+  return runInboundTurn([input], log, options);
+}
+
+/**
+ * Runs a burst of messages from one customer as a single turn: every message
+ * goes through the stages (and is stored) on its own, then the responder
+ * answers once for the merged text of the messages that weren't halted.
+ *
+ * Messages from the same customer never run concurrently in this process:
+ * conversation state is read-modify-write, so overlapping turns would lose
+ * updates. Across instances the job queue provides the same guarantee.
+ */
+export async function runInboundTurn(
+  inputs: InboundMessageInput[],
+  log: AppLogger,
+  options: RunPipelineOptions = {}
+): Promise<InboundPipelineResult> {
+  if (inputs.length === 0) {
+    throw new Error('runInboundTurn requires at least one message');
+  }
+
+  return withKeyedLock(getOrderingKey(inputs[0]), () => runTurn(inputs, log, options));
+}
+
+async function runTurn(
+  inputs: InboundMessageInput[],
+  log: AppLogger,
+  options: RunPipelineOptions
+): Promise<InboundPipelineResult> {
+  const dryRun = options.dryRun ?? false;
+
+  // V1 rules keep their state in memory; a dry run must leave it untouched
+  const rulesSnapshot = dryRun ? snapshotContext(inputs[0].message.from) : null;
+
+  try {
+    return await runTurnStages(inputs, log, options, dryRun);
+  } finally {
+    if (dryRun) {
+      restoreContext(inputs[0].message.from, rulesSnapshot);
+    }
+  }
+}
+
+async function runTurnStages(
+  inputs: InboundMessageInput[],
+  log: AppLogger,
+  options: RunPipelineOptions,
+  dryRun: boolean
+): Promise<InboundPipelineResult> {
+  const stages = options.stages ?? DEFAULT_STAGES;
+  const contexts: InboundContext[] = [];
+
+  for (const input of inputs) {
+    const ctx = createContext(input, log, dryRun);
+    contexts.push(ctx);
+
+    for (const stage of stages) {
+      await stage.run(ctx);
+
+      if (ctx.halted) {
+        log.info({ messageId: input.message.id, ...ctx.halted }, '[PIPELINE] Halted');
+        break;
+      }
+    }
+  }
+
+  const answerable = contexts.filter((ctx) => !ctx.halted);
+  if (answerable.length === 0) {
+    return toResult(contexts, contexts[contexts.length - 1], null, null);
+  }
+
+  const ctx = mergeContexts(answerable);
+  const responder = options.responder ?? selectResponder(ctx.channel?.agentProfile.responder);
+  let reply: string | null;
+
+  try {
+    reply = await responder.respond(ctx);
+  } catch (error) {
+    log.error({ error, responder: responder.name }, '[PIPELINE] Responder failed');
+    reply = RESPONDER_FALLBACK_TEXT;
+  }
+
+  if (reply && ctx.conversationId && !dryRun) {
+    await storeOutboundMessage({
+      conversationId: ctx.conversationId,
+      body: reply,
+      dispatch: true,
+      enqueue: options.deliver ?? true,
+      log,
+    });
+  }
+
+  // The reply is out: from here on a thrown error must not fail the job, or
+  // the retry would run the responder and send the reply again
+  if (ctx.conversationId && !dryRun) {
+    for (const followUp of ctx.followUps) {
+      try {
+        await storeOutboundMessage({
+          conversationId: ctx.conversationId,
+          body: followUp.body,
+          orderId: followUp.orderId,
+          dispatch: true,
+          enqueue: options.deliver ?? true,
+          log,
+        });
+      } catch (error) {
+        incrementCounter('inbound_post_delivery_errors_total', { step: 'follow_up' });
+        log.error(
+          { error, conversationId: ctx.conversationId, orderId: followUp.orderId },
+          '[PIPELINE] Follow-up not sent after reply'
+        );
+      }
+    }
+  }
+
+  if (!dryRun && responder.name !== 'agent_v2' && getAgentV2Mode() === 'shadow') {
+    try {
+      await runAgentV2Shadow({
+        ctx,
+        messageIds: answerable.map((c) => c.input.message.id),
+        v1Responder: responder.name,
+        v1Reply: reply,
+      });
+    } catch (error) {
+      incrementCounter('inbound_post_delivery_errors_total', { step: 'shadow' });
+      log.error({ error, conversationId: ctx.conversationId }, '[PIPELINE] Agent V2 shadow failed after reply');
+    }
+  }
+
+  log.info(
+    {
+      messageIds: answerable.map((c) => c.input.message.id),
+      responder: responder.name,
+      replied: !!reply,
+      dryRun,
+    },
+    '[PIPELINE] Turn processed'
+  );
+
+  return toResult(contexts, ctx, responder, reply);
+}
+
+/**
+ * One logical message for the responder: the latest fragment's context with
+ * the bodies of all fragments joined in order ("hola" / "quiero chocolate" / "2").
+ */
+function mergeContexts(contexts: InboundContext[]): InboundContext {
+  const last = contexts[contexts.length - 1];
+  if (contexts.length === 1) {
+    return last;
+  }
+
+  const body = contexts
+    .map((c) => c.messageBody)
+    .filter((b): b is string => !!b)
+    .join('\n');
+
+  return {
+    ...last,
+    messageBody: body || null,
+    normalized: {
+      ...last.normalized,
+      type: 'text',
+      body: body || null,
+      content: { kind: 'text', text: body },
+    },
+  };
+}
+
+function createContext(input: InboundMessageInput, log: AppLogger, dryRun: boolean): InboundContext {
+  const normalized = normalizeMessage(input.message);
+
+  return {
+    input,
+    log,
+    dryRun,
+    channel: null,
+    tenantId: config.TENANT_ID,
+    waPhone: input.message.from,
+    contactName: input.contact?.profile?.name || null,
+    normalized,
+    messageBody: normalized.body,
+    contactId: null,
+    conversationId: null,
+    storedMessageId: null,
+    mediaAssetId: null,
+    orderId: null,
+    paymentId: null,
+    halted: null,
+    transition: null,
+    followUps: [],
+  };
+}
+
+function toResult(
+  contexts: InboundContext[],
+  ctx: InboundContext,
+  responder: Responder | null,
+  reply: string | null
+): InboundPipelineResult {
+  return {
+    conversationId: ctx.conversationId,
+    orderId: ctx.orderId ?? contexts.find((c) => c.orderId)?.orderId ?? null,
+    paymentId: contexts.find((c) => c.paymentId)?.paymentId ?? null,
+    responder: responder?.name ?? null,
+    reply,
+    halted: ctx.halted,
+    messageIds: contexts.map((c) => c.input.message.id),
+    transition: ctx.transition,
+    dryRun: ctx.dryRun,
+  };
+}
@@ -0,0 +1,164 @@
+/**
+ * Webhook replay
+ *
+ * Re-runs stored webhook_events through the current pipeline, e.g. to check a
+ * prompt or rules change against real past traffic. In dry-run mode nothing is
+ * written or sent; each event is evaluated on its own against the current
+ * conversation state. Applied replays write messages, state and orders, but
+ * only send replies to the customer with options.send.
+ */
+
+import { supabaseAdmin } from '../../lib/supabase.js';
+import type { AppLogger } from '../../lib/types.js';
+import { WhatsAppWebhookSchema } from '../../schemas/whatsapp.js';
+import { runInboundPipeline } from './pipeline.js';
+import type { InboundMessageInput, InboundPipelineResult } from './types.js';
+
+export interface ReplayFilter {
+  eventIds?: string[];
+  phone?: string;
+  /** received_at range (ISO timestamps, inclusive) */
+  from?: string;
+  to?: string;
+  limit?: number;
+}
+
+export interface ReplayReport {
+  event_id: string;
+  wa_message_id: string | null;
+  phone: string | null;
+  received_at: string;
+  result: InboundPipelineResult | null;
+  error: string | null;
+}
+
+const DEFAULT_REPLAY_LIMIT = 50;
+
+interface StoredWebhookEvent {
+  id: string;
+  dedupe_key: string;
+  payload: unknown;
+  received_at: string;
+}
+
+/**
+ * Selects message events, oldest first, and replays them one by one.
+ */
+export async function replayWebhookEvents(
+  filter: ReplayFilter,
+  options: { dryRun: boolean; send?: boolean },
+  log: AppLogger
+): Promise<ReplayReport[]> {
+  const events = await selectWebhookEvents(filter);
+  const reports: ReplayReport[] = [];
+
+  log.info({ count: events.length, dryRun: options.dryRun, send: !!options.send }, '[REPLAY] Replaying webhook events');
+
+  for (const event of events) {
+    const input = extractMessageInput(event);
+
+    if (!input) {
+      reports.push({
+        event_id: event.id,
+        wa_message_id: null,
+        phone: null,
+        received_at: event.received_at,
+        result: null,
+        error: 'Payload does not contain the deduped message',
+      });
+      continue;
+    }
+
+    try {
+      const result = await runInboundPipeline(input, log, {
+        dryRun: options.dryRun,
+        deliver: !!options.send,
+      });
+      reports.push({
+        event_id: event.id,
+        wa_message_id: input.message.id,
+        phone: input.message.from,
+        received_at: event.received_at,
+        result,
+        error: null,
+      });
+    } catch (error) {
+      reports.push({
+        event_id: event.id,
+        wa_message_id: input.message.id,
+        phone: input.message.from,
+        received_at: event.received_at,
+        result: null,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  return reports;
+}
+
+async function selectWebhookEvents(filter: ReplayFilter): Promise<StoredWebhookEvent[]> {
+  let query = supabaseAdmin
+    .from('webhook_events')
+    .select('id, dedupe_key, payload, received_at')
+    .eq('source', 'whatsapp')
+    .eq('event_type', 'message')
+    .order('received_at', { ascending: true })
+    .limit(filter.limit ?? DEFAULT_REPLAY_LIMIT);
+
+  if (filter.eventIds && filter.eventIds.length > 0) {
+    query = query.in('id', filter.eventIds);
+  }
+
+  if (filter.phone) {
+    // JSONB containment: matches when any message in the payload is from this phone
+    query = query.contains('payload', {
+      entry: [{ changes: [{ value: { messages: [{ from: filter.phone }] } }] }],
+    });
+  }
+
+  if (filter.from) {
+    query = query.gte('received_at', filter.from);
+  }
+
+  if (filter.to) {
+    query = query.lte('received_at', filter.to);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to load webhook events: ${error.message}`);
+  }
+
+  return (data || []) as StoredWebhookEvent[];
+}
+
+/**
+ * Finds the message this event was deduped on (`wa:<message id>`) in its payload.
+ */
+function extractMessageInput(event: StoredWebhookEvent): InboundMessageInput | null {
+  const parsed = WhatsAppWebhookSchema.safeParse(event.payload);
+  if (!parsed.success) {
+    return null;
+  }
+
+  const messageId = event.dedupe_key.replace(/^wa:/, '');
+
+  for (const entry of parsed.data.entry) {
+    for (const change of entry.changes) {
+      const message = change.value.messages?.find((m) => m.id === messageId);
+      if (message) {
+        return {
+          message,
+          contact: change.value.contacts?.[0],
+          phoneNumberId: change.value.metadata.phone_number_id,
+          payload: event.payload,
+          replay: true,
+        };
+      }
+    }
+  }
+
+  return null;
+}
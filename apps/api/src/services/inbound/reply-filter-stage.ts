@@ -0,0 +1,22 @@
+import type { MessageContent } from './normalize-message.js';
+import type { PipelineStage } from './types.js';
+
+// Stored for history and downstream agents, but never answered
+const SILENT_KINDS: ReadonlySet<MessageContent['kind']> = new Set(['reaction', 'system']);
+
+/**
+ * Halts before payment detection and the responder for messages that don't
+ * expect an answer (a 👍 on our last message, a number-change notice).
+ */
+export const replyFilterStage: PipelineStage = {
+  name: 'reply_filter',
+
+  async run(ctx) {
+    const { kind } = ctx.normalized.content;
+
+    if (SILENT_KINDS.has(kind)) {
+      ctx.log.debug({ type: ctx.normalized.type }, 'Message does not need a reply');
+      ctx.halted = { stage: 'reply_filter', reason: kind };
+    }
+  },
+};
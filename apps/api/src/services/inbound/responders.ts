@@ -0,0 +1,188 @@
+import { supabaseAdmin } from '../../lib/supabase.js';
+import { config } from '../../lib/config.js';
+import { incrementCounter } from '../../lib/metrics.js';
+import { processWithRules, getContext } from '../../helpers/index.js';
+import { generateReply } from '../llm.js';
+import { generateAIReply } from '../ai-agent.js';
+import { processMessage as processAgentV2Message, getAgentV2Mode } from '../../agent_v2/index.js';
+import type { Responder, ResponderName } from './types.js';
+
+// =============================================================================
+// V1: deterministic rules with LLM fallback
+// =============================================================================
+
+export const rulesResponder: Responder = {
+  name: 'rules',
+
+  async respond(ctx) {
+    const { log, waPhone, contactName } = ctx;
+    const { message } = ctx.input;
+
+    // V1 only understands text; a tapped reply button/list row counts as its title
+    const { kind } = ctx.normalized.content;
+    if ((kind !== 'text' && kind !== 'reply') || !ctx.messageBody) {
+      log.debug({ type: message.type }, '[RULES] Skipping non-text message');
+      return null;
+    }
+
+    const contextBefore = getContext(waPhone);
+    log.info(
+      { phone: waPhone.slice(-4), state: contextBefore.state, flavor: contextBefore.flavor },
+      '[RULES] Processing message'
+    );
+
+    const ruleResult = processWithRules(waPhone, ctx.messageBody, contactName);
+    ctx.transition = { from: contextBefore.state, to: getContext(waPhone).state, actions: [] };
+
+    if (ruleResult.handled && ruleResult.reply) {
+      log.info({ phone: waPhone.slice(-4), newState: ruleResult.newState }, '[RULES] Message handled by rules');
+      return ruleResult.reply;
+    }
+
+    log.info({ phone: waPhone.slice(-4) }, '[RULES] Rules did not handle, using LLM');
+    return generateReply(ctx.messageBody);
+  },
+};
+
+// =============================================================================
+// Legacy Gemini sales agent
+// =============================================================================
+
+export const geminiResponder: Responder = {
+  name: 'gemini',
+
+  async respond(ctx) {
+    const [conversationHistory, products] = await Promise.all([
+      ctx.conversationId ? getConversationHistory(ctx.conversationId) : Promise.resolve([]),
+      getProductCatalog(ctx.tenantId, ctx.channel?.catalog ?? null),
+    ]);
+
+    return generateAIReply({
+      customerName: ctx.contactName,
+      messageBody: ctx.messageBody,
+      conversationHistory,
+      products,
+      businessName: ctx.channel?.agentProfile.business_name,
+      log: ctx.log,
+    });
+  },
+};
+
+async function getConversationHistory(
+  conversationId: string
+): Promise<Array<{ direction: string; body: string | null }>> {
+  const { data } = await supabaseAdmin
+    .from('messages')
+    .select('direction, body')
+    .eq('conversation_id', conversationId)
+    .order('created_at', { ascending: false })
+    .limit(20);
+
+  return data || [];
+}
+
+async function getProductCatalog(
+  tenantId: string,
+  catalog: string | null
+): Promise<Array<{ name: string; price: number; description: string | null }>> {
+  let query = supabaseAdmin
+    .from('vendi_products')
+    .select('name, price, description')
+    .eq('tenant_id', tenantId)
+    .eq('is_active', true);
+
+  if (catalog) {
+    query = query.or(`catalog.is.null,catalog.eq.${catalog}`);
+  }
+
+  const { data } = await query;
+  return data || [];
+}
+
+// =============================================================================
+// Agent V2
+// =============================================================================
+
+export const agentV2Responder: Responder = {
+  name: 'agent_v2',
+
+  async respond(ctx) {
+    // Dry runs for an unknown customer have no conversation state to load
+    if (!ctx.messageBody || !ctx.conversationId) {
+      return null;
+    }
+
+    const result = await processAgentV2Message(
+      {
+        conversation_id: ctx.conversationId,
+        customer_message: ctx.messageBody,
+        wa_phone: ctx.waPhone,
+        tenant_id: ctx.tenantId,
+        catalog: ctx.channel?.catalog ?? null,
+        templates: ctx.channel?.agentProfile.templates,
+      },
+      { dry_run: ctx.dryRun }
+    );
+
+    ctx.transition = {
+      from: result.previous_state ?? null,
+      to: result.new_state ?? null,
+      actions: result.executed_actions?.map((a) => a.type) ?? [],
+    };
+
+    if (result.pending_order) {
+      ctx.orderId = result.pending_order.order_id;
+      ctx.followUps.push({
+        body: result.pending_order.payment_instructions,
+        orderId: result.pending_order.order_id,
+      });
+    }
+
+    ctx.log.info(
+      { newState: result.new_state, actions: result.executed_actions?.map((a) => a.type), handled: result.handled },
+      '[AGENT_V2] Message processed'
+    );
+
+    if (result.guardrail_violations?.length) {
+      for (const violation of result.guardrail_violations) {
+        incrementCounter('agent_v2_guardrail_hits_total', { kind: violation.kind });
+      }
+      ctx.log.warn({ violations: result.guardrail_violations }, '[AGENT_V2] Reply replaced by output guardrail');
+    }
+
+    if (result.audit_error) {
+      incrementCounter('agent_v2_audit_errors_total');
+      ctx.log.error({ error: result.audit_error }, '[AGENT_V2] Turn audit not stored');
+    }
+
+    return result.handled ? result.response_text : null;
+  },
+};
+
+// =============================================================================
+// Selection
+// =============================================================================
+
+const RESPONDERS: Record<ResponderName, Responder> = {
+  rules: rulesResponder,
+  gemini: geminiResponder,
+  agent_v2: agentV2Responder,
+};
+
+/**
+ * Returns the responder for a turn: the channel's agent profile, else Agent V2
+ * when AGENT_V2_ENABLED=true, else INBOUND_RESPONDER.
+ *
+ * AGENT_V2_ENABLED is the kill switch: unless it is 'true', Agent V2 never
+ * answers and V1 rules take over.
+ */
+export function selectResponder(preferred?: ResponderName): Responder {
+  const agentV2On = getAgentV2Mode() === 'on';
+  const name = preferred ?? (agentV2On ? 'agent_v2' : config.INBOUND_RESPONDER);
+
+  if (name === 'agent_v2' && !agentV2On) {
+    return RESPONDERS.rules;
+  }
+
+  return RESPONDERS[name];
+}
@@ -0,0 +1,112 @@
+/**
+ * Agent V2 shadow mode
+ *
+ * With AGENT_V2_ENABLED=shadow, V1 keeps answering customers while Agent V2
+ * decides on the same turn in dry-run mode. V2 never touches conversation_state
+ * or sends anything: it carries its own state from one shadow run to the next,
+ * and each run is stored in agent_v2_shadow_runs next to what V1 actually sent.
+ */
+
+import { supabaseAdmin } from '../../lib/supabase.js';
+import { incrementCounter } from '../../lib/metrics.js';
+import {
+  processMessage as processAgentV2Message,
+  DEFAULT_CONVERSATION_STATE,
+  DEFAULT_CART,
+  type ConversationState,
+} from '../../agent_v2/index.js';
+import type { InboundContext, ResponderName } from './types.js';
+
+export interface ShadowTurn {
+  ctx: InboundContext;
+  messageIds: string[];
+  v1Responder: ResponderName;
+  v1Reply: string | null;
+}
+
+/**
+ * Runs Agent V2 next to the V1 reply and records both. Never throws: a
+ * failing shadow must not affect the live conversation.
+ */
+export async function runAgentV2Shadow(turn: ShadowTurn): Promise<void> {
+  const { ctx } = turn;
+
+  if (!ctx.conversationId || !ctx.messageBody) {
+    return;
+  }
+
+  const v1 = {
+    tenant_id: ctx.tenantId,
+    conversation_id: ctx.conversationId,
+    wa_message_ids: turn.messageIds,
+    customer_message: ctx.messageBody,
+    v1_responder: turn.v1Responder,
+    v1_reply: turn.v1Reply,
+    v1_state_before: ctx.transition?.from ?? null,
+    v1_state_after: ctx.transition?.to ?? null,
+  };
+
+  let row: Record<string, unknown>;
+
+  try {
+    const state = await loadShadowState(ctx.conversationId);
+    const result = await processAgentV2Message(
+      {
+        conversation_id: ctx.conversationId,
+        customer_message: ctx.messageBody,
+        wa_phone: ctx.waPhone,
+        tenant_id: ctx.tenantId,
+        catalog: ctx.channel?.catalog ?? null,
+        templates: ctx.channel?.agentProfile.templates,
+      },
+      { dry_run: true, state }
+    );
+
+    row = {
+      ...v1,
+      v2_reply: result.response_text,
+      v2_state_before: result.previous_state ?? state.fsm_state,
+      v2_state_after: result.new_state ?? state.fsm_state,
+      v2_proposed_actions: result.proposed_actions ?? [],
+      v2_executed_actions: result.executed_actions ?? [],
+      v2_validation_errors: result.validation_errors ?? [],
+      // Human override ends the run early without a new state: keep the old one
+      v2_state: result.state ?? state,
+    };
+    incrementCounter('agent_v2_shadow_runs_total', { outcome: 'ok' });
+  } catch (error) {
+    ctx.log.warn({ error, conversationId: ctx.conversationId }, '[AGENT_V2_SHADOW] Run failed');
+    row = { ...v1, v2_error: error instanceof Error ? error.message : String(error) };
+    incrementCounter('agent_v2_shadow_runs_total', { outcome: 'error' });
+  }
+
+  const { error } = await supabaseAdmin.from('agent_v2_shadow_runs').insert(row);
+
+  if (error) {
+    ctx.log.error({ error, conversationId: ctx.conversationId }, '[AGENT_V2_SHADOW] Failed to store run');
+  }
+}
+
+/**
+ * State left by the previous successful shadow run of the conversation.
+ */
+async function loadShadowState(conversationId: string): Promise<ConversationState> {
+  const { data, error } = await supabaseAdmin
+    .from('agent_v2_shadow_runs')
+    .select('v2_state')
+    .eq('conversation_id', conversationId)
+    .not('v2_state', 'is', null)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load shadow state: ${error.message}`);
+  }
+
+  if (data?.v2_state) {
+    return data.v2_state as ConversationState;
+  }
+
+  return { ...DEFAULT_CONVERSATION_STATE, cart_json: { ...DEFAULT_CART, items: [] }, events_log: [] };
+}
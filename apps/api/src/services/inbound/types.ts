@@ -0,0 +1,109 @@
+/**
+ * Inbound pipeline - Type Definitions
+ *
+ * Every inbound WhatsApp message (webhook or debug simulator) runs through the
+ * same ordered list of stages, then a single responder produces the reply.
+ */
+
+import type { WhatsAppMessage, WhatsAppContact } from '../../schemas/whatsapp.js';
+import type { AppLogger } from '../../lib/types.js';
+import type { NormalizedMessage } from './normalize-message.js';
+import type { ChannelAccount } from '../channel-accounts.js';
+
+// =============================================================================
+// Input
+// =============================================================================
+
+export interface InboundMessageInput {
+  message: WhatsAppMessage;
+  contact?: WhatsAppContact;
+  /** Business number the customer wrote to (value.metadata.phone_number_id) */
+  phoneNumberId?: string;
+  /** Full webhook payload, stored in webhook_events for auditing and replay */
+  payload: unknown;
+  /** Queue attempt number (1 on first delivery); retries resume after partial work */
+  attempt?: number;
+  /** Re-run of a stored webhook event: dedupe is bypassed, the stored message row is reused */
+  replay?: boolean;
+}
+
+// =============================================================================
+// Context shared between stages
+// =============================================================================
+
+export interface InboundContext {
+  input: InboundMessageInput;
+  log: AppLogger;
+  /** Read-only run: stages and responders must not write or send anything */
+  dryRun: boolean;
+  /** Business number the message arrived on; set by the resolve_channel stage */
+  channel: ChannelAccount | null;
+  tenantId: string;
+  waPhone: string;
+  contactName: string | null;
+  /** Typed content of the message, stored in messages.content */
+  normalized: NormalizedMessage;
+  /** Readable text of the message (normalized.body) */
+  messageBody: string | null;
+  contactId: string | null;
+  conversationId: string | null;
+  storedMessageId: string | null;
+  /** media_assets row for a downloaded image/document */
+  mediaAssetId: string | null;
+  orderId: string | null;
+  paymentId: string | null;
+  /**
+   * Set by a stage to stop the pipeline before the responder runs. Stages
+   * throw instead on storage failures so the queue retries the job.
+   */
+  halted: { stage: string; reason: string } | null;
+  /** Conversation state change reported by the responder */
+  transition: StateTransition | null;
+  /** Messages the responder wants delivered after its reply */
+  followUps: FollowUpMessage[];
+}
+
+export interface StateTransition {
+  from: string | null;
+  to: string | null;
+  actions: string[];
+}
+
+export interface FollowUpMessage {
+  body: string;
+  orderId?: string;
+}
+
+export interface PipelineStage {
+  name: string;
+  run(ctx: InboundContext): Promise<void>;
+}
+
+// =============================================================================
+// Responders
+// =============================================================================
+
+export type ResponderName = 'rules' | 'gemini' | 'agent_v2';
+
+export interface Responder {
+  name: ResponderName;
+  /** Returns the reply text, or null to stay silent */
+  respond(ctx: InboundContext): Promise<string | null>;
+}
+
+// =============================================================================
+// Result
+// =============================================================================
+
+export interface InboundPipelineResult {
+  conversationId: string | null;
+  orderId: string | null;
+  paymentId: string | null;
+  responder: ResponderName | null;
+  reply: string | null;
+  halted: { stage: string; reason: string } | null;
+  /** WhatsApp ids of every message handled in this turn (several when coalesced) */
+  messageIds: string[];
+  transition: StateTransition | null;
+  dryRun: boolean;
+}
@@ -0,0 +1,187 @@
+/**
+ * Inbound worker
+ *
+ * Polls inbound_jobs, runs each claimed job (plus the rest of its customer's
+ * burst) through the inbound pipeline and records the outcome. Several API
+ * instances can run workers side by side: claims are exclusive and leased, so
+ * a crashed worker's jobs are picked up again once the lease expires. The
+ * lease is renewed while a turn runs, so a slow turn is not answered twice.
+ */
+
+import { hostname } from 'node:os';
+import { randomUUID } from 'node:crypto';
+import { config } from '../../lib/config.js';
+import { incrementCounter } from '../../lib/metrics.js';
+import type { AppLogger } from '../../lib/types.js';
+import { runInboundTurn } from './pipeline.js';
+import {
+  claimInboundJobs,
+  claimCoalescedJobs,
+  completeInboundJob,
+  failInboundJob,
+  extendInboundJobLease,
+  type InboundJob,
+} from './job-queue.js';
+
+// One turn per claim: a claimed job waiting behind other turns would burn its lease
+const CLAIM_BATCH_SIZE = 1;
+
+interface WorkerState {
+  workerId: string;
+  log: AppLogger;
+  timer: NodeJS.Timeout | null;
+  running: Promise<void> | null;
+  stopped: boolean;
+}
+
+let state: WorkerState | null = null;
+
+/**
+ * Starts the polling loop. Calling it twice is a no-op.
+ */
+export function startInboundWorker(log: AppLogger): void {
+  if (state) {
+    return;
+  }
+
+  state = {
+    workerId: `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`,
+    log,
+    timer: null,
+    running: null,
+    stopped: false,
+  };
+
+  log.info({ workerId: state.workerId }, '[INBOUND_WORKER] Started');
+  wakeInboundWorker();
+}
+
+/**
+ * Stops polling and waits for the batch in flight to finish.
+ */
+export async function stopInboundWorker(): Promise<void> {
+  if (!state) {
+    return;
+  }
+
+  const current = state;
+  current.stopped = true;
+  if (current.timer) {
+    clearTimeout(current.timer);
+  }
+  await current.running;
+
+  current.log.info({ workerId: current.workerId }, '[INBOUND_WORKER] Stopped');
+  state = null;
+}
+
+/**
+ * Polls immediately instead of waiting for the next tick (called after enqueue).
+ */
+export function wakeInboundWorker(): void {
+  if (!state || state.stopped || state.running) {
+    return;
+  }
+
+  if (state.timer) {
+    clearTimeout(state.timer);
+    state.timer = null;
+  }
+
+  const current = state;
+  current.running = poll(current).finally(() => {
+    current.running = null;
+    if (!current.stopped) {
+      current.timer = setTimeout(wakeInboundWorker, config.INBOUND_WORKER_POLL_MS);
+    }
+  });
+}
+
+async function poll(current: WorkerState): Promise<void> {
+  // Drain: finishing a job can unblock the next message of the same contact,
+  // so keep claiming until nothing is due
+  while (!current.stopped) {
+    let jobs: InboundJob[];
+
+    try {
+      jobs = await claimInboundJobs(current.workerId, CLAIM_BATCH_SIZE);
+    } catch (error) {
+      current.log.error({ error }, '[INBOUND_WORKER] Claim failed');
+      return;
+    }
+
+    for (const job of jobs) {
+      await processTurn(job, current);
+    }
+
+    if (jobs.length === 0) {
+      return;
+    }
+  }
+}
+
+/**
+ * Processes a claimed head job together with the rest of its burst.
+ */
+async function processTurn(head: InboundJob, current: WorkerState): Promise<void> {
+  const { log } = current;
+  let jobs = [head];
+
+  if (config.INBOUND_COALESCE_WINDOW_MS > 0) {
+    try {
+      jobs = [head, ...(await claimCoalescedJobs(current.workerId, head.ordering_key))];
+    } catch (error) {
+      // Still answer the head alone; the rest stay pending
+      log.error({ error, jobId: head.id }, '[INBOUND_WORKER] Coalesced claim failed');
+    }
+  }
+
+  const turnLog = {
+    jobIds: jobs.map((job) => job.id),
+    waMessageIds: jobs.map((job) => job.wa_message_id),
+    attempt: head.attempts,
+  };
+
+  // An agent turn can outlast the lease (LLM retries, second round): renew it
+  // at half the lease while the turn runs
+  let turnRunning = true;
+  const heartbeat = setInterval(() => {
+    extendInboundJobLease(jobs, current.workerId)
+      .then((held) => {
+        if (turnRunning && held.length < jobs.length) {
+          log.error({ ...turnLog, held }, '[INBOUND_WORKER] Lease lost during turn');
+        }
+      })
+      .catch((error) => log.error({ error, ...turnLog }, '[INBOUND_WORKER] Lease renewal failed'));
+  }, (config.INBOUND_JOB_LEASE_SECONDS * 1000) / 2);
+
+  try {
+    const result = await runInboundTurn(
+      jobs.map((job) => ({ ...job.payload, attempt: job.attempts })),
+      log
+    );
+    turnRunning = false;
+    clearInterval(heartbeat);
+
+    for (const job of jobs) {
+      await completeInboundJob(job, log);
+    }
+
+    incrementCounter('inbound_jobs_processed_total', { outcome: 'done' }, jobs.length);
+    if (jobs.length > 1) {
+      incrementCounter('inbound_turns_coalesced_total');
+    }
+    log.info({ ...turnLog, halted: result.halted }, '[INBOUND_WORKER] Turn done');
+  } catch (error) {
+    turnRunning = false;
+    clearInterval(heartbeat);
+    const errorMessage = error instanceof Error ? error.message : String(error);
+
+    for (const job of jobs) {
+      const status = await failInboundJob(job, errorMessage, log);
+      incrementCounter('inbound_jobs_processed_total', { outcome: status === 'dead' ? 'dead' : 'retry' });
+    }
+
+    log.error({ ...turnLog, error: errorMessage }, '[INBOUND_WORKER] Turn failed');
+  }
+}
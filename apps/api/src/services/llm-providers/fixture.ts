@@ -0,0 +1,60 @@
+import { readFileSync } from 'node:fs';
+import { z } from 'zod';
+import type { LlmProvider } from './provider.js';
+
+/**
+ * A recorded model answer. The first fixture whose `match` occurs in the
+ * request (system + prompt) is replayed; a fixture without `match` answers
+ * anything, so put it last as the default.
+ */
+const LlmFixtureSchema = z.object({
+  match: z.string().optional(),
+  /** Objects are served as JSON text, like a structured-output answer */
+  response: z.union([z.string(), z.record(z.unknown())]),
+  usage: z
+    .object({
+      input_tokens: z.number().int().nonnegative(),
+      output_tokens: z.number().int().nonnegative(),
+    })
+    .optional(),
+});
+
+export type LlmFixture = z.infer<typeof LlmFixtureSchema>;
+
+/**
+ * Reads a JSON file holding an array of fixtures (or `{ "fixtures": [...] }`).
+ */
+export function loadLlmFixtures(path: string): LlmFixture[] {
+  const parsed: unknown = JSON.parse(readFileSync(path, 'utf8'));
+  const list = Array.isArray(parsed) ? parsed : (parsed as { fixtures?: unknown })?.fixtures;
+  return z.array(LlmFixtureSchema).parse(list);
+}
+
+/**
+ * Deterministic provider for tests and offline runs: replays recorded answers
+ * instead of calling a model.
+ */
+export function createFixtureProvider(fixtures: LlmFixture[]): LlmProvider {
+  return {
+    name: 'fixture',
+    model: 'fixture',
+
+    async generate(request) {
+      const haystack = `${request.system ?? ''}\n${request.prompt}`;
+      const fixture = fixtures.find((f) => f.match === undefined || haystack.includes(f.match));
+
+      if (!fixture) {
+        return { ok: false, error: 'No fixture matches the request', retryable: false };
+      }
+
+      return {
+        ok: true,
+        text: typeof fixture.response === 'string' ? fixture.response : JSON.stringify(fixture.response),
+        usage: {
+          inputTokens: fixture.usage?.input_tokens ?? null,
+          outputTokens: fixture.usage?.output_tokens ?? null,
+        },
+      };
+    },
+  };
+}
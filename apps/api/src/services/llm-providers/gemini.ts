@@ -0,0 +1,62 @@
+import {
+  GoogleGenerativeAI,
+  GoogleGenerativeAIFetchError,
+  GoogleGenerativeAIResponseError,
+} from '@google/generative-ai';
+import { isRetryableStatus, type LlmProvider } from './provider.js';
+
+export interface GeminiProviderOptions {
+  apiKey: string;
+  model: string;
+}
+
+export function createGeminiProvider(options: GeminiProviderOptions): LlmProvider {
+  const genAI = new GoogleGenerativeAI(options.apiKey);
+
+  return {
+    name: 'gemini',
+    model: options.model,
+
+    async generate(request, signal) {
+      const model = genAI.getGenerativeModel({
+        model: options.model,
+        ...(request.system ? { systemInstruction: request.system } : {}),
+        generationConfig: {
+          maxOutputTokens: request.maxOutputTokens,
+          temperature: request.temperature,
+          ...(request.responseFormat === 'json' ? { responseMimeType: 'application/json' } : {}),
+        },
+      });
+
+      try {
+        const result = await model.generateContent(
+          { contents: [{ role: 'user', parts: [{ text: request.prompt }] }] },
+          { signal }
+        );
+        const usage = result.response.usageMetadata;
+
+        return {
+          ok: true,
+          text: result.response.text(),
+          usage: {
+            inputTokens: usage?.promptTokenCount ?? null,
+            outputTokens: usage?.candidatesTokenCount ?? null,
+          },
+        };
+      } catch (error) {
+        if (error instanceof GoogleGenerativeAIFetchError) {
+          return {
+            ok: false,
+            error: error.message,
+            retryable: error.status === undefined || isRetryableStatus(error.status),
+          };
+        }
+        // Blocked by safety filters: asking again gives the same answer
+        if (error instanceof GoogleGenerativeAIResponseError) {
+          return { ok: false, error: error.message, retryable: false };
+        }
+        throw error;
+      }
+    },
+  };
+}
@@ -0,0 +1,72 @@
+import { isRetryableStatus, type LlmProvider } from './provider.js';
+
+export interface OpenAiCompatibleProviderOptions {
+  /** e.g. https://api.openai.com/v1 or http://localhost:8080/v1 (llama.cpp server) */
+  baseUrl: string;
+  /** Local servers usually run without a key */
+  apiKey: string | null;
+  model: string;
+}
+
+/**
+ * Chat Completions API, as implemented by OpenAI and most self-hosted servers.
+ */
+export function createOpenAiCompatibleProvider(options: OpenAiCompatibleProviderOptions): LlmProvider {
+  const url = `${options.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  return {
+    name: 'openai_compatible',
+    model: options.model,
+
+    async generate(request, signal) {
+      const messages = [
+        ...(request.system ? [{ role: 'system', content: request.system }] : []),
+        { role: 'user', content: request.prompt },
+      ];
+
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(options.apiKey ? { 'Authorization': `Bearer ${options.apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model: options.model,
+          messages,
+          max_tokens: request.maxOutputTokens,
+          temperature: request.temperature,
+          ...(request.responseFormat === 'json' ? { response_format: { type: 'json_object' } } : {}),
+        }),
+        signal,
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        return {
+          ok: false,
+          error: `${response.status}: ${errorText.slice(0, 500)}`,
+          retryable: isRetryableStatus(response.status),
+        };
+      }
+
+      const data = (await response.json()) as {
+        choices?: Array<{ message?: { content?: string | null } }>;
+        usage?: { prompt_tokens?: number; completion_tokens?: number };
+      };
+
+      const text = data.choices?.[0]?.message?.content;
+      if (typeof text !== 'string') {
+        return { ok: false, error: 'Response has no message content', retryable: false };
+      }
+
+      return {
+        ok: true,
+        text,
+        usage: {
+          inputTokens: data.usage?.prompt_tokens ?? null,
+          outputTokens: data.usage?.completion_tokens ?? null,
+        },
+      };
+    },
+  };
+}
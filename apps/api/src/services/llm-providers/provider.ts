@@ -0,0 +1,204 @@
+/**
+ * LLM provider layer
+ *
+ * One interface for every model call (Agent V2 orchestrator, legacy sales
+ * agent, V1 rules fallback). Adapters only translate a request into their
+ * API; timeouts, retries and token/latency accounting live here.
+ */
+
+import { config } from '../../lib/config.js';
+import { incrementCounter } from '../../lib/metrics.js';
+import type { AppLogger } from '../../lib/types.js';
+import { createGeminiProvider } from './gemini.js';
+import { createOpenAiCompatibleProvider } from './openai-compatible.js';
+import { createFixtureProvider, loadLlmFixtures } from './fixture.js';
+
+export type LlmProviderName = 'gemini' | 'openai_compatible' | 'fixture';
+
+export interface LlmRequest {
+  /** System instructions, kept apart from the user content */
+  system?: string;
+  prompt: string;
+  /** 'json' asks the model for a single JSON object (structured output mode) */
+  responseFormat?: 'text' | 'json';
+  maxOutputTokens?: number;
+  temperature?: number;
+  /** Caller label for metrics and logs, e.g. 'agent_v2' */
+  purpose?: string;
+}
+
+export interface LlmUsage {
+  inputTokens: number | null;
+  outputTokens: number | null;
+}
+
+/** One attempt, as reported by an adapter. Thrown errors count as retryable. */
+export type LlmProviderResult =
+  | { ok: true; text: string; usage: LlmUsage }
+  | { ok: false; error: string; retryable: boolean };
+
+export interface LlmProvider {
+  name: LlmProviderName;
+  model: string;
+  generate(request: LlmRequest, signal: AbortSignal): Promise<LlmProviderResult>;
+}
+
+export type LlmResult =
+  | {
+      ok: true;
+      text: string;
+      usage: LlmUsage;
+      provider: LlmProviderName;
+      model: string;
+      latencyMs: number;
+      attempts: number;
+    }
+  | { ok: false; error: string; latencyMs: number; attempts: number };
+
+export interface LlmCallOptions {
+  timeoutMs?: number;
+  maxRetries?: number;
+  log?: AppLogger;
+}
+
+// Retry delays: ~500ms, ~1s, ~2s ... with full jitter
+const RETRY_BASE_MS = 500;
+const RETRY_MAX_MS = 5_000;
+
+/**
+ * HTTP statuses worth retrying: timeouts, rate limits and server errors.
+ */
+export function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+/**
+ * Runs a request with a per-attempt timeout and retries (exponential backoff
+ * with jitter) on retryable failures. Never throws.
+ */
+export async function generateWithProvider(
+  provider: LlmProvider,
+  request: LlmRequest,
+  options: LlmCallOptions = {}
+): Promise<LlmResult> {
+  const timeoutMs = options.timeoutMs ?? config.LLM_TIMEOUT_MS;
+  const maxRetries = options.maxRetries ?? config.LLM_MAX_RETRIES;
+  const labels = { provider: provider.name, purpose: request.purpose ?? 'unknown' };
+  const startedAt = Date.now();
+  let lastError = 'No attempt made';
+  let attempts = 0;
+
+  while (attempts <= maxRetries) {
+    if (attempts > 0) {
+      incrementCounter('llm_retries_total', labels);
+      await sleep(getRetryDelayMs(attempts));
+    }
+    attempts++;
+
+    const result = await attempt(provider, request, timeoutMs);
+
+    if (result.ok) {
+      const latencyMs = Date.now() - startedAt;
+      recordUsage(labels, result.usage, latencyMs, 'ok');
+      options.log?.debug({ ...labels, model: provider.model, latencyMs, attempts, ...result.usage }, '[LLM] Call succeeded');
+
+      return {
+        ok: true,
+        text: result.text,
+        usage: result.usage,
+        provider: provider.name,
+        model: provider.model,
+        latencyMs,
+        attempts,
+      };
+    }
+
+    lastError = result.error;
+    options.log?.warn({ ...labels, attempt: attempts, error: result.error }, '[LLM] Call failed');
+
+    if (!result.retryable) {
+      break;
+    }
+  }
+
+  const latencyMs = Date.now() - startedAt;
+  recordUsage(labels, { inputTokens: null, outputTokens: null }, latencyMs, 'error');
+  return { ok: false, error: lastError, latencyMs, attempts };
+}
+
+async function attempt(provider: LlmProvider, request: LlmRequest, timeoutMs: number): Promise<LlmProviderResult> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    return await provider.generate(request, controller.signal);
+  } catch (error) {
+    if (controller.signal.aborted) {
+      return { ok: false, error: `Timed out after ${timeoutMs}ms`, retryable: true };
+    }
+    // Network errors and the like
+    return { ok: false, error: error instanceof Error ? error.message : String(error), retryable: true };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+function getRetryDelayMs(retry: number): number {
+  const cap = Math.min(RETRY_BASE_MS * 2 ** (retry - 1), RETRY_MAX_MS);
+  return Math.round(cap / 2 + Math.random() * (cap / 2));
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function recordUsage(
+  labels: { provider: string; purpose: string },
+  usage: LlmUsage,
+  latencyMs: number,
+  outcome: 'ok' | 'error'
+): void {
+  incrementCounter('llm_requests_total', { ...labels, outcome });
+  incrementCounter('llm_latency_ms_total', labels, latencyMs);
+  if (usage.inputTokens !== null) {
+    incrementCounter('llm_tokens_total', { ...labels, direction: 'input' }, usage.inputTokens);
+  }
+  if (usage.outputTokens !== null) {
+    incrementCounter('llm_tokens_total', { ...labels, direction: 'output' }, usage.outputTokens);
+  }
+}
+
+// =============================================================================
+// Configured provider
+// =============================================================================
+
+let configuredProvider: LlmProvider | null | undefined;
+
+/**
+ * Returns the provider selected by LLM_PROVIDER, or null when it is not
+ * configured (e.g. Gemini without GEMINI_API_KEY); callers then fall back to
+ * their canned responses.
+ */
+export function getLlmProvider(): LlmProvider | null {
+  if (configuredProvider === undefined) {
+    configuredProvider = getLlmProviderFor(config.LLM_PROVIDER);
+  }
+  return configuredProvider;
+}
+
+export function getLlmProviderFor(name: LlmProviderName): LlmProvider | null {
+  switch (name) {
+    case 'gemini':
+      return config.GEMINI_API_KEY
+        ? createGeminiProvider({ apiKey: config.GEMINI_API_KEY, model: config.GEMINI_MODEL })
+        : null;
+    case 'openai_compatible':
+      return createOpenAiCompatibleProvider({
+        baseUrl: config.OPENAI_COMPATIBLE_BASE_URL,
+        apiKey: config.OPENAI_COMPATIBLE_API_KEY ?? null,
+        model: config.OPENAI_COMPATIBLE_MODEL,
+      });
+    case 'fixture':
+      return config.LLM_FIXTURES_PATH ? createFixtureProvider(loadLlmFixtures(config.LLM_FIXTURES_PATH)) : null;
+  }
+}
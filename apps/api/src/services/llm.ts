@@ -1,30 +1,15 @@
+import { generateWithProvider, getLlmProvider } from "./llm-providers/provider.js";
 
-const GEMINI_API_KEY = process.env.GEMINI_API_KEY;
-if (!GEMINI_API_KEY) {
-  throw new Error("GEMINI_API_KEY not set");
-}
-
+/**
+ * Free-form answer for messages the V1 rules don't handle.
+ */
 export async function generateReply(input: string): Promise<string> {
-  const res = await fetch(
-    "https://generativelanguage.googleapis.com/v1beta/models/gemini-1.5-flash:generateContent?key=" + GEMINI_API_KEY,
-    {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        contents: [
-          {
-            role: "user",
-            parts: [{ text: input }]
-          }
-        ]
-      })
-    }
-  );
+  const provider = getLlmProvider();
+  if (!provider) {
+    throw new Error("LLM provider not configured (LLM_PROVIDER / GEMINI_API_KEY)");
+  }
 
-  const data = await res.json();
+  const result = await generateWithProvider(provider, { prompt: input, purpose: "rules_fallback" });
 
-return (
-  (data as any)?.candidates?.[0]?.content?.parts?.[0]?.text ??
-  "No pude responder en este momento."
-);
+  return result.ok && result.text.trim() ? result.text : "No pude responder en este momento.";
 }
@@ -0,0 +1,187 @@
+import { createHash } from 'node:crypto';
+import { supabaseAdmin } from '../../lib/supabase.js';
+import { config } from '../../lib/config.js';
+import type { AppLogger } from '../../lib/types.js';
+import { fetchMediaInfo, downloadMedia, type WhatsAppCredentials } from '../whatsapp-client.js';
+import { getMediaStorage, getMediaStorageFor, type MediaStorageBackend } from './storage.js';
+
+export interface MediaAsset {
+  id: string;
+  wa_media_id: string;
+  message_id: string | null;
+  status: 'stored' | 'failed';
+  mime_type: string | null;
+  size_bytes: number | null;
+  sha256: string | null;
+  filename: string | null;
+  storage_backend: MediaStorageBackend | null;
+  storage_path: string | null;
+  error: string | null;
+}
+
+export interface StoreInboundMediaParams {
+  mediaId: string;
+  /** sha256 from the webhook payload (base64 or hex) */
+  expectedSha256: string | null;
+  mimeType: string;
+  filename: string | null;
+  messageId: string | null;
+  tenantId: string;
+  /** Credentials of the business number that received the media */
+  credentials?: WhatsAppCredentials;
+}
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': '.jpg',
+  'image/png': '.png',
+  'image/webp': '.webp',
+  'application/pdf': '.pdf',
+  'video/mp4': '.mp4',
+  'audio/ogg': '.ogg',
+  'audio/mpeg': '.mp3',
+};
+
+/**
+ * Downloads a WhatsApp media object, verifies its sha256 and stores it.
+ *
+ * Idempotent per media id: an already stored asset is returned as is. Failures
+ * are recorded on the asset row (status 'failed') rather than thrown, so a bad
+ * attachment never blocks the conversation.
+ */
+export async function storeInboundMedia(
+  params: StoreInboundMediaParams,
+  log: AppLogger
+): Promise<MediaAsset | null> {
+  const { mediaId } = params;
+
+  const { data: existing } = await supabaseAdmin
+    .from('media_assets')
+    .select('*')
+    .eq('wa_media_id', mediaId)
+    .maybeSingle();
+
+  if (existing?.status === 'stored') {
+    return existing as MediaAsset;
+  }
+
+  const result = await downloadAndStore(params);
+
+  const row = {
+    tenant_id: params.tenantId,
+    wa_media_id: mediaId,
+    message_id: params.messageId,
+    filename: params.filename,
+    ...(result.ok
+      ? { status: 'stored', error: null, ...result.stored }
+      : { status: 'failed', error: result.error, mime_type: params.mimeType }),
+    updated_at: new Date().toISOString(),
+  };
+
+  const { data: asset, error } = await supabaseAdmin
+    .from('media_assets')
+    .upsert(row, { onConflict: 'wa_media_id' })
+    .select('*')
+    .single();
+
+  if (error || !asset) {
+    log.error({ error, mediaId }, '[MEDIA] Failed to record media asset');
+    return null;
+  }
+
+  if (result.ok) {
+    log.info(
+      { mediaId, assetId: asset.id, size: result.stored.size_bytes, backend: result.stored.storage_backend },
+      '[MEDIA] Media stored'
+    );
+  } else {
+    log.warn({ mediaId, assetId: asset.id, error: result.error }, '[MEDIA] Media download failed');
+  }
+
+  return asset as MediaAsset;
+}
+
+async function downloadAndStore(params: StoreInboundMediaParams): Promise<
+  | {
+      ok: true;
+      stored: {
+        mime_type: string;
+        size_bytes: number;
+        sha256: string;
+        storage_backend: MediaStorageBackend;
+        storage_path: string;
+      };
+    }
+  | { ok: false; error: string }
+> {
+  const info = await fetchMediaInfo(params.mediaId, params.credentials);
+  if (!info.ok) {
+    return { ok: false, error: `Media lookup failed: ${info.error}` };
+  }
+
+  const download = await downloadMedia(info.value.url, config.MEDIA_MAX_BYTES, params.credentials);
+  if (!download.ok) {
+    return download;
+  }
+
+  const data = download.value;
+  const expectedSha256 = params.expectedSha256 || info.value.sha256;
+
+  if (expectedSha256 && !matchesSha256(data, expectedSha256)) {
+    return { ok: false, error: 'sha256 mismatch' };
+  }
+
+  const mimeType = info.value.mime_type || params.mimeType;
+  const storage = getMediaStorage();
+  const storagePath = buildStoragePath(params.tenantId, params.mediaId, mimeType);
+
+  try {
+    await storage.put(storagePath, data, mimeType);
+  } catch (error) {
+    return { ok: false, error: error instanceof Error ? error.message : String(error) };
+  }
+
+  return {
+    ok: true,
+    stored: {
+      mime_type: mimeType,
+      size_bytes: data.length,
+      sha256: createHash('sha256').update(data).digest('hex'),
+      storage_backend: storage.backend,
+      storage_path: storagePath,
+    },
+  };
+}
+
+/**
+ * Reads a stored asset back from the backend it was written to.
+ */
+export async function readMediaAsset(
+  assetId: string
+): Promise<{ asset: MediaAsset; data: Buffer } | null> {
+  const { data: asset } = await supabaseAdmin
+    .from('media_assets')
+    .select('*')
+    .eq('id', assetId)
+    .maybeSingle();
+
+  if (!asset || asset.status !== 'stored' || !asset.storage_backend || !asset.storage_path) {
+    return null;
+  }
+
+  const data = await getMediaStorageFor(asset.storage_backend).get(asset.storage_path);
+  return data ? { asset: asset as MediaAsset, data } : null;
+}
+
+// WhatsApp sends the hash base64-encoded; accept hex as well
+function matchesSha256(data: Buffer, expected: string): boolean {
+  const digest = createHash('sha256').update(data).digest();
+  return expected === digest.toString('base64') || expected.toLowerCase() === digest.toString('hex');
+}
+
+function buildStoragePath(tenantId: string, mediaId: string, mimeType: string): string {
+  const now = new Date();
+  const month = String(now.getUTCMonth() + 1).padStart(2, '0');
+  const safeId = mediaId.replace(/[^A-Za-z0-9_-]/g, '_');
+  const extension = EXTENSIONS[mimeType.split(';')[0].trim()] || '';
+  return `${tenantId}/${now.getUTCFullYear()}/${month}/${safeId}${extension}`;
+}
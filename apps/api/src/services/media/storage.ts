@@ -0,0 +1,109 @@
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { dirname, resolve, sep } from 'node:path';
+import { supabaseAdmin } from '../../lib/supabase.js';
+import { config } from '../../lib/config.js';
+
+export type MediaStorageBackend = 'supabase' | 'local';
+
+export interface MediaStorage {
+  backend: MediaStorageBackend;
+  put(path: string, data: Buffer, mimeType: string): Promise<void>;
+  /** Returns null when nothing is stored at `path` */
+  get(path: string): Promise<Buffer | null>;
+}
+
+// =============================================================================
+// Supabase Storage
+// =============================================================================
+
+export function createSupabaseMediaStorage(bucket: string): MediaStorage {
+  return {
+    backend: 'supabase',
+
+    async put(path, data, mimeType) {
+      const { error } = await supabaseAdmin.storage
+        .from(bucket)
+        .upload(path, data, { contentType: mimeType, upsert: true });
+
+      if (error) {
+        throw new Error(`Supabase Storage upload failed: ${error.message}`);
+      }
+    },
+
+    async get(path) {
+      const { data, error } = await supabaseAdmin.storage.from(bucket).download(path);
+
+      if (error || !data) {
+        return null;
+      }
+
+      return Buffer.from(await data.arrayBuffer());
+    },
+  };
+}
+
+// =============================================================================
+// Local disk (development)
+// =============================================================================
+
+export function createLocalMediaStorage(rootDir: string): MediaStorage {
+  const root = resolve(rootDir);
+
+  // Storage paths are generated by us, but never allow escaping the root
+  const toFilePath = (path: string) => {
+    const filePath = resolve(root, path);
+    if (!filePath.startsWith(root + sep)) {
+      throw new Error(`Invalid media path: ${path}`);
+    }
+    return filePath;
+  };
+
+  return {
+    backend: 'local',
+
+    async put(path, data) {
+      const filePath = toFilePath(path);
+      await mkdir(dirname(filePath), { recursive: true });
+      await writeFile(filePath, data);
+    },
+
+    async get(path) {
+      try {
+        return await readFile(toFilePath(path));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          return null;
+        }
+        throw error;
+      }
+    },
+  };
+}
+
+let storage: MediaStorage | null = null;
+
+/**
+ * Returns the storage adapter selected by MEDIA_STORAGE.
+ */
+export function getMediaStorage(): MediaStorage {
+  if (!storage) {
+    storage =
+      config.MEDIA_STORAGE === 'local'
+        ? createLocalMediaStorage(config.MEDIA_LOCAL_DIR)
+        : createSupabaseMediaStorage(config.MEDIA_STORAGE_BUCKET);
+  }
+  return storage;
+}
+
+/**
+ * Returns the adapter a stored asset was written with (the setting may have changed since).
+ */
+export function getMediaStorageFor(backend: MediaStorageBackend): MediaStorage {
+  const current = getMediaStorage();
+  if (current.backend === backend) {
+    return current;
+  }
+  return backend === 'local'
+    ? createLocalMediaStorage(config.MEDIA_LOCAL_DIR)
+    : createSupabaseMediaStorage(config.MEDIA_STORAGE_BUCKET);
+}
@@ -1,12 +1,18 @@
 import { supabaseAdmin } from '../lib/supabase.js';
 import { config } from '../lib/config.js';
 import type { AppLogger } from '../lib/types.js';
-import { enqueueOutboundMessage } from './outbound-queue.js';
+import { enqueueOutboundMessage, dispatchOutboundMessage } from './outbound-queue.js';
 
 interface StoreOutboundMessageParams {
   conversationId: string;
   body: string;
   orderId?: string;
+  /** Send immediately after queueing (otherwise it stays pending in the queue) */
+  dispatch?: boolean;
+  /** Queue for WhatsApp at all (off for applied replays: stored in the conversation only) */
+  enqueue?: boolean;
+  /** Bump conversations.last_message_at (off for nudges, which must not reset the idle clock) */
+  touchConversation?: boolean;
   log: AppLogger;
 }
 
@@ -17,13 +23,13 @@ interface StoreOutboundMessageParams {
 export async function storeOutboundMessage(
   params: StoreOutboundMessageParams
 ): Promise<string | null> {
-  const { conversationId, body, orderId, log } = params;
+  const { conversationId, body, orderId, dispatch = false, enqueue = true, touchConversation = true, log } = params;
 
-  // First, get the contact phone for the conversation
+  // First, get the contact phone and business number for the conversation
   log.info({ conversationId }, '[DEBUG] About to query conversation for contact phone');
   const { data: conversation, error: convError } = await supabaseAdmin
     .from('conversations')
-    .select('contact_id, contacts!inner(wa_phone)')
+    .select('tenant_id, phone_number_id, contact_id, contacts!inner(wa_phone)')
     .eq('id', conversationId)
     .single();
 
@@ -37,11 +43,12 @@ export async function storeOutboundMessage(
   const toPhone = contactData?.wa_phone;
 
   // Store in messages table
-  log.info({ tenant_id: config.TENANT_ID, conversation_id: conversationId, direction: 'out', body }, '[DEBUG] About to insert OUTBOUND message into messages table');
+  const tenantId = conversation?.tenant_id ?? config.TENANT_ID;
+  log.info({ tenant_id: tenantId, conversation_id: conversationId, direction: 'out', body }, '[DEBUG] About to insert OUTBOUND message into messages table');
   const { data, error } = await supabaseAdmin
     .from('messages')
     .insert({
-      tenant_id: config.TENANT_ID,
+      tenant_id: tenantId,
       conversation_id: conversationId,
       direction: 'out',
       message_type: 'text',
@@ -60,23 +67,35 @@ export async function storeOutboundMessage(
   }
 
   // Update conversation last_message_at
-  await supabaseAdmin
-    .from('conversations')
-    .update({ last_message_at: new Date().toISOString() })
-    .eq('id', conversationId);
+  if (touchConversation) {
+    await supabaseAdmin
+      .from('conversations')
+      .update({ last_message_at: new Date().toISOString() })
+      .eq('id', conversationId);
+  }
+
+  if (!enqueue) {
+    return data.id;
+  }
 
   // Enqueue for actual sending (if we have a phone number)
   if (toPhone) {
-    await enqueueOutboundMessage(
+    const queued = await enqueueOutboundMessage(
       {
         to_phone: toPhone,
         body,
         message_type: 'text',
         conversation_id: conversationId,
         order_id: orderId,
+        // Reply from the number the customer wrote to
+        phone_number_id: conversation?.phone_number_id,
       },
       log
     );
+
+    if (queued && dispatch) {
+      await dispatchOutboundMessage(queued.outbound_id, log);
+    }
   } else {
     log.warn({ conversationId }, 'No phone number found for conversation, message not queued for sending');
   }
@@ -19,7 +19,13 @@ export type CreatePendingOrderInput = {
   currency?: string;                // default BOB
   conversationId: string;           // REQUIRED
   tenantId: string;                 // REQUIRED
+  deliveryMethod?: string;          // 'delivery' | 'pickup'
+  deliveryAddress?: string | null;
+  deliverySlot?: string | null;
   source: 'whatsapp';               // literal, for traceability (not persisted)
+  // Retries with the same key return the open order instead of inserting another.
+  // Keyed orders are created directly in PENDING_PAYMENT.
+  idempotencyKey?: string;
 };
 
 export type CreatePendingOrderResult =
@@ -32,6 +38,10 @@ export type CreatePendingOrderResult =
 
 const REQUIRED_PAYMENTS_COLUMNS = ['order_id', 'conversation_id', 'tenant_id'] as const;
 
+const OPEN_ORDER_STATUS = 'PENDING_PAYMENT';
+
+const UNIQUE_VIOLATION = '23505';
+
 // ============================================================================
 // Helper: Verify payments table has required columns
 // ============================================================================
@@ -72,6 +82,28 @@ async function verifyPaymentsSchema(): Promise<{ valid: true } | { valid: false;
   return { valid: true };
 }
 
+// ============================================================================
+// Helper: Find the open order created with an idempotency key
+// ============================================================================
+
+async function findOpenOrderByKey(
+  idempotencyKey: string
+): Promise<{ ok: true; orderId: string | null } | { ok: false; error: string }> {
+  const { data, error } = await supabaseAdmin
+    .from('orders')
+    .select('id')
+    .eq('idempotency_key', idempotencyKey)
+    .eq('status', OPEN_ORDER_STATUS)
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    return { ok: false, error: `Failed to look up order by idempotency key: ${error.message}` };
+  }
+
+  return { ok: true, orderId: data ? (data.id as string) : null };
+}
+
 // ============================================================================
 // Main function
 // ============================================================================
@@ -99,7 +131,22 @@ export async function createPendingOrder(
     };
   }
 
-  // 3. Insert into orders table
+  // 3. Reuse the open order of a previous attempt with the same key
+  let orderId: string | null = null;
+
+  if (input.idempotencyKey) {
+    const existing = await findOpenOrderByKey(input.idempotencyKey);
+    if (!existing.ok) {
+      return existing;
+    }
+    orderId = existing.orderId;
+  }
+
+  if (orderId) {
+    return reuseOpenOrder(orderId, input);
+  }
+
+  // 4. Insert into orders table
   const orderPayload: Record<string, unknown> = {
     customer_phone: input.customerPhone,
   };
@@ -116,7 +163,20 @@ export async function createPendingOrder(
   if (input.currency !== undefined) {
     orderPayload.currency = input.currency;
   }
-  // status defaults to 'INICIO' per schema, do not override
+  if (input.deliveryMethod !== undefined) {
+    orderPayload.delivery_method = input.deliveryMethod;
+  }
+  if (input.deliveryAddress !== undefined) {
+    orderPayload.delivery_address = input.deliveryAddress;
+  }
+  if (input.deliverySlot !== undefined) {
+    orderPayload.delivery_slot = input.deliverySlot;
+  }
+  if (input.idempotencyKey) {
+    orderPayload.idempotency_key = input.idempotencyKey;
+    orderPayload.status = OPEN_ORDER_STATUS;
+  }
+  // otherwise status defaults to 'INICIO' per schema, do not override
 
   const { data: orderData, error: orderError } = await supabaseAdmin
     .from('orders')
@@ -125,6 +185,22 @@ export async function createPendingOrder(
     .single();
 
   if (orderError) {
+    // A concurrent attempt with the same key won the insert: use its order.
+    // Read once; if it is already gone (paid or canceled), report the conflict
+    if (orderError.code === UNIQUE_VIOLATION && input.idempotencyKey) {
+      const winner = await findOpenOrderByKey(input.idempotencyKey);
+      if (!winner.ok) {
+        return winner;
+      }
+      if (!winner.orderId) {
+        return {
+          ok: false,
+          error: `Order with idempotency key ${input.idempotencyKey} already exists but is no longer open`,
+        };
+      }
+      return reuseOpenOrder(winner.orderId, input);
+    }
+
     return {
       ok: false,
       error: `Failed to insert order: ${orderError.message}`,
@@ -138,9 +214,47 @@ export async function createPendingOrder(
     };
   }
 
-  const orderId = orderData.id as string;
+  return insertPendingPayment(orderData.id as string, input);
+}
+
+// ============================================================================
+// Helper: Return an open order created by a previous or concurrent attempt
+// ============================================================================
+
+async function reuseOpenOrder(
+  orderId: string,
+  input: CreatePendingOrderInput
+): Promise<CreatePendingOrderResult> {
+  // The other attempt may have stopped before inserting its payment
+  const { data: existingPayment, error: existingPaymentError } = await supabaseAdmin
+    .from('payments')
+    .select('id')
+    .eq('order_id', orderId)
+    .limit(1)
+    .maybeSingle();
+
+  if (existingPaymentError) {
+    return {
+      ok: false,
+      error: `Failed to look up payment for order ${orderId}: ${existingPaymentError.message}`,
+    };
+  }
+
+  if (existingPayment) {
+    return { ok: true, orderId, paymentId: existingPayment.id as string };
+  }
+
+  return insertPendingPayment(orderId, input);
+}
+
+// ============================================================================
+// Helper: Insert the pending payment of an order
+// ============================================================================
 
-  // 4. Insert into payments table
+async function insertPendingPayment(
+  orderId: string,
+  input: CreatePendingOrderInput
+): Promise<CreatePendingOrderResult> {
   const paymentPayload: Record<string, unknown> = {
     order_id: orderId,
     conversation_id: input.conversationId,
@@ -172,7 +286,6 @@ export async function createPendingOrder(
 
   const paymentId = paymentData.id as string;
 
-  // 5. Success
   return {
     ok: true,
     orderId,
@@ -1,5 +1,9 @@
 import { supabaseAdmin } from '../lib/supabase.js';
+import { incrementCounter } from '../lib/metrics.js';
 import type { AppLogger } from '../lib/types.js';
+import { sendWhatsAppMessage, type SendWhatsAppResult } from './whatsapp-client.js';
+import { getSenderCredentials } from './channel-accounts.js';
+import { linkEarlyStatusEvents } from './status-tracker.js';
 
 export interface EnqueueOutboundMessageParams {
   to_phone: string;
@@ -8,6 +12,8 @@ export interface EnqueueOutboundMessageParams {
   conversation_id?: string;
   order_id?: string;
   seller_id?: string;
+  /** Business number to send from (defaults to WHATSAPP_PHONE_NUMBER_ID) */
+  phone_number_id?: string | null;
   metadata?: Record<string, unknown>;
 }
 
@@ -34,6 +40,7 @@ export async function enqueueOutboundMessage(
     conversation_id,
     order_id,
     seller_id,
+    phone_number_id,
     metadata = {},
   } = params;
 
@@ -47,6 +54,7 @@ export async function enqueueOutboundMessage(
       conversation_id: conversation_id || null,
       order_id: order_id || null,
       seller_id: seller_id || null,
+      phone_number_id: phone_number_id || null,
       metadata,
       channel: 'whatsapp',
       status: 'pending',
@@ -65,6 +73,82 @@ export async function enqueueOutboundMessage(
   return { outbound_id: data.id };
 }
 
+/**
+ * Sends a queued outbound message through WhatsApp and records the result.
+ * Skipped sends (no credentials) leave the message pending in the queue, and
+ * so do network errors and timeouts (with the error recorded): it never throws
+ * because of the send.
+ */
+export async function dispatchOutboundMessage(
+  outboundId: string,
+  log: AppLogger
+): Promise<boolean> {
+  const { data: outbound, error } = await supabaseAdmin
+    .from('outbound_messages')
+    .select('id, to_phone, body, status, phone_number_id')
+    .eq('id', outboundId)
+    .single();
+
+  if (error || !outbound) {
+    log.error({ error, outboundId }, 'Outbound message not found for dispatch');
+    return false;
+  }
+
+  if (outbound.status !== 'pending') {
+    log.debug({ outboundId, status: outbound.status }, 'Outbound message already dispatched');
+    return false;
+  }
+
+  const credentials = await getSenderCredentials(outbound.phone_number_id);
+  if (!credentials) {
+    log.warn({ outboundId, phoneNumberId: outbound.phone_number_id }, 'No active channel account to send from');
+    return false;
+  }
+
+  let result: SendWhatsAppResult;
+  try {
+    result = await sendWhatsAppMessage(outbound.to_phone, outbound.body, log, credentials);
+  } catch (error) {
+    // Network error or timeout: the send may or may not have reached WhatsApp.
+    // Keep the message pending with the error instead of throwing, so the
+    // caller (an inbound turn) doesn't retry and answer the customer twice
+    const message = error instanceof Error ? error.message : String(error);
+    incrementCounter('outbound_dispatch_errors_total');
+    log.warn({ error: message, outboundId }, 'Outbound dispatch failed, message left pending');
+
+    await supabaseAdmin
+      .from('outbound_messages')
+      .update({ error: `Dispatch error: ${message}` })
+      .eq('id', outboundId)
+      .eq('status', 'pending');
+
+    return false;
+  }
+
+  if (!result.ok && result.skipped) {
+    return false;
+  }
+
+  const now = new Date().toISOString();
+  const updateData = result.ok
+    ? { status: 'sent', provider_message_id: result.providerMessageId, sent_at: now }
+    : { status: 'failed', error: result.error, failed_at: now };
+
+  const { error: updateError } = await supabaseAdmin
+    .from('outbound_messages')
+    .update(updateData)
+    .eq('id', outboundId)
+    .eq('status', 'pending');
+
+  if (updateError) {
+    log.error({ error: updateError, outboundId }, 'Failed to record outbound dispatch result');
+  } else if (result.ok && result.providerMessageId) {
+    await linkEarlyStatusEvents(outboundId, result.providerMessageId, log);
+  }
+
+  return result.ok;
+}
+
 export interface SendMessageParams {
   to_phone: string;
   body: string;
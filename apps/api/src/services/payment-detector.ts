@@ -35,6 +35,12 @@ export function detectPaymentProof(
     return true;
   }
 
+  // Bank apps often share receipts as PDF (or image) documents
+  const documentMime = message.document?.mime_type || '';
+  if (message.type === 'document' && (documentMime === 'application/pdf' || documentMime.startsWith('image/'))) {
+    return true;
+  }
+
   // Check text for payment keywords
   if (message.type === 'text' && messageBody) {
     const lowerBody = messageBody.toLowerCase();
@@ -51,6 +57,8 @@ interface CreatePaymentReviewParams {
   customerName: string | null;
   messageText: string | null;
   mediaId: string | null;
+  mediaAssetId?: string | null;
+  tenantId?: string;
   log: AppLogger;
 }
 
@@ -64,6 +72,8 @@ export async function createPaymentReview(
     customerName,
     messageText,
     mediaId,
+    mediaAssetId = null,
+    tenantId = config.TENANT_ID,
     log,
   } = params;
 
@@ -120,10 +130,11 @@ export async function createPaymentReview(
     .from('payments')
     .insert({
       order_id: orderId,
-      tenant_id: config.TENANT_ID,
+      tenant_id: tenantId,
       conversation_id: conversationId,
       reported_by_phone: customerPhone,
       proof_media_id: mediaId,
+      proof_media_asset_id: mediaAssetId,
       proof_message_text: messageText,
       reported_at: new Date().toISOString(),
       status: 'pending',
@@ -140,7 +151,7 @@ export async function createPaymentReview(
   const { error: notifError } = await supabaseAdmin
     .from('vendi_merchant_notifications')
     .insert({
-      tenant_id: config.TENANT_ID,
+      tenant_id: tenantId,
       notification_type: 'payment_proof',
       title: 'Nuevo comprobante de pago',
       body: `${customerName || customerPhone} envió un comprobante de pago`,
@@ -0,0 +1,359 @@
+/**
+ * Session timeout scheduler
+ *
+ * Periodically emits SESSION_TIMEOUT for idle conversations (idle time is
+ * measured from conversations.last_message_at):
+ * - open carts (BROWSING, CART_OPEN, CHECKOUT) are dropped and the
+ *   conversation returns to IDLE
+ * - human override is released so the agent answers again
+ * - optionally, customers with an open cart get one "¿sigues ahí?" nudge
+ *
+ * Every change is a compare-and-set on conversation_state.version, the same
+ * token Agent V2 saves with: a turn that saves state in the meantime wins, and
+ * several API instances can run the scheduler side by side. Each change is
+ * recorded in action_history.
+ */
+
+import { config } from '../lib/config.js';
+import { supabaseAdmin } from '../lib/supabase.js';
+import { incrementCounter } from '../lib/metrics.js';
+import type { AppLogger } from '../lib/types.js';
+import {
+  DEFAULT_CART,
+  DEFAULT_DELIVERY,
+  getAgentV2Mode,
+  insertActionHistory,
+  type Cart,
+  type FsmState,
+} from '../agent_v2/index.js';
+import { storeOutboundMessage } from './message-store.js';
+
+const SCAN_BATCH_SIZE = 100;
+
+const CART_STATES: FsmState[] = ['BROWSING', 'CART_OPEN', 'CHECKOUT'];
+
+/** BROWSING has nothing in the cart worth a nudge */
+const NUDGE_STATES: FsmState[] = ['CART_OPEN', 'CHECKOUT'];
+
+const NUDGE_TEXT =
+  '¿Sigues ahí? 🙂 Tu carrito sigue guardado. Escríbeme cuando quieras continuar con tu pedido.';
+
+type SessionEffect = 'cart_expired' | 'override_released' | 'nudge_sent';
+
+interface IdleSession {
+  conversation_id: string;
+  fsm_state: FsmState;
+  cart_json: Cart;
+  human_override_at: string | null;
+  session_nudged_at: string | null;
+  version: number;
+  last_message_at: string;
+  /** last_message_at, or the takeover time for overrides when it is later */
+  last_activity_at: string;
+}
+
+export interface SessionTimeoutReport {
+  carts_expired: number;
+  overrides_released: number;
+  nudges_sent: number;
+}
+
+interface SchedulerState {
+  log: AppLogger;
+  timer: NodeJS.Timeout | null;
+  running: Promise<void> | null;
+  stopped: boolean;
+}
+
+let state: SchedulerState | null = null;
+
+// =============================================================================
+// Lifecycle
+// =============================================================================
+
+/**
+ * Starts the scan loop. Calling it twice is a no-op.
+ */
+export function startSessionScheduler(log: AppLogger): void {
+  if (state) {
+    return;
+  }
+
+  state = { log, timer: null, running: null, stopped: false };
+
+  log.info(
+    {
+      intervalMs: config.SESSION_SCHEDULER_INTERVAL_MS,
+      cartTimeoutMinutes: config.SESSION_CART_TIMEOUT_MINUTES,
+      overrideTimeoutMinutes: config.SESSION_OVERRIDE_TIMEOUT_MINUTES,
+      nudgeAfterMinutes: config.SESSION_NUDGE_AFTER_MINUTES,
+    },
+    '[SESSION_SCHEDULER] Started'
+  );
+  scheduleNext(state, 0);
+}
+
+/**
+ * Stops scanning and waits for the scan in flight to finish.
+ */
+export async function stopSessionScheduler(): Promise<void> {
+  if (!state) {
+    return;
+  }
+
+  const current = state;
+  current.stopped = true;
+  if (current.timer) {
+    clearTimeout(current.timer);
+  }
+  await current.running;
+
+  current.log.info('[SESSION_SCHEDULER] Stopped');
+  state = null;
+}
+
+function scheduleNext(current: SchedulerState, delayMs: number): void {
+  current.timer = setTimeout(() => {
+    current.timer = null;
+    current.running = runSessionTimeouts(current.log)
+      .then((report) => {
+        if (report.carts_expired + report.overrides_released + report.nudges_sent > 0) {
+          current.log.info(report, '[SESSION_SCHEDULER] Scan done');
+        }
+      })
+      .catch((error) => {
+        current.log.error({ error }, '[SESSION_SCHEDULER] Scan failed');
+      })
+      .finally(() => {
+        current.running = null;
+        if (!current.stopped) {
+          scheduleNext(current, config.SESSION_SCHEDULER_INTERVAL_MS);
+        }
+      });
+  }, delayMs);
+}
+
+// =============================================================================
+// Scan
+// =============================================================================
+
+/**
+ * One pass over idle conversations. Exported for one-off runs (scripts, debugging).
+ */
+export async function runSessionTimeouts(log: AppLogger, now: Date = new Date()): Promise<SessionTimeoutReport> {
+  const report: SessionTimeoutReport = { carts_expired: 0, overrides_released: 0, nudges_sent: 0 };
+  const cartTimeoutMs = config.SESSION_CART_TIMEOUT_MINUTES * 60_000;
+  const overrideTimeoutMs = config.SESSION_OVERRIDE_TIMEOUT_MINUTES * 60_000;
+  // Carts belong to Agent V2: don't nudge customers that V1 is answering
+  const nudgeAfterMs = getAgentV2Mode() === 'on' ? config.SESSION_NUDGE_AFTER_MINUTES * 60_000 : 0;
+
+  if (cartTimeoutMs > 0) {
+    const sessions = await loadIdleSessions({
+      fsmStates: CART_STATES,
+      humanOverride: false,
+      idleBefore: new Date(now.getTime() - cartTimeoutMs),
+    });
+
+    for (const session of sessions) {
+      if (await expireCart(session, idleTime(session, now), now, log)) {
+        report.carts_expired++;
+      }
+    }
+  }
+
+  if (nudgeAfterMs > 0) {
+    const sessions = await loadIdleSessions({
+      fsmStates: NUDGE_STATES,
+      humanOverride: false,
+      idleBefore: new Date(now.getTime() - nudgeAfterMs),
+      pendingNudgeOnly: true,
+    });
+
+    for (const session of sessions) {
+      const idleMs = idleTime(session, now);
+      // Past the cart timeout it is expired instead (a lost CAS retries next scan)
+      if (cartTimeoutMs > 0 && idleMs >= cartTimeoutMs) {
+        continue;
+      }
+      if (await sendNudge(session, idleMs, now, log)) {
+        report.nudges_sent++;
+      }
+    }
+  }
+
+  if (overrideTimeoutMs > 0) {
+    const sessions = await loadIdleSessions({
+      fsmStates: null,
+      humanOverride: true,
+      idleBefore: new Date(now.getTime() - overrideTimeoutMs),
+    });
+
+    for (const session of sessions) {
+      if (await releaseOverride(session, idleTime(session, now), now, log)) {
+        report.overrides_released++;
+      }
+    }
+  }
+
+  return report;
+}
+
+/**
+ * conversation_state rows idle since before idleBefore, least recently active
+ * first (see find_idle_sessions in the migration). The cutoff and the nudge
+ * filter run before the limit, so stale rows can't crowd out actionable ones.
+ */
+async function loadIdleSessions(params: {
+  fsmStates: FsmState[] | null;
+  humanOverride: boolean;
+  idleBefore: Date;
+  /** Only carts with items not nudged since the customer last wrote */
+  pendingNudgeOnly?: boolean;
+}): Promise<IdleSession[]> {
+  const { data, error } = await supabaseAdmin.rpc('find_idle_sessions', {
+    p_fsm_states: params.fsmStates,
+    p_human_override: params.humanOverride,
+    p_idle_before: params.idleBefore.toISOString(),
+    p_pending_nudge_only: params.pendingNudgeOnly ?? false,
+    p_limit: SCAN_BATCH_SIZE,
+  });
+
+  if (error) {
+    throw new Error(`Failed to load idle sessions: ${error.message}`);
+  }
+
+  return (data || []) as IdleSession[];
+}
+
+function idleTime(session: IdleSession, now: Date): number {
+  return now.getTime() - Date.parse(session.last_activity_at);
+}
+
+// =============================================================================
+// Effects
+// =============================================================================
+
+async function expireCart(session: IdleSession, idleMs: number, now: Date, log: AppLogger): Promise<boolean> {
+  const applied = await compareAndSet(session, {
+    fsm_state: 'IDLE',
+    cart_json: { ...DEFAULT_CART, items: [] },
+    delivery_json: { ...DEFAULT_DELIVERY },
+    updated_at: now.toISOString(),
+  });
+
+  if (applied) {
+    await recordTimeout(session, 'IDLE', 'cart_expired', idleMs, log, {
+      cart_items: session.cart_json?.items?.length ?? 0,
+    });
+  }
+
+  return applied;
+}
+
+async function releaseOverride(session: IdleSession, idleMs: number, now: Date, log: AppLogger): Promise<boolean> {
+  // ESCALATE leaves the conversation in HUMAN_TAKEOVER; the agent starts over from IDLE
+  const fsmStateAfter: FsmState = session.fsm_state === 'HUMAN_TAKEOVER' ? 'IDLE' : session.fsm_state;
+
+  const applied = await compareAndSet(session, {
+    human_override: false,
+    human_override_at: null,
+    ...(fsmStateAfter !== session.fsm_state
+      ? {
+          fsm_state: fsmStateAfter,
+          cart_json: { ...DEFAULT_CART, items: [] },
+          delivery_json: { ...DEFAULT_DELIVERY },
+        }
+      : {}),
+    updated_at: now.toISOString(),
+  });
+
+  if (applied) {
+    await recordTimeout(session, fsmStateAfter, 'override_released', idleMs, log);
+  }
+
+  return applied;
+}
+
+async function sendNudge(session: IdleSession, idleMs: number, now: Date, log: AppLogger): Promise<boolean> {
+  // Claim the nudge so only one scheduler sends it; the cart itself doesn't change
+  const { data, error } = await supabaseAdmin
+    .from('conversation_state')
+    .update({ session_nudged_at: now.toISOString() })
+    .eq('conversation_id', session.conversation_id)
+    .eq('version', session.version)
+    .or(`session_nudged_at.is.null,session_nudged_at.lt."${session.last_message_at}"`)
+    .select('conversation_id');
+
+  if (error) {
+    log.error({ error, conversationId: session.conversation_id }, '[SESSION_SCHEDULER] Nudge claim failed');
+    return false;
+  }
+
+  if (!data || data.length === 0) {
+    return false;
+  }
+
+  const messageId = await storeOutboundMessage({
+    conversationId: session.conversation_id,
+    body: NUDGE_TEXT,
+    dispatch: true,
+    touchConversation: false,
+    log,
+  });
+
+  if (!messageId) {
+    return false;
+  }
+
+  await recordTimeout(session, session.fsm_state, 'nudge_sent', idleMs, log);
+  return true;
+}
+
+/**
+ * Applies the update only if the state hasn't been saved since it was read
+ * (the version trigger bumps it on every write, the agent's included).
+ */
+async function compareAndSet(session: IdleSession, update: Record<string, unknown>): Promise<boolean> {
+  const { data, error } = await supabaseAdmin
+    .from('conversation_state')
+    .update(update)
+    .eq('conversation_id', session.conversation_id)
+    .eq('version', session.version)
+    .select('conversation_id');
+
+  if (error) {
+    throw new Error(`Failed to update conversation state: ${error.message}`);
+  }
+
+  return !!data && data.length > 0;
+}
+
+async function recordTimeout(
+  session: IdleSession,
+  fsmStateAfter: FsmState,
+  effect: SessionEffect,
+  idleMs: number,
+  log: AppLogger,
+  extra: Record<string, unknown> = {}
+): Promise<void> {
+  incrementCounter('session_timeouts_total', { effect });
+  log.info(
+    { conversationId: session.conversation_id, effect, from: session.fsm_state, to: fsmStateAfter },
+    '[SESSION_SCHEDULER] SESSION_TIMEOUT'
+  );
+
+  try {
+    await insertActionHistory({
+      conversation_id: session.conversation_id,
+      action_type: 'SESSION_TIMEOUT',
+      action_payload: { effect, idle_minutes: Math.floor(idleMs / 60_000), ...extra },
+      validated: true,
+      executed: true,
+      fsm_state_before: session.fsm_state,
+      fsm_state_after: fsmStateAfter,
+    });
+  } catch (error) {
+    // The state change already happened; a missing audit row must not undo it
+    log.error({ error, conversationId: session.conversation_id }, '[SESSION_SCHEDULER] Failed to record action history');
+  }
+}
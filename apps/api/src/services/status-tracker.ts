@@ -0,0 +1,224 @@
+import { supabaseAdmin } from '../lib/supabase.js';
+import { StatusSchema, type WhatsAppStatus } from '../schemas/whatsapp.js';
+import type { AppLogger } from '../lib/types.js';
+
+// Delivery progress order; a late "sent" must never overwrite "read"
+const STATUS_RANK: Record<string, number> = {
+  pending: 0,
+  sent: 1,
+  delivered: 2,
+  read: 3,
+};
+
+export interface ApplyStatusesResult {
+  matched: number;
+  unmatched: number;
+  /** Callbacks that don't match StatusSchema (unknown status value or shape) */
+  skipped: number;
+}
+
+/**
+ * Applies WhatsApp status callbacks to outbound_messages.
+ *
+ * Every callback is appended to outbound_message_status_events (idempotent per
+ * wamid + status). The matching outbound message is moved forward only:
+ * sent → delivered → read, or failed unless it was already read.
+ *
+ * Callbacks are validated here, one by one: one that doesn't match
+ * StatusSchema is logged and skipped, the rest still apply.
+ */
+export async function applyMessageStatuses(
+  statuses: unknown[],
+  log: AppLogger
+): Promise<ApplyStatusesResult> {
+  let matched = 0;
+  let unmatched = 0;
+  let skipped = 0;
+
+  for (const raw of statuses) {
+    const parsed = StatusSchema.safeParse(raw);
+    if (!parsed.success) {
+      skipped++;
+      log.warn({ errors: parsed.error.issues, status: raw }, 'Skipping unrecognized status callback');
+      continue;
+    }
+
+    const status = parsed.data;
+    const occurredAt = new Date(Number(status.timestamp) * 1000).toISOString();
+    const firstError = status.errors?.[0];
+
+    const { data: outbound, error: lookupError } = await supabaseAdmin
+      .from('outbound_messages')
+      .select('id, status, sent_at')
+      .eq('provider_message_id', status.id)
+      .limit(1)
+      .maybeSingle();
+
+    if (lookupError) {
+      log.error({ error: lookupError, providerMessageId: status.id }, 'Failed to look up outbound message for status');
+      continue;
+    }
+
+    // Record history even when the wamid is unknown (sent outside the queue, or
+    // dispatch hasn't stored it yet; linkEarlyStatusEvents attaches those later)
+    const { error: historyError } = await supabaseAdmin
+      .from('outbound_message_status_events')
+      .upsert(
+        {
+          outbound_message_id: outbound?.id || null,
+          provider_message_id: status.id,
+          status: status.status,
+          occurred_at: occurredAt,
+          recipient_id: status.recipient_id,
+          error_code: firstError?.code ?? null,
+          error_title: firstError?.title || firstError?.message || null,
+          error_details: firstError?.error_data?.details || null,
+          raw: status,
+        },
+        {
+          onConflict: 'provider_message_id,status',
+          ignoreDuplicates: true,
+        }
+      );
+
+    if (historyError) {
+      log.error({ error: historyError, providerMessageId: status.id }, 'Failed to store status event');
+    }
+
+    if (!outbound) {
+      unmatched++;
+      log.debug({ providerMessageId: status.id, status: status.status }, 'Status for unknown outbound message');
+      continue;
+    }
+
+    matched++;
+
+    const updateData = buildStatusUpdate(outbound, status, occurredAt);
+    if (!updateData) {
+      log.debug({ outboundId: outbound.id, current: outbound.status, received: status.status }, 'Stale status ignored');
+      continue;
+    }
+
+    const { error: updateError } = await supabaseAdmin
+      .from('outbound_messages')
+      .update(updateData)
+      .eq('id', outbound.id);
+
+    if (updateError) {
+      log.error({ error: updateError, outboundId: outbound.id }, 'Failed to update outbound message status');
+      continue;
+    }
+
+    log.info({ outboundId: outbound.id, status: status.status }, 'Outbound message status updated');
+  }
+
+  return { matched, unmatched, skipped };
+}
+
+/**
+ * Attaches status callbacks that arrived before dispatch stored the wamid.
+ *
+ * WhatsApp can report "sent"/"delivered" before the send call returns, so
+ * applyMessageStatuses recorded them with outbound_message_id NULL. Called
+ * once provider_message_id is written: links those history rows to the
+ * message and moves its status forward as if they had arrived now.
+ */
+export async function linkEarlyStatusEvents(
+  outboundId: string,
+  providerMessageId: string,
+  log: AppLogger
+): Promise<void> {
+  const { data: events, error: linkError } = await supabaseAdmin
+    .from('outbound_message_status_events')
+    .update({ outbound_message_id: outboundId })
+    .eq('provider_message_id', providerMessageId)
+    .is('outbound_message_id', null)
+    .select('status, occurred_at, raw');
+
+  if (linkError) {
+    log.error({ error: linkError, outboundId, providerMessageId }, 'Failed to link early status events');
+    return;
+  }
+
+  if (!events || events.length === 0) {
+    return;
+  }
+
+  const { data: outbound, error: lookupError } = await supabaseAdmin
+    .from('outbound_messages')
+    .select('id, status, sent_at')
+    .eq('id', outboundId)
+    .single();
+
+  if (lookupError || !outbound) {
+    log.error({ error: lookupError, outboundId }, 'Failed to look up outbound message for early statuses');
+    return;
+  }
+
+  // Replay in arrival order so the forward-only rules apply as usual
+  const ordered = [...events].sort(
+    (a, b) => new Date(a.occurred_at).getTime() - new Date(b.occurred_at).getTime()
+  );
+  let current = { status: outbound.status as string, sent_at: outbound.sent_at as string | null };
+  let updateData: Record<string, unknown> | null = null;
+
+  for (const event of ordered) {
+    const next = buildStatusUpdate(current, event.raw as WhatsAppStatus, event.occurred_at);
+    if (next) {
+      updateData = { ...(updateData ?? {}), ...next };
+      current = {
+        status: next.status as string,
+        sent_at: (next.sent_at as string | undefined) ?? current.sent_at,
+      };
+    }
+  }
+
+  log.info({ outboundId, linked: events.length }, 'Linked early status events');
+
+  if (!updateData) {
+    return;
+  }
+
+  const { error: updateError } = await supabaseAdmin
+    .from('outbound_messages')
+    .update(updateData)
+    .eq('id', outboundId);
+
+  if (updateError) {
+    log.error({ error: updateError, outboundId }, 'Failed to apply early statuses');
+  }
+}
+
+function buildStatusUpdate(
+  outbound: { status: string; sent_at: string | null },
+  status: WhatsAppStatus,
+  occurredAt: string
+): Record<string, unknown> | null {
+  if (status.status === 'failed') {
+    if (outbound.status === 'read') {
+      return null;
+    }
+    const firstError = status.errors?.[0];
+    return {
+      status: 'failed',
+      failed_at: occurredAt,
+      error: firstError
+        ? `${firstError.code}: ${firstError.title || firstError.message || 'unknown error'}`
+        : 'failed',
+    };
+  }
+
+  const currentRank = STATUS_RANK[outbound.status] ?? 0;
+  const newRank = STATUS_RANK[status.status];
+
+  // Never move backwards, and never resurrect failed/canceled messages
+  if (outbound.status === 'failed' || outbound.status === 'canceled' || newRank <= currentRank) {
+    return null;
+  }
+
+  return {
+    status: status.status,
+    // delivered/read imply sent; keep the earliest known send time
+    sent_at: outbound.sent_at || occurredAt,
+  };
+}
@@ -0,0 +1,177 @@
+import { config } from '../lib/config.js';
+import type { AppLogger } from '../lib/types.js';
+
+/**
+ * Business number to act as. Defaults to WHATSAPP_PHONE_NUMBER_ID / WHATSAPP_ACCESS_TOKEN.
+ */
+export interface WhatsAppCredentials {
+  phoneNumberId: string | null;
+  accessToken: string | null;
+}
+
+function getDefaultCredentials(): WhatsAppCredentials {
+  return {
+    phoneNumberId: config.WHATSAPP_PHONE_NUMBER_ID || null,
+    accessToken: config.WHATSAPP_ACCESS_TOKEN || null,
+  };
+}
+
+export type SendWhatsAppResult =
+  | { ok: true; providerMessageId: string | null }
+  | { ok: false; skipped: true }
+  | { ok: false; skipped: false; error: string };
+
+/**
+ * Sends a text message through the WhatsApp Cloud API.
+ * Without credentials the send is skipped (mock mode) and the caller keeps the message queued.
+ * Throws on network errors and after WHATSAPP_TIMEOUT_MS.
+ */
+export async function sendWhatsAppMessage(
+  to: string,
+  text: string,
+  log: AppLogger,
+  credentials: WhatsAppCredentials = getDefaultCredentials()
+): Promise<SendWhatsAppResult> {
+  const { phoneNumberId, accessToken } = credentials;
+
+  if (!phoneNumberId || !accessToken) {
+    log.info({ to: to.slice(-4), textPreview: text.slice(0, 50) }, '[WA] Skipping send (no credentials)');
+    return { ok: false, skipped: true };
+  }
+
+  const response = await fetch(`${config.WHATSAPP_GRAPH_API_URL}/${phoneNumberId}/messages`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${accessToken}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      messaging_product: 'whatsapp',
+      recipient_type: 'individual',
+      to,
+      type: 'text',
+      text: { body: text },
+    }),
+    signal: AbortSignal.timeout(config.WHATSAPP_TIMEOUT_MS),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    log.error({ status: response.status, error: errorText }, '[WA] Send failed');
+    return { ok: false, skipped: false, error: `${response.status}: ${errorText.slice(0, 500)}` };
+  }
+
+  const data = (await response.json()) as { messages?: Array<{ id: string }> };
+  return { ok: true, providerMessageId: data.messages?.[0]?.id || null };
+}
+
+export interface WhatsAppMediaInfo {
+  url: string;
+  mime_type: string;
+  sha256: string | null;
+  file_size: number | null;
+}
+
+export type WhatsAppMediaResult<T> = { ok: true; value: T } | { ok: false; error: string };
+
+/**
+ * Resolves a media id from a webhook to its (short-lived) download URL.
+ * Network errors and timeouts (WHATSAPP_TIMEOUT_MS) are returned, not thrown.
+ */
+export async function fetchMediaInfo(
+  mediaId: string,
+  credentials: WhatsAppCredentials = getDefaultCredentials()
+): Promise<WhatsAppMediaResult<WhatsAppMediaInfo>> {
+  const { accessToken } = credentials;
+  if (!accessToken) {
+    return { ok: false, error: 'WHATSAPP_ACCESS_TOKEN not configured' };
+  }
+
+  let data: {
+    url?: string;
+    mime_type?: string;
+    sha256?: string;
+    file_size?: number | string;
+  };
+
+  try {
+    const response = await fetch(`${config.WHATSAPP_GRAPH_API_URL}/${encodeURIComponent(mediaId)}`, {
+      headers: { 'Authorization': `Bearer ${accessToken}` },
+      signal: AbortSignal.timeout(config.WHATSAPP_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      return { ok: false, error: `${response.status}: ${errorText.slice(0, 500)}` };
+    }
+
+    data = (await response.json()) as typeof data;
+  } catch (error) {
+    return { ok: false, error: requestError(error) };
+  }
+
+  if (!data.url || !data.mime_type) {
+    return { ok: false, error: 'Media info response missing url or mime_type' };
+  }
+
+  return {
+    ok: true,
+    value: {
+      url: data.url,
+      mime_type: data.mime_type,
+      sha256: data.sha256 ?? null,
+      file_size: data.file_size != null ? Number(data.file_size) : null,
+    },
+  };
+}
+
+/**
+ * Downloads media bytes. The URL only works with the access token attached.
+ * Network errors and timeouts (MEDIA_DOWNLOAD_TIMEOUT_MS) are returned, not thrown.
+ */
+export async function downloadMedia(
+  url: string,
+  maxBytes: number,
+  credentials: WhatsAppCredentials = getDefaultCredentials()
+): Promise<WhatsAppMediaResult<Buffer>> {
+  const { accessToken } = credentials;
+  if (!accessToken) {
+    return { ok: false, error: 'WHATSAPP_ACCESS_TOKEN not configured' };
+  }
+
+  let data: Buffer;
+
+  try {
+    // The timeout covers the body too, so a stalled transfer can't hold the turn
+    const response = await fetch(url, {
+      headers: { 'Authorization': `Bearer ${accessToken}` },
+      signal: AbortSignal.timeout(config.MEDIA_DOWNLOAD_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      return { ok: false, error: `Download failed with status ${response.status}` };
+    }
+
+    const declaredLength = Number(response.headers.get('content-length') || 0);
+    if (declaredLength > maxBytes) {
+      return { ok: false, error: `Media too large (${declaredLength} bytes)` };
+    }
+
+    data = Buffer.from(await response.arrayBuffer());
+  } catch (error) {
+    return { ok: false, error: `Download failed: ${requestError(error)}` };
+  }
+
+  if (data.length > maxBytes) {
+    return { ok: false, error: `Media too large (${data.length} bytes)` };
+  }
+
+  return { ok: true, value: data };
+}
+
+function requestError(error: unknown): string {
+  if (error instanceof Error && error.name === 'TimeoutError') {
+    return 'timed out';
+  }
+  return error instanceof Error ? error.message : String(error);
+}
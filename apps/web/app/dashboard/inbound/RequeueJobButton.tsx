@@ -0,0 +1,49 @@
+'use client';
+
+import { useState } from 'react';
+import { createClient } from '@/lib/supabase/client';
+
+type Props = {
+  jobId: string;
+};
+
+export function RequeueJobButton({ jobId }: Props) {
+  const supabase = createClient();
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function requeue() {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const now = new Date().toISOString();
+      const { error } = await supabase
+        .from('inbound_jobs')
+        .update({ status: 'pending', attempts: 0, run_at: now, dead_at: null, updated_at: now })
+        .eq('id', jobId)
+        .in('status', ['dead', 'pending']);
+
+      if (error) throw error;
+
+      window.location.reload();
+    } catch (e: any) {
+      setError(e.message || 'Error reencolando el mensaje');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  return (
+    <div>
+      <button
+        onClick={requeue}
+        disabled={loading}
+        className="rounded bg-blue-600 px-3 py-1 text-xs font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+      >
+        {loading ? 'Procesando…' : 'Reintentar'}
+      </button>
+      {error && <p className="text-xs text-red-500 mt-1">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,193 @@
+import { createClient } from '@/lib/supabase/server';
+import Link from 'next/link';
+import { RequeueJobButton } from './RequeueJobButton';
+
+interface InboundJob {
+  id: string;
+  created_at: string;
+  wa_message_id: string;
+  payload: {
+    message?: { from?: string; type?: string; text?: { body?: string } };
+  } | null;
+  status: string;
+  attempts: number;
+  max_attempts: number;
+  run_at: string;
+  last_error: string | null;
+  completed_at: string | null;
+  dead_at: string | null;
+}
+
+export default async function InboundJobsPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ status?: string }>;
+}) {
+  const { status: statusFilter } = await searchParams;
+  const supabase = await createClient();
+
+  let query = supabase
+    .from('inbound_jobs')
+    .select('id, created_at, wa_message_id, payload, status, attempts, max_attempts, run_at, last_error, completed_at, dead_at')
+    .order('created_at', { ascending: false })
+    .limit(50);
+
+  // Apply status filter if provided
+  if (statusFilter && statusFilter !== 'all') {
+    query = query.eq('status', statusFilter);
+  }
+
+  const { data: jobs, error } = await query;
+
+  if (error) {
+    console.error('Error fetching inbound jobs:', error);
+  }
+
+  const jobList = (jobs || []) as InboundJob[];
+
+  const getStatusBadge = (status: string) => {
+    const badges: Record<string, string> = {
+      pending: 'bg-yellow-100 text-yellow-800',
+      processing: 'bg-blue-100 text-blue-800',
+      done: 'bg-green-100 text-green-800',
+      dead: 'bg-red-100 text-red-800',
+    };
+    return badges[status] || 'bg-gray-100 text-gray-800';
+  };
+
+  const getStatusLabel = (status: string) => {
+    const labels: Record<string, string> = {
+      pending: 'Pendiente',
+      processing: 'Procesando',
+      done: 'Procesado',
+      dead: 'Fallido',
+    };
+    return labels[status] || status;
+  };
+
+  const formatTime = (value: string) =>
+    new Date(value).toLocaleString('es-BO', {
+      dateStyle: 'short',
+      timeStyle: 'short',
+    });
+
+  const describeMessage = (job: InboundJob) => {
+    const message = job.payload?.message;
+    if (!message) return '-';
+    const body = message.type === 'text' ? message.text?.body || '' : `[${message.type}]`;
+    return body.length > 50 ? body.substring(0, 50) + '...' : body;
+  };
+
+  const statusOptions = [
+    { value: 'all', label: 'Todos' },
+    { value: 'pending', label: 'Pendientes' },
+    { value: 'processing', label: 'Procesando' },
+    { value: 'done', label: 'Procesados' },
+    { value: 'dead', label: 'Fallidos' },
+  ];
+
+  return (
+    <div>
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-gray-900">Cola de Mensajes Entrantes</h1>
+        <p className="text-sm text-gray-600 mt-1">
+          Mensajes de WhatsApp recibidos, reintentos y mensajes que fallaron definitivamente
+        </p>
+      </div>
+
+      {/* Status Filter */}
+      <div className="mb-4 flex gap-2">
+        {statusOptions.map((option) => (
+          <Link
+            key={option.value}
+            href={`/dashboard/inbound${option.value !== 'all' ? `?status=${option.value}` : ''}`}
+            className={`px-3 py-1 rounded-full text-sm font-medium transition-colors ${
+              (statusFilter || 'all') === option.value
+                ? 'bg-blue-600 text-white'
+                : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+            }`}
+          >
+            {option.label}
+          </Link>
+        ))}
+      </div>
+
+      {jobList.length === 0 ? (
+        <div className="bg-white rounded-lg shadow p-6 text-center">
+          <p className="text-gray-500">No hay mensajes en la cola</p>
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg shadow overflow-hidden">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Recibido
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Remitente
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Mensaje
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Estado
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Intentos
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Acciones
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {jobList.map((job) => (
+                <tr key={job.id} className="hover:bg-gray-50">
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {formatTime(job.created_at)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                    {job.payload?.message?.from || '-'}
+                  </td>
+                  <td className="px-6 py-4">
+                    <div className="text-sm text-gray-900 max-w-xs" title={job.wa_message_id}>
+                      {describeMessage(job)}
+                    </div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <span
+                      className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${getStatusBadge(
+                        job.status
+                      )}`}
+                    >
+                      {getStatusLabel(job.status)}
+                    </span>
+                    {job.last_error && (
+                      <p className="text-xs text-red-500 mt-1 max-w-xs truncate" title={job.last_error}>
+                        {job.last_error}
+                      </p>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {job.attempts}/{job.max_attempts}
+                    {job.status === 'pending' && job.attempts > 0 && (
+                      <p className="text-xs text-gray-400">Próximo: {formatTime(job.run_at)}</p>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm">
+                    {job.status === 'dead' ? (
+                      <RequeueJobButton jobId={job.id} />
+                    ) : (
+                      <span className="text-gray-400">-</span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
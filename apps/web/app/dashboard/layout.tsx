@@ -42,6 +42,18 @@ export default async function DashboardLayout({
                 >
                   Cola Saliente
                 </Link>
+                <Link
+                  href="/dashboard/inbound"
+                  className="text-gray-600 hover:text-gray-900 px-3 py-2 text-sm font-medium"
+                >
+                  Cola Entrante
+                </Link>
+                <Link
+                  href="/dashboard/shadow"
+                  className="text-gray-600 hover:text-gray-900 px-3 py-2 text-sm font-medium"
+                >
+                  Agente V2
+                </Link>
               </div>
             </div>
             <div className="flex items-center">
@@ -1,6 +1,13 @@
 import { createClient } from '@/lib/supabase/server';
 import Link from 'next/link';
 
+interface StatusEvent {
+  status: string;
+  occurred_at: string;
+  error_code: number | null;
+  error_title: string | null;
+}
+
 interface OutboundMessage {
   id: string;
   created_at: string;
@@ -10,6 +17,9 @@ interface OutboundMessage {
   order_id: string | null;
   message_type: string;
   error: string | null;
+  sent_at: string | null;
+  failed_at: string | null;
+  outbound_message_status_events: StatusEvent[] | null;
 }
 
 export default async function OutboxPage({
@@ -22,7 +32,10 @@ export default async function OutboxPage({
 
   let query = supabase
     .from('outbound_messages')
-    .select('id, created_at, to_phone, body, status, order_id, message_type, error')
+    .select(`
+      id, created_at, to_phone, body, status, order_id, message_type, error, sent_at, failed_at,
+      outbound_message_status_events (status, occurred_at, error_code, error_title)
+    `)
     .order('created_at', { ascending: false })
     .limit(50);
 
@@ -42,7 +55,9 @@ export default async function OutboxPage({
   const getStatusBadge = (status: string) => {
     const badges: Record<string, string> = {
       pending: 'bg-yellow-100 text-yellow-800',
-      sent: 'bg-green-100 text-green-800',
+      sent: 'bg-blue-100 text-blue-800',
+      delivered: 'bg-green-100 text-green-800',
+      read: 'bg-green-100 text-green-800',
       failed: 'bg-red-100 text-red-800',
       canceled: 'bg-gray-100 text-gray-800',
     };
@@ -53,12 +68,31 @@ export default async function OutboxPage({
     const labels: Record<string, string> = {
       pending: 'Pendiente',
       sent: 'Enviado',
+      delivered: 'Entregado',
+      read: 'Leído',
       failed: 'Fallido',
       canceled: 'Cancelado',
     };
     return labels[status] || status;
   };
 
+  const formatTime = (value: string) =>
+    new Date(value).toLocaleString('es-BO', {
+      dateStyle: 'short',
+      timeStyle: 'medium',
+    });
+
+  // Queue creation + every status callback received, oldest first
+  const getTimeline = (message: OutboundMessage) => {
+    const events = [...(message.outbound_message_status_events || [])].sort(
+      (a, b) => new Date(a.occurred_at).getTime() - new Date(b.occurred_at).getTime()
+    );
+    return [
+      { status: 'pending', occurred_at: message.created_at, error_code: null, error_title: null },
+      ...events,
+    ];
+  };
+
   const truncateBody = (body: string, maxLength: number = 50) => {
     if (body.length <= maxLength) return body;
     return body.substring(0, maxLength) + '...';
@@ -68,6 +102,8 @@ export default async function OutboxPage({
     { value: 'all', label: 'Todos' },
     { value: 'pending', label: 'Pendientes' },
     { value: 'sent', label: 'Enviados' },
+    { value: 'delivered', label: 'Entregados' },
+    { value: 'read', label: 'Leídos' },
     { value: 'failed', label: 'Fallidos' },
   ];
 
@@ -76,7 +112,7 @@ export default async function OutboxPage({
       <div className="mb-6">
         <h1 className="text-2xl font-bold text-gray-900">Cola de Mensajes Salientes</h1>
         <p className="text-sm text-gray-600 mt-1">
-          Mensajes pendientes de enviar por WhatsApp
+          Mensajes enviados por WhatsApp y su estado de entrega
         </p>
       </div>
 
@@ -115,6 +151,9 @@ export default async function OutboxPage({
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Estado
                 </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Entrega
+                </th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Mensaje
                 </th>
@@ -151,6 +190,28 @@ export default async function OutboxPage({
                       </p>
                     )}
                   </td>
+                  <td className="px-6 py-4">
+                    <ol className="space-y-1">
+                      {getTimeline(message).map((event) => (
+                        <li key={event.status} className="flex items-center gap-2 text-xs">
+                          <span
+                            className={`w-2 h-2 rounded-full ${
+                              event.status === 'failed' ? 'bg-red-500' : 'bg-gray-400'
+                            }`}
+                          />
+                          <span className="font-medium text-gray-700">
+                            {getStatusLabel(event.status)}
+                          </span>
+                          <span className="text-gray-500">{formatTime(event.occurred_at)}</span>
+                          {event.error_code !== null && (
+                            <span className="text-red-500" title={event.error_title || undefined}>
+                              ({event.error_code})
+                            </span>
+                          )}
+                        </li>
+                      ))}
+                    </ol>
+                  </td>
                   <td className="px-6 py-4">
                     <div className="text-sm text-gray-900 max-w-xs" title={message.body}>
                       {truncateBody(message.body)}
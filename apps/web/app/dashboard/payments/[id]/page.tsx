@@ -1,22 +1,32 @@
 import { createClient } from '@/lib/supabase/server';
 import { notFound } from 'next/navigation';
+import { formatDelivery } from '@/lib/order-utils';
 import { PaymentActions } from './PaymentActions';
 
+const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001';
+
 interface PaymentDetail {
   id: string;
   reported_at: string;
   proof_message_text: string | null;
   proof_media_id: string | null;
   vendor_decision: string | null;
+  proof_media: {
+    id: string;
+    mime_type: string | null;
+    filename: string | null;
+    size_bytes: number | null;
+  } | null;
   orders: {
     id: string;
     customer_name: string | null;
     customer_phone: string;
     total_amount: number | null;
     currency: string | null;
-    products_json: Array<{ name: string; quantity: number; price: number }>;
+    products_json: Array<{ name: string; quantity: number; price: number; note?: string | null }>;
     delivery_method: string | null;
     delivery_address: string | null;
+    delivery_slot: string | null;
     status: string;
   };
 }
@@ -37,6 +47,12 @@ export default async function PaymentDetailPage({
       proof_message_text,
       proof_media_id,
       vendor_decision,
+      proof_media:media_assets (
+        id,
+        mime_type,
+        filename,
+        size_bytes
+      ),
       orders!inner (
         id,
         customer_name,
@@ -46,6 +62,7 @@ export default async function PaymentDetailPage({
         products_json,
         delivery_method,
         delivery_address,
+        delivery_slot,
         status
       )
     `)
@@ -57,7 +74,9 @@ export default async function PaymentDetailPage({
   }
 
   const paymentData = payment as unknown as PaymentDetail;
+  const delivery = formatDelivery(paymentData.orders);
   const isPending = paymentData.vendor_decision === null;
+  const mediaUrl = paymentData.proof_media ? `${API_URL}/api/media/${paymentData.proof_media.id}` : undefined;
 
   return (
     <div className="max-w-3xl mx-auto">
@@ -106,11 +125,7 @@ export default async function PaymentDetailPage({
             {paymentData.orders.customer_name || 'Sin nombre'}
           </p>
           <p className="text-sm text-gray-600">{paymentData.orders.customer_phone}</p>
-          {paymentData.orders.delivery_address && (
-            <p className="text-sm text-gray-500 mt-1">
-              {paymentData.orders.delivery_method}: {paymentData.orders.delivery_address}
-            </p>
-          )}
+          {delivery && <p className="text-sm text-gray-500 mt-1">{delivery}</p>}
         </div>
 
         {/* Order items */}
@@ -123,6 +138,9 @@ export default async function PaymentDetailPage({
                 <li key={index} className="flex justify-between text-sm">
                   <span>
                     {item.quantity}x {item.name}
+                    {item.note && (
+                      <span className="block text-xs text-gray-500 italic">{item.note}</span>
+                    )}
                   </span>
                   <span className="text-gray-600">
                     Bs {(item.price * item.quantity).toFixed(2)}
@@ -149,17 +167,52 @@ export default async function PaymentDetailPage({
           ) : (
             <p className="text-sm text-gray-500 italic">Sin mensaje de texto</p>
           )}
-          {paymentData.proof_media_id && (
+          {paymentData.proof_media ? (
             <div className="mt-3">
-              <p className="text-xs text-gray-500">
-                Imagen adjunta (ID: {paymentData.proof_media_id})
-              </p>
-              <div className="mt-2 bg-gray-100 border-2 border-dashed border-gray-300 rounded-lg p-8 text-center">
-                <p className="text-sm text-gray-500">
-                  Vista previa de imagen no disponible en modo mock
+              <div className="flex justify-between items-center">
+                <p className="text-xs text-gray-500">
+                  Comprobante adjunto
+                  {paymentData.proof_media.filename && ` (${paymentData.proof_media.filename})`}
+                  {paymentData.proof_media.size_bytes !== null &&
+                    ` · ${(paymentData.proof_media.size_bytes / 1024).toFixed(0)} KB`}
                 </p>
+                <a
+                  href={mediaUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-xs text-blue-600 hover:text-blue-900"
+                >
+                  Abrir en otra pestaña
+                </a>
               </div>
+              {paymentData.proof_media.mime_type === 'application/pdf' ? (
+                <iframe
+                  src={mediaUrl}
+                  title="Comprobante de pago"
+                  className="mt-2 w-full h-[32rem] border rounded-lg"
+                />
+              ) : (
+                // eslint-disable-next-line @next/next/no-img-element
+                <img
+                  src={mediaUrl}
+                  alt="Comprobante de pago"
+                  className="mt-2 max-h-[32rem] mx-auto rounded-lg border"
+                />
+              )}
             </div>
+          ) : (
+            paymentData.proof_media_id && (
+              <div className="mt-3">
+                <p className="text-xs text-gray-500">
+                  Archivo adjunto (ID: {paymentData.proof_media_id})
+                </p>
+                <div className="mt-2 bg-gray-100 border-2 border-dashed border-gray-300 rounded-lg p-8 text-center">
+                  <p className="text-sm text-gray-500">
+                    El archivo no se pudo descargar de WhatsApp
+                  </p>
+                </div>
+              </div>
+            )
           )}
         </div>
 
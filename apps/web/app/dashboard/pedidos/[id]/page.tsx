@@ -1,5 +1,6 @@
 import { createClient } from '@/lib/supabase/server';
 import { notFound } from 'next/navigation';
+import { formatDelivery } from '@/lib/order-utils';
 import { OrderPaymentActions } from './OrderPaymentActions';
 
 interface OrderDetail {
@@ -10,9 +11,10 @@ interface OrderDetail {
   currency: string | null;
   status: string;
   created_at: string;
-  products_json: Array<{ name: string; quantity: number; price: number }> | null;
+  products_json: Array<{ name: string; quantity: number; price: number; note?: string | null }> | null;
   delivery_method: string | null;
   delivery_address: string | null;
+  delivery_slot: string | null;
 }
 
 export default async function OrderDetailPage({
@@ -39,6 +41,7 @@ export default async function OrderDetailPage({
   }
 
   const orderData = order as OrderDetail;
+  const delivery = formatDelivery(orderData);
 
 const products = Array.isArray(orderData.products_json) ? orderData.products_json.filter(p => p && typeof p.quantity === "number" && typeof p.price === "number") : [];
 
@@ -90,11 +93,7 @@ const products = Array.isArray(orderData.products_json) ? orderData.products_jso
             {orderData.customer_name || 'Sin nombre'}
           </p>
           <p className="text-sm text-gray-600">{orderData.customer_phone}</p>
-          {orderData.delivery_address && (
-            <p className="text-sm text-gray-500 mt-1">
-              {orderData.delivery_method}: {orderData.delivery_address}
-            </p>
-          )}
+          {delivery && <p className="text-sm text-gray-500 mt-1">{delivery}</p>}
         </div>
 
         {/* Products */}
@@ -106,6 +105,9 @@ const products = Array.isArray(orderData.products_json) ? orderData.products_jso
                 <li key={index} className="flex justify-between text-sm">
                   <span>
                     {item.quantity}x {item.name}
+                    {item.note && (
+                      <span className="block text-xs text-gray-500 italic">{item.note}</span>
+                    )}
                   </span>
                   <span className="text-gray-600">
                     Bs {(item.price * item.quantity).toFixed(2)}
@@ -0,0 +1,253 @@
+import { createClient } from '@/lib/supabase/server';
+import Link from 'next/link';
+
+interface ProposedAction {
+  type: string;
+  params?: Record<string, unknown>;
+}
+
+interface ShadowRun {
+  id: string;
+  created_at: string;
+  conversation_id: string;
+  customer_message: string;
+  v1_responder: string;
+  v1_reply: string | null;
+  v1_state_before: string | null;
+  v1_state_after: string | null;
+  v2_reply: string | null;
+  v2_state_before: string | null;
+  v2_state_after: string | null;
+  v2_proposed_actions: ProposedAction[];
+  v2_executed_actions: ProposedAction[];
+  v2_validation_errors: string[];
+  v2_error: string | null;
+}
+
+// V1 rules use lowercase states of their own; compare loosely
+const normalizeState = (state: string | null) => (state || '').toLowerCase().replace(/[^a-z]/g, '');
+
+const repliesDiffer = (run: ShadowRun) =>
+  (run.v1_reply || '').trim() !== (run.v2_reply || '').trim();
+
+const statesDiffer = (run: ShadowRun) =>
+  run.v1_state_after !== null && normalizeState(run.v1_state_after) !== normalizeState(run.v2_state_after);
+
+export default async function ShadowRunsPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ filter?: string; conversation?: string }>;
+}) {
+  const { filter, conversation } = await searchParams;
+  const supabase = await createClient();
+
+  let query = supabase
+    .from('agent_v2_shadow_runs')
+    .select(
+      'id, created_at, conversation_id, customer_message, v1_responder, v1_reply, v1_state_before, v1_state_after, v2_reply, v2_state_before, v2_state_after, v2_proposed_actions, v2_executed_actions, v2_validation_errors, v2_error'
+    )
+    .order('created_at', { ascending: false })
+    .limit(100);
+
+  if (conversation) {
+    query = query.eq('conversation_id', conversation);
+  }
+
+  if (filter === 'errors') {
+    query = query.not('v2_error', 'is', null);
+  }
+
+  const { data: runs, error } = await query;
+
+  if (error) {
+    console.error('Error fetching shadow runs:', error);
+  }
+
+  const allRuns = (runs || []) as ShadowRun[];
+  const runList =
+    filter === 'diff' ? allRuns.filter((run) => repliesDiffer(run) || statesDiffer(run) || run.v2_error) : allRuns;
+
+  const completed = allRuns.filter((run) => !run.v2_error);
+  const rejected = completed.filter((run) => run.v2_validation_errors.length > 0).length;
+  const stateMatches = completed.filter((run) => run.v1_state_after !== null && !statesDiffer(run)).length;
+  const comparable = completed.filter((run) => run.v1_state_after !== null).length;
+
+  const formatTime = (value: string) =>
+    new Date(value).toLocaleString('es-BO', {
+      dateStyle: 'short',
+      timeStyle: 'short',
+    });
+
+  const filterOptions = [
+    { value: 'all', label: 'Todos' },
+    { value: 'diff', label: 'Con diferencias' },
+    { value: 'errors', label: 'Errores V2' },
+  ];
+
+  const filterHref = (value: string) => {
+    const params = new URLSearchParams();
+    if (value !== 'all') params.set('filter', value);
+    if (conversation) params.set('conversation', conversation);
+    const qs = params.toString();
+    return `/dashboard/shadow${qs ? `?${qs}` : ''}`;
+  };
+
+  return (
+    <div>
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-gray-900">Comparación Agente V2</h1>
+        <p className="text-sm text-gray-600 mt-1">
+          Lo que respondió V1 al cliente junto a lo que el Agente V2 habría hecho (modo sombra, nada se envía)
+        </p>
+        {conversation && (
+          <p className="text-sm text-gray-600 mt-1">
+            Conversación <span className="font-mono">{conversation.slice(0, 8)}</span> ·{' '}
+            <Link href="/dashboard/shadow" className="text-blue-600 hover:text-blue-900">
+              Ver todas
+            </Link>
+          </p>
+        )}
+      </div>
+
+      {/* Summary */}
+      <div className="mb-4 grid grid-cols-2 md:grid-cols-4 gap-4">
+        <div className="bg-white rounded-lg shadow p-4">
+          <p className="text-xs text-gray-500 uppercase">Turnos</p>
+          <p className="text-2xl font-bold text-gray-900">{allRuns.length}</p>
+        </div>
+        <div className="bg-white rounded-lg shadow p-4">
+          <p className="text-xs text-gray-500 uppercase">Mismo estado final</p>
+          <p className="text-2xl font-bold text-gray-900">
+            {comparable > 0 ? `${Math.round((stateMatches / comparable) * 100)}%` : '-'}
+          </p>
+        </div>
+        <div className="bg-white rounded-lg shadow p-4">
+          <p className="text-xs text-gray-500 uppercase">Acciones rechazadas</p>
+          <p className="text-2xl font-bold text-gray-900">{rejected}</p>
+        </div>
+        <div className="bg-white rounded-lg shadow p-4">
+          <p className="text-xs text-gray-500 uppercase">Errores V2</p>
+          <p className="text-2xl font-bold text-gray-900">{allRuns.length - completed.length}</p>
+        </div>
+      </div>
+
+      {/* Filter */}
+      <div className="mb-4 flex gap-2">
+        {filterOptions.map((option) => (
+          <Link
+            key={option.value}
+            href={filterHref(option.value)}
+            className={`px-3 py-1 rounded-full text-sm font-medium transition-colors ${
+              (filter || 'all') === option.value
+                ? 'bg-blue-600 text-white'
+                : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+            }`}
+          >
+            {option.label}
+          </Link>
+        ))}
+      </div>
+
+      {runList.length === 0 ? (
+        <div className="bg-white rounded-lg shadow p-6 text-center">
+          <p className="text-gray-500">
+            No hay comparaciones. Activa el modo sombra con AGENT_V2_ENABLED=shadow en la API.
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {runList.map((run) => {
+            const executed = new Set(run.v2_executed_actions.map((action) => JSON.stringify(action)));
+
+            return (
+              <div key={run.id} className="bg-white rounded-lg shadow overflow-hidden">
+                <div className="px-6 py-3 bg-gray-50 border-b border-gray-200 flex justify-between items-center">
+                  <div className="text-sm text-gray-900">
+                    <span className="text-gray-500 mr-2">{formatTime(run.created_at)}</span>
+                    Cliente: <span className="font-medium whitespace-pre-line">{run.customer_message}</span>
+                  </div>
+                  <div className="flex gap-2 items-center">
+                    {repliesDiffer(run) && (
+                      <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-yellow-100 text-yellow-800">
+                        Respuesta distinta
+                      </span>
+                    )}
+                    {statesDiffer(run) && (
+                      <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-orange-100 text-orange-800">
+                        Estado distinto
+                      </span>
+                    )}
+                    <Link
+                      href={`/dashboard/shadow?conversation=${run.conversation_id}`}
+                      className="text-xs text-blue-600 hover:text-blue-900"
+                    >
+                      Conversación
+                    </Link>
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 divide-y md:divide-y-0 md:divide-x divide-gray-200">
+                  {/* V1 */}
+                  <div className="px-6 py-4">
+                    <p className="text-xs font-medium text-gray-500 uppercase mb-2">
+                      V1 enviado ({run.v1_responder})
+                    </p>
+                    <p className="text-sm text-gray-900 whitespace-pre-line">
+                      {run.v1_reply || <span className="text-gray-400">Sin respuesta</span>}
+                    </p>
+                    {run.v1_state_after && (
+                      <p className="text-xs text-gray-500 mt-2">
+                        Estado: {run.v1_state_before || '-'} → {run.v1_state_after}
+                      </p>
+                    )}
+                  </div>
+
+                  {/* V2 */}
+                  <div className="px-6 py-4">
+                    <p className="text-xs font-medium text-gray-500 uppercase mb-2">Agente V2 (sombra)</p>
+                    {run.v2_error ? (
+                      <p className="text-sm text-red-600">{run.v2_error}</p>
+                    ) : (
+                      <>
+                        <p className="text-sm text-gray-900 whitespace-pre-line">
+                          {run.v2_reply || <span className="text-gray-400">Sin respuesta</span>}
+                        </p>
+                        <p className="text-xs text-gray-500 mt-2">
+                          Estado: {run.v2_state_before || '-'} → {run.v2_state_after || '-'}
+                        </p>
+                        {run.v2_proposed_actions.length > 0 && (
+                          <div className="mt-2 flex flex-wrap gap-1">
+                            {run.v2_proposed_actions.map((action, index) => (
+                              <span
+                                key={index}
+                                title={action.params ? JSON.stringify(action.params) : undefined}
+                                className={`px-2 inline-flex text-xs leading-5 font-mono rounded ${
+                                  executed.has(JSON.stringify(action))
+                                    ? 'bg-green-100 text-green-800'
+                                    : 'bg-red-100 text-red-800 line-through'
+                                }`}
+                              >
+                                {action.type}
+                              </span>
+                            ))}
+                          </div>
+                        )}
+                        {run.v2_validation_errors.length > 0 && (
+                          <ul className="mt-2 text-xs text-red-600 list-disc list-inside">
+                            {run.v2_validation_errors.map((message, index) => (
+                              <li key={index}>{message}</li>
+                            ))}
+                          </ul>
+                        )}
+                      </>
+                    )}
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -55,3 +55,25 @@ export function isOrderPendingPayment(status: string | null | undefined): boolea
   if (!status) return true;
   return !(FINAL_STATUSES as readonly string[]).includes(status);
 }
+
+const DELIVERY_METHOD_LABELS: Record<string, string> = {
+  delivery: 'Envío',
+  pickup: 'Recojo en tienda',
+};
+
+/**
+ * One-line delivery summary ("Envío: Calle Sucre 123 · mañana 15-18h"),
+ * or null when the order has no delivery details.
+ */
+export function formatDelivery(order: {
+  delivery_method: string | null;
+  delivery_address: string | null;
+  delivery_slot?: string | null;
+}): string | null {
+  const { delivery_method, delivery_address, delivery_slot } = order;
+  if (!delivery_method && !delivery_address) return null;
+
+  const method = delivery_method ? DELIVERY_METHOD_LABELS[delivery_method] ?? delivery_method : null;
+  const place = [method, delivery_address].filter(Boolean).join(': ');
+  return [place, delivery_slot].filter(Boolean).join(' · ');
+}
@@ -0,0 +1,74 @@
+/**
+ * Fake WhatsApp Graph API for local testing
+ *
+ * Usage: pnpm --filter scripts fake:graph
+ * Then run the API with:
+ *   WHATSAPP_GRAPH_API_URL=http://localhost:4010
+ *   WHATSAPP_ACCESS_TOKEN=fake-token
+ *   WHATSAPP_PHONE_NUMBER_ID=fake-phone
+ *
+ * Implements just what the API calls:
+ * - GET  /:mediaId           media info (url, mime_type, sha256, file_size)
+ * - GET  /files/:mediaId     media bytes (requires the bearer token, like Meta)
+ * - POST /:phoneId/messages  accepts outbound sends and returns a fake wamid
+ */
+
+import { createServer, type IncomingMessage, type ServerResponse } from 'http';
+import { getFakeMedia } from './fake_media.js';
+
+const PORT = Number(process.env.FAKE_GRAPH_PORT || 4010);
+const BASE_URL = `http://localhost:${PORT}`;
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function isAuthorized(req: IncomingMessage): boolean {
+  return /^Bearer .+/.test(req.headers.authorization || '');
+}
+
+const server = createServer((req, res) => {
+  const url = new URL(req.url || '/', BASE_URL);
+  const parts = url.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+  console.log(`${req.method} ${url.pathname}`);
+
+  if (!isAuthorized(req)) {
+    return sendJson(res, 401, { error: { message: 'Missing access token', code: 190 } });
+  }
+
+  // POST /:phoneId/messages
+  if (req.method === 'POST' && parts.length === 2 && parts[1] === 'messages') {
+    req.resume();
+    return sendJson(res, 200, {
+      messaging_product: 'whatsapp',
+      messages: [{ id: `wamid.fake_${Date.now()}` }],
+    });
+  }
+
+  // GET /files/:mediaId
+  if (req.method === 'GET' && parts.length === 2 && parts[0] === 'files') {
+    const media = getFakeMedia(parts[1]);
+    res.writeHead(200, { 'Content-Type': media.mimeType, 'Content-Length': media.data.length });
+    return res.end(media.data);
+  }
+
+  // GET /:mediaId
+  if (req.method === 'GET' && parts.length === 1) {
+    const media = getFakeMedia(parts[0]);
+    return sendJson(res, 200, {
+      messaging_product: 'whatsapp',
+      id: parts[0],
+      url: `${BASE_URL}/files/${encodeURIComponent(parts[0])}`,
+      mime_type: media.mimeType,
+      sha256: media.sha256,
+      file_size: media.data.length,
+    });
+  }
+
+  return sendJson(res, 404, { error: { message: 'Unknown endpoint' } });
+});
+
+server.listen(PORT, () => {
+  console.log(`Fake Graph API listening on ${BASE_URL}`);
+});
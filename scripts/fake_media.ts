@@ -0,0 +1,120 @@
+/**
+ * Deterministic media files served by the fake Graph API.
+ *
+ * Shared with the mock scripts so the sha256 they put in the webhook payload
+ * matches the bytes the API downloads.
+ */
+
+import { createHash } from 'crypto';
+import { deflateSync } from 'zlib';
+
+export interface FakeMedia {
+  mimeType: string;
+  data: Buffer;
+  /** base64 sha256, the format WhatsApp uses in webhooks */
+  sha256: string;
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const body = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+}
+
+/**
+ * A 240x320 "receipt": white page with grey text lines and a green header.
+ */
+function buildReceiptPng(): Buffer {
+  const width = 240;
+  const height = 320;
+  const rows: Buffer[] = [];
+
+  for (let y = 0; y < height; y++) {
+    const row = Buffer.alloc(1 + width * 3, 0xff); // filter byte 0 + RGB
+    row[0] = 0;
+    const isHeader = y < 48;
+    const isTextLine = y > 70 && y % 24 < 6;
+
+    for (let x = 0; x < width; x++) {
+      const offset = 1 + x * 3;
+      if (isHeader) {
+        row.set([0x16, 0xa3, 0x4a], offset);
+      } else if (isTextLine && x > 20 && x < width - 20 - (y % 48)) {
+        row.set([0x9c, 0xa3, 0xaf], offset);
+      }
+    }
+    rows.push(row);
+  }
+
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8; // bit depth
+  header[9] = 2; // truecolor RGB
+
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', deflateSync(Buffer.concat(rows))),
+    pngChunk('IEND', Buffer.alloc(0)),
+  ]);
+}
+
+function buildReceiptPdf(): Buffer {
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    '<< /Type /Page /Parent 2 0 R /MediaBox [0 0 300 200] /Contents 4 0 R /Resources << /Font << /F1 5 0 R >> >> >>',
+    null, // content stream, filled below
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>',
+  ];
+  const stream = 'BT /F1 14 Tf 20 150 Td (Comprobante de transferencia) Tj 0 -30 Td (Monto: Bs 175.00) Tj ET';
+  objects[3] = `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`;
+
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  objects.forEach((object, index) => {
+    offsets.push(pdf.length);
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+  });
+
+  const xrefOffset = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(pdf, 'latin1');
+}
+
+function fakeMedia(mimeType: string, data: Buffer): FakeMedia {
+  return { mimeType, data, sha256: createHash('sha256').update(data).digest('base64') };
+}
+
+export const FAKE_RECEIPT_IMAGE = fakeMedia('image/png', buildReceiptPng());
+export const FAKE_RECEIPT_PDF = fakeMedia('application/pdf', buildReceiptPdf());
+
+/**
+ * Media ids starting with "pdf_" resolve to the PDF, everything else to the image.
+ */
+export function getFakeMedia(mediaId: string): FakeMedia {
+  return mediaId.startsWith('pdf_') ? FAKE_RECEIPT_PDF : FAKE_RECEIPT_IMAGE;
+}
@@ -0,0 +1,157 @@
+/**
+ * Replay stored webhook events through the current pipeline
+ *
+ * Usage:
+ *   pnpm --filter scripts replay -- --phone 59171234567 --from 2025-01-20T00:00:00Z
+ *   pnpm --filter scripts replay -- --id <webhook_event_id> --id <webhook_event_id>
+ *
+ * Options:
+ *   --id <uuid>       webhook_events.id (repeatable)
+ *   --phone <number>  only messages from this customer
+ *   --from <iso>      received_at lower bound
+ *   --to <iso>        received_at upper bound
+ *   --limit <n>       max events (default 50)
+ *   --apply           really process the events (default: dry run, nothing is
+ *                     written or sent); replies are stored but not sent
+ *   --send            with --apply, also send the replies to the customers
+ *
+ * The API must run with ALLOW_DEBUG_SEEDS=true and DEBUG_SEED_TOKEN set.
+ */
+
+const API_URL = process.env.API_URL || 'http://localhost:3001';
+const DEBUG_SEED_TOKEN = process.env.DEBUG_SEED_TOKEN || '';
+
+if (!DEBUG_SEED_TOKEN) {
+  console.error('Missing DEBUG_SEED_TOKEN environment variable');
+  process.exit(1);
+}
+
+interface ReplayReport {
+  event_id: string;
+  wa_message_id: string | null;
+  phone: string | null;
+  received_at: string;
+  result: {
+    responder: string | null;
+    reply: string | null;
+    halted: { stage: string; reason: string } | null;
+    transition: { from: string; to: string; actions: string[] } | null;
+  } | null;
+  error: string | null;
+}
+
+function parseArgs(argv: string[]) {
+  const body: {
+    event_ids?: string[];
+    phone?: string;
+    from?: string;
+    to?: string;
+    limit?: number;
+    dry_run: boolean;
+    send?: boolean;
+  } = { dry_run: true };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const value = argv[i + 1];
+
+    switch (arg) {
+      case '--id':
+        body.event_ids = [...(body.event_ids || []), value];
+        i++;
+        break;
+      case '--phone':
+        body.phone = value;
+        i++;
+        break;
+      case '--from':
+        body.from = value;
+        i++;
+        break;
+      case '--to':
+        body.to = value;
+        i++;
+        break;
+      case '--limit':
+        body.limit = Number(value);
+        i++;
+        break;
+      case '--apply':
+        body.dry_run = false;
+        break;
+      case '--send':
+        body.send = true;
+        break;
+      case '--':
+        break;
+      default:
+        console.error(`Unknown option: ${arg}`);
+        process.exit(1);
+    }
+  }
+
+  return body;
+}
+
+function printReport(report: ReplayReport) {
+  console.log(`--- ${report.received_at}  ${report.phone ?? '?'}  ${report.wa_message_id ?? report.event_id}`);
+
+  if (report.error) {
+    console.log(`  error:      ${report.error}`);
+    return;
+  }
+
+  const result = report.result;
+  if (!result) {
+    return;
+  }
+
+  if (result.halted) {
+    console.log(`  halted:     ${result.halted.stage} (${result.halted.reason})`);
+  }
+  console.log(`  responder:  ${result.responder ?? '-'}`);
+  if (result.transition) {
+    console.log(`  transition: ${result.transition.from} -> ${result.transition.to}`);
+    if (result.transition.actions.length > 0) {
+      console.log(`  actions:    ${result.transition.actions.join(', ')}`);
+    }
+  }
+  if (result.reply) {
+    console.log(`  reply:      ${result.reply.replace(/\n/g, '\n              ')}`);
+  }
+}
+
+async function replay() {
+  const body = parseArgs(process.argv.slice(2));
+
+  const mode = body.dry_run ? 'dry run' : body.send ? 'APPLY + SEND' : 'APPLY, not sent';
+  console.log(`=== Webhook replay (${mode}) ===\n`);
+
+  const response = await fetch(`${API_URL}/api/debug/webhook-events/replay`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'x-debug-token': DEBUG_SEED_TOKEN,
+    },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    console.error(`Replay failed (${response.status}):`, await response.text());
+    process.exit(1);
+  }
+
+  const data = (await response.json()) as { count: number; events: ReplayReport[] };
+
+  for (const report of data.events) {
+    printReport(report);
+  }
+
+  const failed = data.events.filter((report) => report.error).length;
+  console.log(`\n${data.count} event(s) replayed, ${failed} failed`);
+}
+
+replay().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -8,6 +8,7 @@
  */
 
 import { createClient } from '@supabase/supabase-js';
+import { signatureHeaders } from './webhook_signature.js';
 
 const API_URL = process.env.API_URL || 'http://localhost:3001';
 const SUPABASE_URL = process.env.SUPABASE_URL || '';
@@ -74,12 +75,14 @@ async function sendMockMessage() {
   const startTime = Date.now();
 
   try {
+    const body = JSON.stringify(mockWebhookPayload);
     const response = await fetch(`${API_URL}/webhooks/whatsapp`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
+        ...signatureHeaders(body),
       },
-      body: JSON.stringify(mockWebhookPayload),
+      body,
     });
 
     const duration = Date.now() - startTime;
@@ -10,6 +10,8 @@
  */
 
 import { createClient } from '@supabase/supabase-js';
+import { FAKE_RECEIPT_IMAGE } from './fake_media.js';
+import { signatureHeaders } from './webhook_signature.js';
 
 const API_URL = process.env.API_URL || 'http://localhost:3001';
 const SUPABASE_URL = process.env.SUPABASE_URL || '';
@@ -104,8 +106,9 @@ const createMockPayload = (hasImage: boolean) => ({
                     type: 'image',
                     image: {
                       caption: 'Ya pagué, aquí está el comprobante de la transferencia',
-                      mime_type: 'image/jpeg',
-                      sha256: 'mock_sha256_hash',
+                      // Matches what fake_graph_api.ts serves for this id
+                      mime_type: FAKE_RECEIPT_IMAGE.mimeType,
+                      sha256: FAKE_RECEIPT_IMAGE.sha256,
                       id: `mock_media_${Date.now()}`,
                     },
                   }
@@ -143,12 +146,14 @@ async function sendMockPaymentProof() {
   const payload = createMockPayload(true); // with image
 
   try {
+    const body = JSON.stringify(payload);
     const response = await fetch(`${API_URL}/webhooks/whatsapp`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
+        ...signatureHeaders(body),
       },
-      body: JSON.stringify(payload),
+      body,
     });
 
     const duration = Date.now() - startTime;
@@ -0,0 +1,120 @@
+/**
+ * Run scripted Agent V2 conversations and check the outcome of every turn
+ *
+ * Usage:
+ *   pnpm --filter scripts simulate -- ../apps/api/scenarios/agent_v2
+ *   pnpm --filter scripts simulate -- ../apps/api/scenarios/agent_v2/add_and_checkout.yaml --verbose
+ *
+ * Arguments:
+ *   <path>...   scenario files (.yaml, .yml, .json) or directories holding them
+ *
+ * Options:
+ *   --live      turns without scripted `llm` answers call the configured
+ *               LLM_PROVIDER (default: the canned mock answer)
+ *   --verbose   also print the agent's reply for every turn
+ *
+ * Exit code: 0 when every scenario passes, 1 on mismatches, 2 on unreadable
+ * or invalid scenario files. Runs fully in memory: nothing is read from or
+ * written to Supabase and nothing is sent.
+ */
+
+import { readdirSync, statSync } from 'node:fs';
+import { extname, join, relative } from 'node:path';
+
+// The agent modules validate the API config on import; the simulator never
+// connects to Supabase, so placeholders are enough
+process.env.SUPABASE_URL ||= 'http://localhost:54321';
+process.env.SUPABASE_SERVICE_ROLE_KEY ||= 'simulator';
+process.env.TENANT_ID ||= '00000000-0000-0000-0000-000000000001';
+
+const { loadScenario, runScenario, formatScenarioReport } = await import('../apps/api/src/agent_v2/simulator.js');
+
+const SCENARIO_EXTENSIONS = new Set(['.yaml', '.yml', '.json']);
+
+function parseArgs(argv: string[]) {
+  const args = { paths: [] as string[], live: false, verbose: false };
+
+  for (const arg of argv) {
+    switch (arg) {
+      case '--':
+        break;
+      case '--live':
+        args.live = true;
+        break;
+      case '--verbose':
+        args.verbose = true;
+        break;
+      default:
+        if (arg.startsWith('--')) {
+          console.error(`Unknown option: ${arg}`);
+          process.exit(2);
+        }
+        args.paths.push(arg);
+    }
+  }
+
+  return args;
+}
+
+function collectScenarioFiles(paths: string[]): string[] {
+  return paths.flatMap((path) => {
+    if (!statSync(path).isDirectory()) {
+      return [path];
+    }
+    return readdirSync(path)
+      .filter((name) => SCENARIO_EXTENSIONS.has(extname(name)))
+      .sort()
+      .map((name) => join(path, name));
+  });
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+
+  if (args.paths.length === 0) {
+    console.error('Usage: simulate_conversation <scenario file or directory>... [--live] [--verbose]');
+    process.exit(2);
+  }
+
+  let files: string[];
+  try {
+    files = collectScenarioFiles(args.paths);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(2);
+  }
+
+  let failed = 0;
+  let invalid = 0;
+
+  for (const file of files) {
+    const source = relative(process.cwd(), file);
+    let scenario;
+
+    try {
+      scenario = loadScenario(file);
+    } catch (error) {
+      invalid++;
+      console.error(`ERROR ${source}\n${error instanceof Error ? error.message : error}\n`);
+      continue;
+    }
+
+    const report = await runScenario(scenario, { live: args.live });
+    if (!report.passed) {
+      failed++;
+    }
+
+    console.log(formatScenarioReport(report, source));
+    if (args.verbose) {
+      for (const turn of report.turns) {
+        console.log(`    turn ${turn.index} reply: ${JSON.stringify(turn.response_text)}`);
+      }
+    }
+    console.log('');
+  }
+
+  console.log(`${files.length - failed - invalid} passed, ${failed} failed, ${invalid} invalid`);
+  process.exit(invalid > 0 ? 2 : failed > 0 ? 1 : 0);
+}
+
+main();
@@ -0,0 +1,20 @@
+/**
+ * X-Hub-Signature-256 for the mock scripts.
+ *
+ * Uses the API's own signing code, so mock payloads pass the same check Meta's do.
+ */
+
+import { computeWebhookSignature } from '../apps/api/src/lib/webhook-signature.js';
+
+const WHATSAPP_APP_SECRET = process.env.WHATSAPP_APP_SECRET || '';
+
+/**
+ * Signs the body like Meta does when WHATSAPP_APP_SECRET is set.
+ * Without a secret the API must run with WHATSAPP_SKIP_SIGNATURE=true.
+ */
+export function signatureHeaders(body: string): Record<string, string> {
+  if (!WHATSAPP_APP_SECRET) {
+    return {};
+  }
+  return { 'X-Hub-Signature-256': computeWebhookSignature(Buffer.from(body), WHATSAPP_APP_SECRET) };
+}
@@ -0,0 +1,33 @@
+-- Migration: WhatsApp delivery/read status tracking for outbound_messages
+-- Safe: Creates new table and index, does not modify existing data
+
+-- Full history of status callbacks (sent, delivered, read, failed)
+CREATE TABLE IF NOT EXISTS outbound_message_status_events (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    outbound_message_id UUID NULL REFERENCES outbound_messages(id),
+    provider_message_id TEXT NOT NULL,
+    status TEXT NOT NULL,  -- 'sent', 'delivered', 'read', 'failed'
+    occurred_at TIMESTAMPTZ NOT NULL,
+    recipient_id TEXT NULL,
+    error_code INTEGER NULL,
+    error_title TEXT NULL,
+    error_details TEXT NULL,
+    raw JSONB NOT NULL DEFAULT '{}'::jsonb,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    CONSTRAINT outbound_status_events_unique UNIQUE (provider_message_id, status)
+);
+
+-- Index for timeline lookups per outbound message
+CREATE INDEX IF NOT EXISTS idx_outbound_status_events_message
+    ON outbound_message_status_events(outbound_message_id, occurred_at)
+    WHERE outbound_message_id IS NOT NULL;
+
+-- Index for matching callbacks to outbound messages
+CREATE INDEX IF NOT EXISTS idx_outbound_provider_message_id
+    ON outbound_messages(provider_message_id)
+    WHERE provider_message_id IS NOT NULL;
+
+-- Comment for documentation
+COMMENT ON TABLE outbound_message_status_events IS 'History of WhatsApp status callbacks for outbound messages';
+COMMENT ON COLUMN outbound_message_status_events.outbound_message_id IS 'Matched outbound message (NULL if the wamid was not sent through the queue)';
+COMMENT ON COLUMN outbound_messages.status IS 'Delivery status: pending, sent, delivered, read, failed, canceled';
@@ -0,0 +1,68 @@
+-- Migration: Durable inbound processing queue
+-- Safe: Creates new table and function, does not modify existing ones
+
+-- One job per inbound WhatsApp message. The webhook only acknowledges Meta
+-- after the job row is committed; a worker loop claims and processes jobs.
+CREATE TABLE IF NOT EXISTS inbound_jobs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    tenant_id UUID NOT NULL,
+    wa_message_id TEXT NOT NULL,
+    payload JSONB NOT NULL,                    -- { message, contact, payload }
+    status TEXT NOT NULL DEFAULT 'pending',    -- 'pending', 'processing', 'done', 'dead'
+    attempts INTEGER NOT NULL DEFAULT 0,
+    max_attempts INTEGER NOT NULL DEFAULT 5,
+    run_at TIMESTAMPTZ NOT NULL DEFAULT now(), -- not claimable before this (backoff)
+    locked_by TEXT NULL,
+    locked_until TIMESTAMPTZ NULL,             -- lease; expired leases are reclaimed
+    last_error TEXT NULL,
+    completed_at TIMESTAMPTZ NULL,
+    dead_at TIMESTAMPTZ NULL,
+    CONSTRAINT inbound_jobs_wa_message_unique UNIQUE (wa_message_id)
+);
+
+-- Index for claimable jobs
+CREATE INDEX IF NOT EXISTS idx_inbound_jobs_claimable
+    ON inbound_jobs(run_at)
+    WHERE status IN ('pending', 'processing');
+
+-- Index for dashboard listing by status
+CREATE INDEX IF NOT EXISTS idx_inbound_jobs_status
+    ON inbound_jobs(status, created_at DESC);
+
+-- Atomically claims up to p_limit due jobs for one worker.
+-- Pending jobs whose run_at has passed and processing jobs whose lease expired
+-- (worker crashed mid-job) are both claimable. SKIP LOCKED lets several API
+-- instances poll the same table without handing out a job twice.
+CREATE OR REPLACE FUNCTION claim_inbound_jobs(
+    p_worker_id TEXT,
+    p_limit INTEGER DEFAULT 10,
+    p_lease_seconds INTEGER DEFAULT 60
+)
+RETURNS SETOF inbound_jobs
+LANGUAGE sql
+AS $$
+    UPDATE inbound_jobs AS j
+    SET status = 'processing',
+        attempts = j.attempts + 1,
+        locked_by = p_worker_id,
+        locked_until = now() + make_interval(secs => p_lease_seconds),
+        updated_at = now()
+    WHERE j.id IN (
+        SELECT id
+        FROM inbound_jobs
+        WHERE (status = 'pending' AND run_at <= now())
+           OR (status = 'processing' AND locked_until < now())
+        ORDER BY run_at
+        LIMIT p_limit
+        FOR UPDATE SKIP LOCKED
+    )
+    RETURNING j.*;
+$$;
+
+-- Comments for documentation
+COMMENT ON TABLE inbound_jobs IS 'Durable queue of inbound WhatsApp messages awaiting pipeline processing';
+COMMENT ON COLUMN inbound_jobs.status IS 'pending -> processing -> done, or dead after max_attempts failures';
+COMMENT ON COLUMN inbound_jobs.attempts IS 'Number of claims so far, incremented by claim_inbound_jobs';
+COMMENT ON FUNCTION claim_inbound_jobs IS 'Claims due inbound jobs with a lease (FOR UPDATE SKIP LOCKED)';
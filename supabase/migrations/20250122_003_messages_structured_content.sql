@@ -0,0 +1,22 @@
+-- Migration: Structured content for every WhatsApp message type
+-- Safe: Adds nullable columns and indexes, does not modify existing data
+
+-- Typed payload produced by normalizeMessage(), discriminated by "kind":
+--   text, media (image/audio/video/document/sticker: media_id, mime_type, filename, ...),
+--   location (latitude, longitude, name, address), contacts, reply (button/list reply id + title),
+--   flow_reply, reaction (target_wa_message_id, emoji), order (catalog items), system, unsupported
+ALTER TABLE messages
+    ADD COLUMN IF NOT EXISTS content JSONB NULL;
+
+-- wamid of the message the customer quoted (WhatsApp "reply to")
+ALTER TABLE messages
+    ADD COLUMN IF NOT EXISTS reply_to_wa_message_id TEXT NULL;
+
+-- Index for resolving reply/reaction targets
+CREATE INDEX IF NOT EXISTS idx_messages_wa_message_id
+    ON messages(wa_message_id)
+    WHERE wa_message_id IS NOT NULL;
+
+-- Comments for documentation
+COMMENT ON COLUMN messages.content IS 'Normalized message content (JSON discriminated by kind); body keeps the readable text';
+COMMENT ON COLUMN messages.reply_to_wa_message_id IS 'wamid quoted by this message (context.id), if any';
@@ -0,0 +1,40 @@
+-- Migration: Inbound media download and storage
+-- Safe: Creates new table and storage bucket, adds a nullable column to payments
+
+-- One row per WhatsApp media id that we tried to download
+CREATE TABLE IF NOT EXISTS media_assets (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    tenant_id UUID NOT NULL,
+    wa_media_id TEXT NOT NULL,
+    message_id UUID NULL REFERENCES messages(id),
+    status TEXT NOT NULL,                 -- 'stored', 'failed'
+    mime_type TEXT NULL,
+    size_bytes INTEGER NULL,
+    sha256 TEXT NULL,                     -- hex digest of the stored bytes
+    filename TEXT NULL,                   -- original document filename
+    storage_backend TEXT NULL,            -- 'supabase', 'local'
+    storage_path TEXT NULL,
+    error TEXT NULL,
+    CONSTRAINT media_assets_wa_media_unique UNIQUE (wa_media_id)
+);
+
+-- Index for message lookups
+CREATE INDEX IF NOT EXISTS idx_media_assets_message
+    ON media_assets(message_id)
+    WHERE message_id IS NOT NULL;
+
+-- Link payment proofs to the downloaded receipt
+ALTER TABLE payments
+    ADD COLUMN IF NOT EXISTS proof_media_asset_id UUID NULL REFERENCES media_assets(id);
+
+-- Private bucket; files are served through the API (GET /api/media/:id)
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('whatsapp-media', 'whatsapp-media', false)
+ON CONFLICT (id) DO NOTHING;
+
+-- Comments for documentation
+COMMENT ON TABLE media_assets IS 'Inbound WhatsApp media downloaded via the Graph API (sha256-verified)';
+COMMENT ON COLUMN media_assets.storage_path IS 'Object path in the whatsapp-media bucket, or relative to MEDIA_LOCAL_DIR';
+COMMENT ON COLUMN payments.proof_media_asset_id IS 'Downloaded payment proof (image or PDF), if available';
@@ -0,0 +1,75 @@
+-- Migration: Per-contact ordering for inbound jobs
+-- Safe: Adds columns with backfill and replaces claim_inbound_jobs
+
+-- Jobs sharing an ordering key (one per customer phone) are processed one at a
+-- time, oldest WhatsApp timestamp first, across all workers
+ALTER TABLE inbound_jobs
+    ADD COLUMN IF NOT EXISTS ordering_key TEXT NULL;
+
+ALTER TABLE inbound_jobs
+    ADD COLUMN IF NOT EXISTS message_timestamp TIMESTAMPTZ NULL;
+
+UPDATE inbound_jobs
+SET ordering_key = 'wa:' || (payload->'message'->>'from'),
+    message_timestamp = to_timestamp((payload->'message'->>'timestamp')::bigint)
+WHERE ordering_key IS NULL;
+
+UPDATE inbound_jobs
+SET message_timestamp = created_at
+WHERE message_timestamp IS NULL;
+
+ALTER TABLE inbound_jobs
+    ALTER COLUMN ordering_key SET NOT NULL,
+    ALTER COLUMN message_timestamp SET NOT NULL;
+
+-- Index for head-of-line checks per key
+CREATE INDEX IF NOT EXISTS idx_inbound_jobs_ordering
+    ON inbound_jobs(ordering_key, message_timestamp, created_at)
+    WHERE status IN ('pending', 'processing');
+
+-- Same contract as before, plus per-key serialization: a job is only
+-- claimable when it is the oldest unfinished job of its ordering key and no
+-- job of that key holds a live lease. A job waiting on retry backoff keeps
+-- later messages of the same customer waiting; once it is dead they proceed.
+-- Concurrent claimers cannot both take the head of a key: the head row is
+-- locked (SKIP LOCKED) and every later row still sees it as unfinished.
+CREATE OR REPLACE FUNCTION claim_inbound_jobs(
+    p_worker_id TEXT,
+    p_limit INTEGER DEFAULT 10,
+    p_lease_seconds INTEGER DEFAULT 60
+)
+RETURNS SETOF inbound_jobs
+LANGUAGE sql
+AS $$
+    UPDATE inbound_jobs AS j
+    SET status = 'processing',
+        attempts = j.attempts + 1,
+        locked_by = p_worker_id,
+        locked_until = now() + make_interval(secs => p_lease_seconds),
+        updated_at = now()
+    WHERE j.id IN (
+        SELECT c.id
+        FROM inbound_jobs c
+        WHERE ((c.status = 'pending' AND c.run_at <= now())
+            OR (c.status = 'processing' AND c.locked_until < now()))
+          AND NOT EXISTS (
+              SELECT 1
+              FROM inbound_jobs e
+              WHERE e.ordering_key = c.ordering_key
+                AND e.id <> c.id
+                AND e.status IN ('pending', 'processing')
+                AND (
+                    (e.status = 'processing' AND e.locked_until >= now())
+                    OR (e.message_timestamp, e.created_at, e.id) < (c.message_timestamp, c.created_at, c.id)
+                )
+          )
+        ORDER BY c.run_at
+        LIMIT p_limit
+        FOR UPDATE SKIP LOCKED
+    )
+    RETURNING j.*;
+$$;
+
+-- Comments for documentation
+COMMENT ON COLUMN inbound_jobs.ordering_key IS 'Serialization key (wa:<phone>); one job per key is processed at a time';
+COMMENT ON COLUMN inbound_jobs.message_timestamp IS 'WhatsApp message timestamp; jobs of a key run in this order';
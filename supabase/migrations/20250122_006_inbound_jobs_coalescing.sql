@@ -0,0 +1,34 @@
+-- Migration: Coalesce bursts of inbound messages into one turn
+-- Safe: Creates new function, does not modify existing ones
+
+-- Called by a worker that already holds the head job of p_ordering_key:
+-- claims every other due pending job of that key so the burst is answered
+-- once. No other worker can claim these rows meanwhile, because the head's
+-- live lease blocks the whole key in claim_inbound_jobs.
+CREATE OR REPLACE FUNCTION claim_coalesced_inbound_jobs(
+    p_worker_id TEXT,
+    p_ordering_key TEXT,
+    p_lease_seconds INTEGER DEFAULT 60
+)
+RETURNS SETOF inbound_jobs
+LANGUAGE sql
+AS $$
+    UPDATE inbound_jobs AS j
+    SET status = 'processing',
+        attempts = j.attempts + 1,
+        locked_by = p_worker_id,
+        locked_until = now() + make_interval(secs => p_lease_seconds),
+        updated_at = now()
+    WHERE j.id IN (
+        SELECT id
+        FROM inbound_jobs
+        WHERE ordering_key = p_ordering_key
+          AND status = 'pending'
+          AND run_at <= now()
+        ORDER BY message_timestamp, created_at
+        FOR UPDATE SKIP LOCKED
+    )
+    RETURNING j.*;
+$$;
+
+COMMENT ON FUNCTION claim_coalesced_inbound_jobs IS 'Claims the remaining due jobs of a key whose head job the caller holds';
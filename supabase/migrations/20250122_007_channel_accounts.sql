@@ -0,0 +1,58 @@
+-- Migration: Registry of WhatsApp business numbers (channel accounts)
+-- Safe: Creates new table, adds nullable columns to existing ones, re-keys unfinished inbound jobs
+
+-- One row per WhatsApp business number, keyed by the Graph API phone_number_id
+-- found in every webhook (value.metadata.phone_number_id)
+CREATE TABLE IF NOT EXISTS channel_accounts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    tenant_id UUID NOT NULL REFERENCES tenants(id),
+    phone_number_id TEXT NOT NULL,
+    display_phone TEXT NULL,
+    label TEXT NULL,                          -- e.g. 'Minorista', 'Mayorista'
+    access_token TEXT NULL,                   -- NULL = use WHATSAPP_ACCESS_TOKEN
+    catalog TEXT NULL,                        -- NULL = every active product
+    agent_profile JSONB NOT NULL DEFAULT '{}'::jsonb,
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    CONSTRAINT channel_accounts_phone_number_unique UNIQUE (phone_number_id)
+);
+
+-- Products can belong to one line's catalog; NULL products are shown on every line
+ALTER TABLE vendi_products
+    ADD COLUMN IF NOT EXISTS catalog TEXT NULL;
+
+-- The business number a conversation happens on (replies go out from it)
+ALTER TABLE conversations
+    ADD COLUMN IF NOT EXISTS phone_number_id TEXT NULL;
+
+-- The business number an outbound message is sent from
+ALTER TABLE outbound_messages
+    ADD COLUMN IF NOT EXISTS phone_number_id TEXT NULL;
+
+-- Unfinished jobs get the per-line ordering key (wa:<phone_number_id>:<phone>)
+-- new jobs use, so jobs queued before the deploy stay serialized with new
+-- ones. Older payloads lack phoneNumberId; it is in the stored webhook.
+UPDATE inbound_jobs
+SET ordering_key = 'wa:' || COALESCE(
+        payload->>'phoneNumberId',
+        payload->'payload'->'entry'->0->'changes'->0->'value'->'metadata'->>'phone_number_id'
+    ) || ':' || (payload->'message'->>'from')
+WHERE status IN ('pending', 'processing')
+  AND ordering_key NOT LIKE 'wa:%:%'
+  AND COALESCE(
+        payload->>'phoneNumberId',
+        payload->'payload'->'entry'->0->'changes'->0->'value'->'metadata'->>'phone_number_id'
+    ) IS NOT NULL;
+
+-- Index for conversation lookups per customer and line
+CREATE INDEX IF NOT EXISTS idx_conversations_contact_phone_number
+    ON conversations(contact_id, phone_number_id, last_message_at DESC);
+
+-- Comments for documentation
+COMMENT ON TABLE channel_accounts IS 'WhatsApp business numbers: phone_number_id -> tenant, credentials, catalog and agent profile';
+COMMENT ON COLUMN channel_accounts.agent_profile IS 'Agent settings for this line: {"responder": "rules|gemini|agent_v2", "business_name": "..."}';
+COMMENT ON COLUMN vendi_products.catalog IS 'Catalog (channel_accounts.catalog) the product belongs to; NULL = all catalogs';
+COMMENT ON COLUMN conversations.phone_number_id IS 'Business number the customer wrote to; NULL for conversations that predate channel accounts';
+COMMENT ON COLUMN outbound_messages.phone_number_id IS 'Business number to send from; NULL = WHATSAPP_PHONE_NUMBER_ID';
+COMMENT ON COLUMN inbound_jobs.ordering_key IS 'Serialization key (wa:<phone_number_id>:<phone>, or wa:<phone> without a line); one job per key is processed at a time';
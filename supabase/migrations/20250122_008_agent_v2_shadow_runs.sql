@@ -0,0 +1,38 @@
+-- Migration: Agent V2 shadow runs (AGENT_V2_ENABLED=shadow)
+-- Safe: Creates new table, does not modify existing ones
+
+-- One row per answered turn: what V1 sent next to what Agent V2 would have done
+CREATE TABLE IF NOT EXISTS agent_v2_shadow_runs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    tenant_id UUID NOT NULL,
+    conversation_id UUID NOT NULL REFERENCES conversations(id),
+    wa_message_ids TEXT[] NOT NULL DEFAULT '{}',
+    customer_message TEXT NOT NULL,
+    -- V1 (sent to the customer)
+    v1_responder TEXT NOT NULL,             -- 'rules', 'gemini'
+    v1_reply TEXT NULL,
+    v1_state_before TEXT NULL,
+    v1_state_after TEXT NULL,
+    -- Agent V2 (dry run, never sent)
+    v2_reply TEXT NULL,
+    v2_state_before TEXT NULL,
+    v2_state_after TEXT NULL,
+    v2_proposed_actions JSONB NOT NULL DEFAULT '[]'::jsonb,
+    v2_executed_actions JSONB NOT NULL DEFAULT '[]'::jsonb,
+    v2_validation_errors JSONB NOT NULL DEFAULT '[]'::jsonb,
+    v2_state JSONB NULL,                    -- full V2 state, input of the next shadow run
+    v2_error TEXT NULL
+);
+
+-- Index for the next run's state lookup and per-conversation review
+CREATE INDEX IF NOT EXISTS idx_agent_v2_shadow_runs_conversation
+    ON agent_v2_shadow_runs(conversation_id, created_at DESC);
+
+-- Index for the dashboard diff view
+CREATE INDEX IF NOT EXISTS idx_agent_v2_shadow_runs_created
+    ON agent_v2_shadow_runs(created_at DESC);
+
+-- Comments for documentation
+COMMENT ON TABLE agent_v2_shadow_runs IS 'Agent V2 decisions computed alongside V1 replies, for comparison before cutover';
+COMMENT ON COLUMN agent_v2_shadow_runs.v2_state IS 'Shadow conversation state; conversation_state is never written in shadow mode';
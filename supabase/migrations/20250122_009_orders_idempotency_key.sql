@@ -0,0 +1,13 @@
+-- Migration: Idempotency key for orders created by Agent V2 (CONFIRM_ORDER)
+-- Safe: Only adds a nullable column and a partial index
+
+ALTER TABLE orders
+ADD COLUMN IF NOT EXISTS idempotency_key TEXT NULL;
+
+-- At most one open order per key; once paid or cancelled the key can be used again
+CREATE UNIQUE INDEX IF NOT EXISTS idx_orders_idempotency_key_open
+    ON orders(idempotency_key)
+    WHERE status = 'PENDING_PAYMENT' AND idempotency_key IS NOT NULL;
+
+-- Comments for documentation
+COMMENT ON COLUMN orders.idempotency_key IS 'Set by callers that may retry (agent_v2:<conversation>:<cart fingerprint>); retries reuse the open order';
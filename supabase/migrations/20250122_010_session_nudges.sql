@@ -0,0 +1,8 @@
+-- Migration: Track "¿sigues ahí?" nudges sent by the session timeout scheduler
+-- Safe: Only adds a nullable column
+
+ALTER TABLE conversation_state
+ADD COLUMN IF NOT EXISTS session_nudged_at TIMESTAMPTZ NULL;
+
+-- Comments for documentation
+COMMENT ON COLUMN conversation_state.session_nudged_at IS 'Last inactivity nudge; a new one is only sent after the customer writes again';
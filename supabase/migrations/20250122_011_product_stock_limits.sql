@@ -0,0 +1,12 @@
+-- Migration: Stock level and per-order quantity limit on vendi_products
+-- Safe: Only adds nullable columns (NULL = no limit)
+
+ALTER TABLE vendi_products
+ADD COLUMN IF NOT EXISTS stock_quantity INTEGER NULL CHECK (stock_quantity >= 0);
+
+ALTER TABLE vendi_products
+ADD COLUMN IF NOT EXISTS max_quantity_per_order INTEGER NULL CHECK (max_quantity_per_order > 0);
+
+-- Comments for documentation
+COMMENT ON COLUMN vendi_products.stock_quantity IS 'Units available; Agent V2 rejects cart quantities above it. NULL = not tracked';
+COMMENT ON COLUMN vendi_products.max_quantity_per_order IS 'Most units of this product one order may carry. NULL = only the global limit (100)';
@@ -0,0 +1,45 @@
+-- Migration: Full audit of Agent V2 LLM decisions
+-- Safe: Creates a new table and adds nullable columns to action_history
+
+-- One row per LLM answer (a turn has a second round when actions were rejected)
+CREATE TABLE IF NOT EXISTS llm_decisions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    conversation_id UUID NOT NULL REFERENCES conversations(id),
+    turn_id UUID NOT NULL,
+    round INTEGER NOT NULL DEFAULT 1,
+    customer_message TEXT NOT NULL,
+    fsm_state_before TEXT NOT NULL,
+    prompt_hash TEXT NOT NULL,              -- sha256 of system + context prompt
+    provider TEXT NOT NULL,                 -- 'gemini', 'openai_compatible', 'fixture', 'mock'
+    model TEXT NULL,
+    latency_ms INTEGER NOT NULL DEFAULT 0,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    input_tokens INTEGER NULL,
+    output_tokens INTEGER NULL,
+    raw_output TEXT NULL,
+    reasoning TEXT NULL,
+    response_text TEXT NULL,
+    fallback_reason TEXT NULL               -- NULL = the model's answer was used
+);
+
+-- Index for the conversation trace
+CREATE INDEX IF NOT EXISTS idx_llm_decisions_conversation
+    ON llm_decisions(conversation_id, created_at DESC);
+
+-- Every proposed action is stored, not only executed ones
+ALTER TABLE action_history
+ADD COLUMN IF NOT EXISTS validation_error TEXT NULL;
+
+ALTER TABLE action_history
+ADD COLUMN IF NOT EXISTS llm_decision_id UUID NULL REFERENCES llm_decisions(id);
+
+CREATE INDEX IF NOT EXISTS idx_action_history_llm_decision
+    ON action_history(llm_decision_id)
+    WHERE llm_decision_id IS NOT NULL;
+
+-- Comments for documentation
+COMMENT ON TABLE llm_decisions IS 'Agent V2 LLM calls: prompt hash, model, latency, tokens, raw output and fallback reason';
+COMMENT ON COLUMN llm_decisions.round IS '1 = first answer, 2 = answer after rejected_actions were sent back';
+COMMENT ON COLUMN action_history.validation_error IS 'Why the validator rejected the action (validated = false)';
+COMMENT ON COLUMN action_history.llm_decision_id IS 'LLM answer that proposed the action; NULL for system events (SESSION_TIMEOUT)';
@@ -0,0 +1,28 @@
+-- Migration: Optimistic concurrency for conversation_state
+-- Safe: Adds a NOT NULL column with a default and a trigger; existing writers keep working
+
+ALTER TABLE conversation_state
+ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 0;
+
+-- Every update bumps the version, whoever writes (agent turn, session scheduler,
+-- dashboard, manual SQL), so a turn saving with "WHERE version = <read version>"
+-- notices any change made since it loaded the state.
+CREATE OR REPLACE FUNCTION bump_conversation_state_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    NEW.version := OLD.version + 1;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_conversation_state_version ON conversation_state;
+CREATE TRIGGER trg_conversation_state_version
+    BEFORE UPDATE ON conversation_state
+    FOR EACH ROW
+    EXECUTE FUNCTION bump_conversation_state_version();
+
+-- Comments for documentation
+COMMENT ON COLUMN conversation_state.version IS 'Incremented on every update; Agent V2 saves with compare-and-swap on it';
+COMMENT ON FUNCTION bump_conversation_state_version IS 'BEFORE UPDATE trigger keeping conversation_state.version monotonic';
@@ -0,0 +1,31 @@
+-- Migration: Product variants (flavor, box size...) with their own price and SKU
+-- Safe: Creates a new table; products without variants are unaffected
+
+CREATE TABLE IF NOT EXISTS vendi_product_variants (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    product_id UUID NOT NULL REFERENCES vendi_products(id) ON DELETE CASCADE,
+    sku TEXT,
+    name TEXT NOT NULL,
+    price NUMERIC(10, 2) NOT NULL,
+    stock_quantity INTEGER NULL CHECK (stock_quantity >= 0),
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    sort_order INTEGER NOT NULL DEFAULT 0,
+    attributes JSONB NOT NULL DEFAULT '{}',
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Variants are always loaded with their product
+CREATE INDEX IF NOT EXISTS idx_vendi_product_variants_product
+    ON vendi_product_variants(product_id, sort_order);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_vendi_product_variants_sku
+    ON vendi_product_variants(sku)
+    WHERE sku IS NOT NULL;
+
+-- Comments for documentation
+COMMENT ON TABLE vendi_product_variants IS 'Sellable options of a product; a product with active variants can only be ordered through one of them';
+COMMENT ON COLUMN vendi_product_variants.name IS 'Shown after the product name, e.g. "Maracuya / Caja x12"';
+COMMENT ON COLUMN vendi_product_variants.price IS 'Unit price of this variant (replaces vendi_products.price)';
+COMMENT ON COLUMN vendi_product_variants.stock_quantity IS 'Units available of this variant. NULL = the product stock applies';
+COMMENT ON COLUMN vendi_product_variants.attributes IS 'Structured options, e.g. {"flavor": "maracuya", "box_size": 12}';
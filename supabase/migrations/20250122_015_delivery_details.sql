@@ -0,0 +1,13 @@
+-- Migration: Delivery details collected by Agent V2 before CONFIRM_ORDER
+-- Safe: Adds columns with defaults; existing conversations start with nothing collected
+
+ALTER TABLE conversation_state
+    ADD COLUMN IF NOT EXISTS delivery_json JSONB NOT NULL DEFAULT '{"method": null, "address": null, "slot": null}';
+
+-- delivery_method and delivery_address already exist on orders
+ALTER TABLE orders
+    ADD COLUMN IF NOT EXISTS delivery_slot TEXT;
+
+-- Comments for documentation
+COMMENT ON COLUMN conversation_state.delivery_json IS 'Delivery details set with SET_DELIVERY_METHOD / _ADDRESS / _SLOT; copied to the order on CONFIRM_ORDER';
+COMMENT ON COLUMN orders.delivery_slot IS 'When the customer wants the order delivered or picked up, as they said it (e.g. "mañana 15-18h")';
@@ -0,0 +1,13 @@
+-- Migration: Output guardrail hits on Agent V2 LLM decisions
+-- Safe: Adds a column with a default; existing decisions have no hits
+
+ALTER TABLE llm_decisions
+    ADD COLUMN IF NOT EXISTS guardrail_violations JSONB NOT NULL DEFAULT '[]';
+
+-- Finding replies that were replaced
+CREATE INDEX IF NOT EXISTS idx_llm_decisions_guardrail
+    ON llm_decisions(created_at DESC)
+    WHERE guardrail_violations <> '[]'::jsonb;
+
+-- Comments for documentation
+COMMENT ON COLUMN llm_decisions.guardrail_violations IS 'Prices, account numbers and discount phrases in response_text that the cart, catalog and payment account do not back, e.g. [{"kind": "price", "match": "Bs 20"}]; the customer got a template instead';
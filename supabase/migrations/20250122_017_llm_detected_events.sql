@@ -0,0 +1,8 @@
+-- Migration: Detected events on Agent V2 LLM decisions
+-- Safe: Adds a column with a default; existing decisions show no events
+
+ALTER TABLE llm_decisions
+    ADD COLUMN IF NOT EXISTS detected_events JSONB NOT NULL DEFAULT '[]';
+
+-- Comments for documentation
+COMMENT ON COLUMN llm_decisions.detected_events IS 'Events detected in customer_message and given to the LLM, with the keyword that fired each, e.g. [{"event": "COMPLAINT", "matched": "llego roto"}]. Keyword lists: app_config key agent_v2_event_keywords';
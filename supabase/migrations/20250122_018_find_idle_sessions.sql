@@ -0,0 +1,67 @@
+-- Migration: Idle session lookup for the session timeout scheduler
+-- Safe: Adds a read-only function and an index
+
+-- The scheduler used to take the 100 oldest conversation_state rows by
+-- updated_at and check idle time afterwards. Nudged carts and overridden
+-- conversations keep their updated_at, so once 100 of them piled up newer idle
+-- carts were never reached. Here the idle cutoff (and, for nudges, "not nudged
+-- since the customer last wrote") is applied before the limit, oldest activity
+-- first, so every row returned is actionable.
+CREATE OR REPLACE FUNCTION find_idle_sessions(
+    p_fsm_states TEXT[],
+    p_human_override BOOLEAN,
+    p_idle_before TIMESTAMPTZ,
+    p_pending_nudge_only BOOLEAN DEFAULT false,
+    p_limit INTEGER DEFAULT 100
+)
+RETURNS TABLE (
+    conversation_id UUID,
+    fsm_state TEXT,
+    cart_json JSONB,
+    human_override_at TIMESTAMPTZ,
+    session_nudged_at TIMESTAMPTZ,
+    version INTEGER,
+    last_message_at TIMESTAMPTZ,
+    last_activity_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT *
+    FROM (
+        SELECT
+            s.conversation_id,
+            s.fsm_state,
+            s.cart_json,
+            s.human_override_at,
+            s.session_nudged_at,
+            s.version,
+            c.last_message_at,
+            -- A takeover counts as activity even if the last message is older
+            CASE
+                WHEN p_human_override THEN GREATEST(c.last_message_at, COALESCE(s.human_override_at, c.last_message_at))
+                ELSE c.last_message_at
+            END AS last_activity_at
+        FROM conversation_state s
+        JOIN conversations c ON c.id = s.conversation_id
+        WHERE s.human_override = p_human_override
+          AND (p_fsm_states IS NULL OR s.fsm_state = ANY (p_fsm_states))
+          AND c.last_message_at IS NOT NULL
+          AND (
+              NOT p_pending_nudge_only
+              OR (
+                  jsonb_array_length(COALESCE(s.cart_json->'items', '[]'::jsonb)) > 0
+                  AND (s.session_nudged_at IS NULL OR s.session_nudged_at < c.last_message_at)
+              )
+          )
+    ) idle
+    WHERE idle.last_activity_at < p_idle_before
+    ORDER BY idle.last_activity_at
+    LIMIT p_limit;
+$$;
+
+CREATE INDEX IF NOT EXISTS idx_conversations_last_message_at
+    ON conversations(last_message_at);
+
+-- Comments for documentation
+COMMENT ON FUNCTION find_idle_sessions IS 'conversation_state rows idle since before p_idle_before (last message, or takeover for overrides), oldest first; used by the session timeout scheduler';